@@ -1,129 +1,254 @@
-import OpenAI from 'openai';
-import Anthropic from '@anthropic-ai/sdk';
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import * as fs from 'fs';
-import { Timestamp, retry, imageToBase64 } from './utils';
-import dotenv from 'dotenv';
-
-dotenv.config();
-
-// AI model constants
-export const OPENAI_MODEL = "gpt-4o-2024-11-20";
-export const ANTHROPIC_MODEL = "claude-3-5-sonnet-20240620";
-export const GEMINI_MODEL = "gemini-2.0-flash";
-
-// Initialize AI clients
-export const openai = new OpenAI({
-    apiKey: process.env.OPENAI_API_KEY
-});
-
-export const anthropic = new Anthropic({
-    apiKey: process.env.ANTHROPIC_API_KEY || ''
-});
-
-export const genAI = new GoogleGenerativeAI(process.env.GOOGLE_API_KEY || '');
-
-// System prompt
-export const LESSON_SYSTEM_PROMPT = `You need to create a lesson from the content that the user sends you.
-The lesson must be generated in the SAME LANGUAGE as the transcription content (do not translate, use the original language).
-The lesson should contain the following:
-1) 2-7 memory cards (each description must be between 40 to 150 characters)
-2) 1-3 quiz cards with varied questions
-3) 1 Open-Ended Question Card
-4) The lesson must have a title and description, which you must fill out in lessonInfo section and must reflect the overall essence of our lesson
-
-Your answer must be structured exactly in JSON format. Do not include any additional text or formatting.`;
+import { Timestamp, hashValues, mapWithConcurrency } from './utils';
+import { retry } from './retry';
+import { UsageRecorder } from './usage';
+import { Keyframe } from './frames';
+import { RateLimitManager } from './scheduler';
+import { LessonAttempt, LessonResult, LessonSection, parseLesson, parseSectionCards } from './lesson';
+import {
+    AnalysisManager,
+    AnalysisProvider,
+    AnswerFormat,
+    DEFAULT_PROMPT_BUDGET,
+    LESSON_FORMAT,
+    LESSON_SYSTEM_PROMPT,
+    PromptPart,
+    RepairTurn,
+    SECTION_CARDS_FORMAT,
+    SECTION_SYSTEM_PROMPT,
+    buildFramesIntro,
+    buildMultimodalPrompt,
+    buildReducePrompt,
+    buildRepairPrompt,
+    buildSectionRepairPrompt,
+    buildSectionTask,
+    buildUserPrompt,
+    estimateTextTokens,
+    formatTranscript,
+    splitTopicalSections
+} from './analysis';
+
+// How many times a model may answer before the lesson is reported as failed
+export const DEFAULT_LESSON_MAX_ATTEMPTS = 3;
+// Estimated transcript tokens above which the lesson is built section by section
+export const DEFAULT_LESSON_SECTION_TOKENS = 8000;
+// Output limit of the first request; doubled after an answer that was cut off
+const INITIAL_OUTPUT_TOKENS = 2048;
+const MAX_OUTPUT_TOKENS = 8192;
+
+export interface AIServiceOptions {
+    maxLessonAttempts?: number;
+    sectionTokens?: number;
+}
+
+// Per-lesson settings of analyze
+export interface AnalyzeOptions {
+    // Cancels the requests in flight and the retries
+    signal?: AbortSignal;
+    // Receives the tokens of each request and refuses new ones over --max-cost
+    usage?: UsageRecorder;
+    // Called for every retried request
+    onRetry?: (error: unknown) => void;
+}
+
+// One structured question to a model and how its answer is checked
+interface ModelTask<T> {
+    // Recorded with the attempts of long videos
+    stage?: string;
+    systemPrompt: string;
+    format: AnswerFormat;
+    content: PromptPart[];
+    parse(raw: string): { value: T | null; errors: string[] };
+    // Feedback sent with an invalid answer
+    repair(errors: string[]): string;
+}
 
 export class AIService {
-    // Analyze with OpenAI
-    async analyzeWithOpenAI(timestamps: Timestamp[], frames: string[], includeImages: boolean): Promise<string> {
-        return retry(async () => {
-            const messages = [
-                { role: "system", content: LESSON_SYSTEM_PROMPT },
-                { 
-                    role: "user", 
-                    content: includeImages ? [
-                        {
-                            type: "text",
-                            text: `Create a lesson based on this video content:\nTranscription: ${JSON.stringify(timestamps)}`
-                        },
-                        ...await Promise.all(frames.map(async (frame) => ({
-                            type: "image_url",
-                            image_url: {
-                                url: `data:image/jpeg;base64,${await imageToBase64(frame)}`
-                            }
-                        })))
-                    ] : `Create a lesson based on this video content:\nTranscription: ${JSON.stringify(timestamps)}`
-                }
-            ];
-
-            const completion = await openai.chat.completions.create({
-                model: OPENAI_MODEL,
-                messages: messages as any,
-                max_tokens: 1000,
-                response_format: { type: "json_object" }
-            });
-
-            return completion.choices[0].message.content || '';
-        });
+    private maxLessonAttempts: number;
+    private sectionTokens: number;
+
+    constructor(options: AIServiceOptions = {}) {
+        this.maxLessonAttempts = Math.max(1, options.maxLessonAttempts ?? DEFAULT_LESSON_MAX_ATTEMPTS);
+        this.sectionTokens = Math.max(1000, options.sectionTokens ?? DEFAULT_LESSON_SECTION_TOKENS);
+    }
+
+    /**
+     * Asks the provider for a lesson until it passes validation or the attempts run out.
+     * Each rejected answer is sent back together with the list of violations.
+     * With images, the frames that fit the provider's prompt budget are placed in the transcript.
+     * Long transcripts are split into sections: cards are proposed per section, then a reduce pass picks the lesson.
+     * @param providerName Name of a provider registered in AnalysisManager
+     */
+    async analyze(
+        providerName: string,
+        timestamps: Timestamp[],
+        frames: Keyframe[],
+        includeImages: boolean,
+        options: AnalyzeOptions = {}
+    ): Promise<LessonResult> {
+        const provider = AnalysisManager.getProvider(providerName);
+        const images = includeImages ? frames : [];
+        const sectionTokens = this.getSectionTokens(providerName, timestamps);
+        if (sectionTokens !== null) {
+            return this.analyzeInSections(provider, timestamps, images, sectionTokens, options);
+        }
+
+        const attempts: LessonAttempt[] = [];
+        const lesson = await this.ask(provider, timestamps, {
+            systemPrompt: LESSON_SYSTEM_PROMPT,
+            format: LESSON_FORMAT,
+            content: await this.buildContent(provider, timestamps, images),
+            parse: parseLessonAnswer,
+            repair: buildRepairPrompt
+        }, attempts, options);
+        return { provider: provider.name, lesson, attempts };
+    }
+
+    /**
+     * Size limit of the sections the transcript is split into for this provider,
+     * or null when the whole transcript goes into one request
+     */
+    getSectionTokens(providerName: string, timestamps: Timestamp[]): number | null {
+        const limit = this.getSectionLimit(providerName);
+        return estimateTextTokens(formatTranscript(timestamps)) > limit ? limit : null;
+    }
+
+    // Estimated transcript tokens above which the provider gets the transcript in sections
+    getSectionLimit(providerName: string): number {
+        const budget = AnalysisManager.getProvider(providerName).promptBudget ?? DEFAULT_PROMPT_BUDGET;
+        // Sections leave room in the context window for frames and the answer
+        return Math.min(this.sectionTokens, Math.floor(budget.maxTokens / 2));
+    }
+
+    /**
+     * Hash of the instructions a lesson is asked with, without the transcript and the frames.
+     * Long transcripts are also asked with the section prompt and the reduce prompt.
+     */
+    getPromptHash(sectioned: boolean, includeImages: boolean): string {
+        return hashValues(
+            LESSON_SYSTEM_PROMPT, LESSON_FORMAT, includeImages ? buildFramesIntro([]) : buildUserPrompt([]), buildRepairPrompt([]),
+            ...(sectioned ? [SECTION_SYSTEM_PROMPT, SECTION_CARDS_FORMAT, buildSectionRepairPrompt([]), buildReducePrompt([])] : [])
+        );
     }
 
-    // Analyze with Anthropic Claude
-    async analyzeWithAnthropic(timestamps: Timestamp[], frames: string[], includeImages: boolean): Promise<string> {
-        return retry(async () => {
-            const imageContents = includeImages ? await Promise.all(frames.map(async (frame) => ({
-                type: "image" as const,
-                source: {
-                    type: "base64" as const,
-                    media_type: "image/jpeg" as const,
-                    data: await imageToBase64(frame)
-                }
-            }))) : [];
-
-            const message = await anthropic.messages.create({
-                model: ANTHROPIC_MODEL,
-                max_tokens: 1000,
-                messages: [{
-                    role: "user",
-                    content: includeImages ? [
-                        {
-                            type: "text" as const,
-                            text: `${LESSON_SYSTEM_PROMPT}\n\nCreate a lesson based on this video content:\nTranscription: ${JSON.stringify(timestamps)}`
-                        },
-                        ...imageContents
-                    ] : `${LESSON_SYSTEM_PROMPT}\n\nCreate a lesson based on this video content:\nTranscription: ${JSON.stringify(timestamps)}`
-                }]
-            });
-
-            const content = message.content[0];
-            if (content.type === 'text') {
-                return content.text;
+    // Map pass over topical sections, then a reduce pass that builds the lesson from their cards
+    private async analyzeInSections(
+        provider: AnalysisProvider,
+        timestamps: Timestamp[],
+        frames: Keyframe[],
+        sectionTokens: number,
+        options: AnalyzeOptions
+    ): Promise<LessonResult> {
+        const parts = splitTopicalSections(timestamps, sectionTokens);
+        console.log(`Long transcript: building the lesson from ${parts.length} sections`);
+        const sorted = [...frames].sort((a, b) => a.timestamp - b.timestamp);
+        // Sections are sent at once within the provider's limits; attempts are collected per section to keep their order
+        const results = await mapWithConcurrency(parts, parts.length, async (segments, i) => {
+            const section: LessonSection = { start: segments[0].start, end: segments[segments.length - 1].end, cards: null };
+            // Frames on screen during the section, including the one shown when it starts
+            const sectionFrames = sorted.filter((frame, j) =>
+                frame.timestamp < section.end && (j + 1 === sorted.length || sorted[j + 1].timestamp > section.start));
+            const stage = `section ${i + 1}/${parts.length}`;
+            const sectionAttempts: LessonAttempt[] = [];
+
+            section.cards = await this.ask(provider, segments, {
+                stage,
+                systemPrompt: SECTION_SYSTEM_PROMPT,
+                format: SECTION_CARDS_FORMAT,
+                content: await this.buildContent(provider, segments, sectionFrames, buildSectionTask(section, i, parts.length)),
+                parse: raw => {
+                    const { cards, errors } = parseSectionCards(raw);
+                    return { value: cards, errors };
+                },
+                repair: buildSectionRepairPrompt
+            }, sectionAttempts, options);
+            if (!section.cards) {
+                console.warn(`No valid cards from ${provider.name} for ${stage}; the lesson is built from the other sections`);
             }
-            return 'No text content received from Claude';
+            return { section, attempts: sectionAttempts };
         });
+        const sections = results.map(result => result.section);
+        const attempts = results.flatMap(result => result.attempts);
+
+        if (sections.every(section => !section.cards)) {
+            return { provider: provider.name, lesson: null, attempts, sections };
+        }
+        const lesson = await this.ask(provider, timestamps, {
+            stage: 'reduce',
+            systemPrompt: LESSON_SYSTEM_PROMPT,
+            format: LESSON_FORMAT,
+            content: [{ type: 'text', text: buildReducePrompt(sections) }],
+            parse: parseLessonAnswer,
+            repair: buildRepairPrompt
+        }, attempts, options);
+        return { provider: provider.name, lesson, attempts, sections };
     }
 
-    // Analyze with Google Gemini
-    async analyzeWithGemini(timestamps: Timestamp[], frames: string[], includeImages: boolean): Promise<string> {
-        return retry(async () => {
-            const model = genAI.getGenerativeModel({ model: GEMINI_MODEL });
-            
-            const imageContents = includeImages ? await Promise.all(frames.map(async frame => ({
-                inlineData: {
-                    data: (await fs.promises.readFile(frame)).toString('base64'),
-                    mimeType: 'image/jpeg'
-                }
-            }))) : [];
-
-            const content = includeImages ? [
-                `${LESSON_SYSTEM_PROMPT}\n\nCreate a lesson based on this video content:\nTranscription: ${JSON.stringify(timestamps)}`,
-                ...imageContents
-            ] : [
-                `${LESSON_SYSTEM_PROMPT}\n\nCreate a lesson based on this video content:\nTranscription: ${JSON.stringify(timestamps)}`
-            ];
-
-            const result = await model.generateContent(content);
-            return result.response.text();
-        });
+    // Built once per task, so the frames are not re-encoded for each attempt
+    private async buildContent(provider: AnalysisProvider, timestamps: Timestamp[], frames: Keyframe[], task?: string): Promise<PromptPart[]> {
+        if (frames.length === 0) {
+            return [{ type: 'text', text: buildUserPrompt(timestamps, task) }];
+        }
+        return buildMultimodalPrompt(timestamps, frames, provider.promptBudget ?? DEFAULT_PROMPT_BUDGET, task);
+    }
+
+    /**
+     * Sends the task until the answer passes its check or the attempts run out; every answer is added to attempts.
+     * An answer cut off at the output limit is not repaired: the request is repeated with twice the limit.
+     */
+    private async ask<T>(
+        provider: AnalysisProvider,
+        timestamps: Timestamp[],
+        task: ModelTask<T>,
+        attempts: LessonAttempt[],
+        { signal, usage, onRetry }: AnalyzeOptions
+    ): Promise<T | null> {
+        const repairs: RepairTurn[] = [];
+        const label = task.stage ? ` (${task.stage})` : '';
+        let maxOutputTokens = INITIAL_OUTPUT_TOKENS;
+
+        for (let attempt = 1; attempt <= this.maxLessonAttempts; attempt++) {
+            const request = {
+                timestamps,
+                content: task.content,
+                systemPrompt: task.systemPrompt,
+                format: task.format,
+                maxOutputTokens
+            };
+            // Failed requests are retried by the error-aware policy; rejected answers are repaired below
+            const answer = await retry(
+                requestSignal => RateLimitManager.run(provider.name, () => {
+                    usage?.checkBudget();
+                    return provider.generate({ ...request, signal: requestSignal }, repairs);
+                }),
+                { signal, label: `${provider.name} request${label}`, onRetry }
+            );
+            if (answer.usage) {
+                usage?.record({ provider: provider.name, model: provider.model, ...answer.usage });
+            }
+            const raw = answer.raw;
+
+            if (answer.truncated) {
+                attempts.push({ stage: task.stage, attempt, raw, errors: [`The answer was cut off at ${maxOutputTokens} output tokens`] });
+                console.warn(`Answer from ${provider.name}${label} was cut off at ${maxOutputTokens} tokens (attempt ${attempt}/${this.maxLessonAttempts})`);
+                maxOutputTokens = Math.min(MAX_OUTPUT_TOKENS, maxOutputTokens * 2);
+                continue;
+            }
+
+            const { value, errors } = task.parse(raw);
+            attempts.push({ stage: task.stage, attempt, raw, errors });
+            if (value) {
+                return value;
+            }
+
+            console.warn(`Answer from ${provider.name}${label} is invalid (attempt ${attempt}/${this.maxLessonAttempts}):`);
+            errors.forEach(error => console.warn(`  - ${error}`));
+            repairs.push({ ...answer, feedback: task.repair(errors) });
+        }
+        return null;
     }
-} 
\ No newline at end of file
+}
+
+function parseLessonAnswer(raw: string): { value: LessonResult['lesson']; errors: string[] } {
+    const { lesson, errors } = parseLesson(raw);
+    return { value: lesson, errors };
+}
@@ -0,0 +1,91 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { toAnthropicSchema } from '../lesson';
+import { getTextOnlyContent } from './multimodal';
+import { ANTHROPIC_PROMPT_BUDGET } from './budgets';
+import { AnalysisProvider, AnalysisProviderType, AnalysisRequest, ModelAnswer, PromptPart, RepairTurn } from './types';
+
+export const ANTHROPIC_MODEL = "claude-3-5-sonnet-20240620";
+
+// Tool inputs have to be objects even when the rejected answer was not valid JSON
+function safeParseJson(raw: string): Record<string, unknown> {
+    try {
+        const value = JSON.parse(raw);
+        return typeof value === 'object' && value !== null ? value : {};
+    } catch {
+        return {};
+    }
+}
+
+// Text and base64 image blocks, or a plain string when there are no images
+function toAnthropicContent(content: PromptPart[]) {
+    return getTextOnlyContent(content) ?? content.map(part => part.type === 'text'
+        ? { type: "text" as const, text: part.text }
+        : {
+            type: "image" as const,
+            source: { type: "base64" as const, media_type: part.mimeType, data: part.data }
+        });
+}
+
+export class AnthropicAnalysisProvider implements AnalysisProvider {
+    readonly name = AnalysisProviderType.ANTHROPIC;
+    readonly model = ANTHROPIC_MODEL;
+    readonly promptBudget = ANTHROPIC_PROMPT_BUDGET;
+    private client = new Anthropic({
+        apiKey: process.env.ANTHROPIC_API_KEY || '',
+        // Retries follow the policy of AIService, not the SDK's own
+        maxRetries: 0
+    });
+
+    async generate(request: AnalysisRequest, repairs: RepairTurn[]): Promise<ModelAnswer> {
+        // The answer comes back as the input of a forced tool call, so Claude has to follow the schema
+        const toolName = `save_${request.format.name}`;
+        const message = await this.client.messages.create({
+            model: this.model,
+            max_tokens: request.maxOutputTokens,
+            system: request.systemPrompt,
+            tools: [{
+                name: toolName,
+                description: request.format.description,
+                input_schema: toAnthropicSchema(request.format.schema)
+            }],
+            tool_choice: { type: "tool", name: toolName },
+            messages: [
+                {
+                    role: "user",
+                    content: toAnthropicContent(request.content)
+                },
+                ...repairs.flatMap(repair => [
+                    {
+                        role: "assistant" as const,
+                        content: [{
+                            type: "tool_use" as const,
+                            id: repair.toolCallId!,
+                            name: toolName,
+                            input: safeParseJson(repair.raw)
+                        }]
+                    },
+                    {
+                        role: "user" as const,
+                        content: [{
+                            type: "tool_result" as const,
+                            tool_use_id: repair.toolCallId!,
+                            is_error: true,
+                            content: repair.feedback
+                        }]
+                    }
+                ])
+            ]
+        }, { signal: request.signal });
+
+        const toolUse = message.content.find(block => block.type === 'tool_use');
+        const truncated = message.stop_reason === 'max_tokens';
+        const usage = { inputTokens: message.usage.input_tokens, outputTokens: message.usage.output_tokens };
+        if (toolUse && toolUse.type === 'tool_use') {
+            return { raw: JSON.stringify(toolUse.input), toolCallId: toolUse.id, truncated, usage };
+        }
+        if (truncated) {
+            return { raw: '', truncated, usage };
+        }
+        throw new Error(`Claude did not return the answer through the ${toolName} tool`);
+    }
+}
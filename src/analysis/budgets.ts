@@ -0,0 +1,64 @@
+import { PromptBudget } from './types';
+
+const MB = 1024 * 1024;
+
+// gpt-4o, detail "high": fit into 2048x2048, shortest side down to 768, then 170 tokens per 512px tile plus 85
+export function openAIImageTokens(width: number, height: number): number {
+    const fit = Math.min(1, 2048 / Math.max(width, height));
+    const shortest = Math.min(1, 768 / (Math.min(width, height) * fit));
+    const scale = fit * shortest;
+    return 85 + 170 * Math.ceil((width * scale) / 512) * Math.ceil((height * scale) / 512);
+}
+
+// Claude: about width * height / 750, after the long side is scaled down to 1568
+export function anthropicImageTokens(width: number, height: number): number {
+    const scale = Math.min(1, 1568 / Math.max(width, height));
+    return Math.ceil((width * scale * height * scale) / 750);
+}
+
+// Gemini 2.0: 258 tokens up to 384px on both sides, otherwise 258 per 768px tile
+export function geminiImageTokens(width: number, height: number): number {
+    if (width <= 384 && height <= 384) {
+        return 258;
+    }
+    return 258 * Math.ceil(width / 768) * Math.ceil(height / 768);
+}
+
+export const OPENAI_PROMPT_BUDGET: PromptBudget = {
+    maxImages: 20,
+    maxImageBytes: 20 * MB,
+    maxTokens: 100000,
+    maxDimension: 1024,
+    jpegQuality: 80,
+    imageTokens: openAIImageTokens
+};
+
+// The API takes up to 100 images and 32 MB per request; a 1092px frame costs under 1600 tokens
+export const ANTHROPIC_PROMPT_BUDGET: PromptBudget = {
+    maxImages: 20,
+    maxImageBytes: 20 * MB,
+    maxTokens: 100000,
+    maxDimension: 1092,
+    jpegQuality: 80,
+    imageTokens: anthropicImageTokens
+};
+
+// Inline requests are limited to 20 MB; at 768px every frame is a single tile
+export const GEMINI_PROMPT_BUDGET: PromptBudget = {
+    maxImages: 40,
+    maxImageBytes: 14 * MB,
+    maxTokens: 200000,
+    maxDimension: 768,
+    jpegQuality: 80,
+    imageTokens: geminiImageTokens
+};
+
+// For OpenAI-compatible servers and custom providers: local vision models often have small context windows
+export const DEFAULT_PROMPT_BUDGET: PromptBudget = {
+    maxImages: 8,
+    maxImageBytes: 8 * MB,
+    maxTokens: 24000,
+    maxDimension: 768,
+    jpegQuality: 80,
+    imageTokens: openAIImageTokens
+};
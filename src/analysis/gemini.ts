@@ -0,0 +1,47 @@
+import { GoogleGenerativeAI, Content, FinishReason } from '@google/generative-ai';
+import { toGeminiSchema } from '../lesson';
+import { GEMINI_PROMPT_BUDGET } from './budgets';
+import { AnalysisProvider, AnalysisProviderType, AnalysisRequest, ModelAnswer, RepairTurn } from './types';
+
+export const GEMINI_MODEL = "gemini-2.0-flash";
+
+export class GeminiAnalysisProvider implements AnalysisProvider {
+    readonly name = AnalysisProviderType.GEMINI;
+    readonly model = GEMINI_MODEL;
+    readonly promptBudget = GEMINI_PROMPT_BUDGET;
+    private genAI = new GoogleGenerativeAI(process.env.GOOGLE_API_KEY || '');
+
+    async generate(request: AnalysisRequest, repairs: RepairTurn[]): Promise<ModelAnswer> {
+        const model = this.genAI.getGenerativeModel({
+            model: this.model,
+            systemInstruction: request.systemPrompt,
+            generationConfig: {
+                responseMimeType: 'application/json',
+                responseSchema: toGeminiSchema(request.format.schema),
+                maxOutputTokens: request.maxOutputTokens
+            }
+        });
+
+        const contents: Content[] = [
+            {
+                role: 'user',
+                parts: request.content.map(part => part.type === 'text'
+                    ? { text: part.text }
+                    : { inlineData: { data: part.data, mimeType: part.mimeType } })
+            },
+            ...repairs.flatMap(repair => [
+                { role: 'model', parts: [{ text: repair.raw }] },
+                { role: 'user', parts: [{ text: repair.feedback }] }
+            ])
+        ];
+
+        const result = await model.generateContent({ contents }, { signal: request.signal });
+        const truncated = result.response.candidates?.[0]?.finishReason === FinishReason.MAX_TOKENS;
+        const usage = result.response.usageMetadata;
+        return {
+            raw: result.response.text(),
+            truncated,
+            usage: usage ? { inputTokens: usage.promptTokenCount, outputTokens: usage.candidatesTokenCount } : undefined
+        };
+    }
+}
@@ -0,0 +1,75 @@
+import { OpenAIAnalysisProvider, OpenAICompatibleProvider } from './openai';
+import { AnthropicAnalysisProvider } from './anthropic';
+import { GeminiAnalysisProvider } from './gemini';
+import { AnalysisProvider } from './types';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+const providers = new Map<string, AnalysisProvider>();
+
+// Registry of all lesson generation providers
+export class AnalysisManager {
+    /**
+     * Registers a provider under its name, replacing any provider with the same name
+     */
+    static register(provider: AnalysisProvider): void {
+        providers.set(provider.name, provider);
+    }
+
+    /**
+     * Returns the provider registered under the name
+     * @throws Error if no such provider is registered
+     */
+    static getProvider(name: string): AnalysisProvider {
+        const provider = providers.get(name);
+        if (!provider) {
+            throw new Error(`Unknown analysis provider "${name}". Available: ${AnalysisManager.getProviderNames().join(', ')}`);
+        }
+        return provider;
+    }
+
+    static getProviderNames(): string[] {
+        return Array.from(providers.keys());
+    }
+}
+
+// Built-in providers
+AnalysisManager.register(new OpenAIAnalysisProvider());
+AnalysisManager.register(new AnthropicAnalysisProvider());
+AnalysisManager.register(new GeminiAnalysisProvider());
+
+// The OpenAI-compatible endpoint is only available when it is configured
+const openAICompatibleProvider = OpenAICompatibleProvider.fromEnv();
+if (openAICompatibleProvider) {
+    AnalysisManager.register(openAICompatibleProvider);
+}
+
+export { AnalysisProvider, AnalysisProviderType, AnalysisRequest, AnswerFormat, ModelAnswer, PromptBudget, PromptPart, RepairTurn, TokenUsage } from './types';
+export {
+    LESSON_SYSTEM_PROMPT,
+    SECTION_SYSTEM_PROMPT,
+    LESSON_FORMAT,
+    SECTION_CARDS_FORMAT,
+    buildUserPrompt,
+    buildFramesIntro,
+    buildSectionTask,
+    buildReducePrompt,
+    buildRepairPrompt,
+    buildSectionRepairPrompt,
+    formatTranscript
+} from './prompts';
+export { splitTopicalSections } from './sections';
+export { buildMultimodalPrompt, rankFrames, estimateTextTokens, getTextOnlyContent } from './multimodal';
+export {
+    OPENAI_PROMPT_BUDGET,
+    ANTHROPIC_PROMPT_BUDGET,
+    GEMINI_PROMPT_BUDGET,
+    DEFAULT_PROMPT_BUDGET,
+    openAIImageTokens,
+    anthropicImageTokens,
+    geminiImageTokens
+} from './budgets';
+export { OpenAIAnalysisProvider, OpenAICompatibleProvider, OpenAIProviderOptions, OpenAIResponseFormat, OPENAI_MODEL } from './openai';
+export { AnthropicAnalysisProvider, ANTHROPIC_MODEL } from './anthropic';
+export { GeminiAnalysisProvider, GEMINI_MODEL } from './gemini';
@@ -0,0 +1,179 @@
+import sharp from 'sharp';
+import { Timestamp } from '../utils';
+import { Keyframe } from '../frames';
+import { buildFramesIntro, formatTranscript } from './prompts';
+import { PromptBudget, PromptPart } from './types';
+
+// A frame re-encoded for a prompt
+interface PreparedImage {
+    frame: Keyframe;
+    data: Buffer;
+    tokens: number;
+}
+
+// Rough token count of text: about four characters per token for English and JSON
+export function estimateTextTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+}
+
+// The user message as one string, or null when it carries images
+export function getTextOnlyContent(content: PromptPart[]): string | null {
+    if (content.some(part => part.type === 'image')) {
+        return null;
+    }
+    return content.map(part => (part.type === 'text' ? part.text : '')).join('\n');
+}
+
+function countWords(segment: Timestamp): number {
+    return segment.text.split(/\s+/).filter(word => word.length > 0).length;
+}
+
+// Cuts the transcript into at most `count` runs of consecutive segments with about the same number of words
+function splitSections(timestamps: Timestamp[], count: number): Timestamp[][] {
+    // Segments without words still move the cut forward
+    const words = timestamps.map(segment => Math.max(1, countWords(segment)));
+    const total = words.reduce((sum, value) => sum + value, 0);
+    const sections: Timestamp[][] = [];
+    let current: Timestamp[] = [];
+    let seen = 0;
+    timestamps.forEach((segment, i) => {
+        current.push(segment);
+        seen += words[i];
+        if (sections.length < count - 1 && seen >= (total * (sections.length + 1)) / count) {
+            sections.push(current);
+            current = [];
+        }
+    });
+    if (current.length > 0) {
+        sections.push(current);
+    }
+    return sections;
+}
+
+/**
+ * Picks up to `count` frames, most relevant first. The transcript is cut into `count` sections,
+ * and each section takes the frame that is on screen longest while it is spoken
+ * (a frame stays on screen until the next one). A frame taken by an earlier section is not taken twice.
+ */
+export function rankFrames(timestamps: Timestamp[], frames: Keyframe[], count: number): Keyframe[] {
+    const sorted = [...frames].sort((a, b) => a.timestamp - b.timestamp);
+    if (count <= 0 || sorted.length === 0) {
+        return [];
+    }
+    // Without a transcript the frames are only spread over the video
+    if (timestamps.length === 0) {
+        const step = sorted.length / Math.min(count, sorted.length);
+        return Array.from({ length: Math.min(count, sorted.length) }, (_, i) => sorted[Math.floor(i * step)]);
+    }
+
+    const screenTime = (i: number, start: number, end: number) => {
+        const hidden = i + 1 < sorted.length ? sorted[i + 1].timestamp : Infinity;
+        return Math.max(0, Math.min(end, hidden) - Math.max(start, sorted[i].timestamp));
+    };
+
+    const taken = new Set<number>();
+    const picks: { index: number; relevance: number }[] = [];
+    for (const section of splitSections(timestamps, count)) {
+        const start = section[0].start;
+        const end = section[section.length - 1].end;
+        const candidates = sorted
+            .map((_, index) => ({ index, relevance: screenTime(index, start, end) }))
+            .filter(candidate => candidate.relevance > 0 && !taken.has(candidate.index))
+            .sort((a, b) => b.relevance - a.relevance || a.index - b.index);
+
+        if (candidates.length > 0) {
+            taken.add(candidates[0].index);
+            picks.push(candidates[0]);
+            continue;
+        }
+        // A section without duration gets the frame on screen when it starts
+        const visible = sorted.reduce((found, frame, index) => (frame.timestamp <= start ? index : found), 0);
+        if (end <= start && !taken.has(visible)) {
+            taken.add(visible);
+            picks.push({ index: visible, relevance: 0 });
+        }
+    }
+
+    // Slots left by sections that share a frame go to the other frames, by their screen time during speech
+    const rest = sorted
+        .map((_, index) => ({
+            index,
+            relevance: timestamps.reduce((sum, segment) => sum + screenTime(index, segment.start, segment.end), 0)
+        }))
+        .filter(candidate => !taken.has(candidate.index))
+        .sort((a, b) => b.relevance - a.relevance || a.index - b.index);
+
+    return [...picks.sort((a, b) => b.relevance - a.relevance || a.index - b.index), ...rest]
+        .slice(0, count)
+        .map(pick => sorted[pick.index]);
+}
+
+// Downscales the frame to fit maxDimension and recompresses it
+async function prepareImage(frame: Keyframe, budget: PromptBudget): Promise<PreparedImage> {
+    const { data, info } = await sharp(frame.path)
+        .resize(budget.maxDimension, budget.maxDimension, { fit: 'inside', withoutEnlargement: true })
+        .jpeg({ quality: budget.jpegQuality })
+        .toBuffer({ resolveWithObject: true });
+    return { frame, data, tokens: budget.imageTokens(info.width, info.height) };
+}
+
+// Label before each image, so the model can refer to the frame by its time
+function frameLabel(timestamp: number): string {
+    return `[Frame at ${timestamp.toFixed(1)}s]`;
+}
+
+/**
+ * Builds the user message with frames inside the transcript. The most relevant frames are added
+ * while the image count, the image bytes and the estimated tokens stay within the budget;
+ * the transcript itself is always sent in full.
+ * Each frame goes before the first segment whose middle comes after the frame appears.
+ */
+export async function buildMultimodalPrompt(timestamps: Timestamp[], frames: Keyframe[], budget: PromptBudget, task?: string): Promise<PromptPart[]> {
+    const intro = buildFramesIntro(timestamps, task);
+    let tokens = estimateTextTokens(intro) + estimateTextTokens(formatTranscript(timestamps));
+    let bytes = 0;
+
+    const images: PreparedImage[] = [];
+    for (const frame of rankFrames(timestamps, frames, Math.min(budget.maxImages, frames.length))) {
+        if (tokens >= budget.maxTokens) {
+            break;
+        }
+        const image = await prepareImage(frame, budget);
+        const imageTokens = image.tokens + estimateTextTokens(frameLabel(frame.timestamp));
+        if (bytes + image.data.length > budget.maxImageBytes || tokens + imageTokens > budget.maxTokens) {
+            continue;
+        }
+        images.push(image);
+        bytes += image.data.length;
+        tokens += imageTokens;
+    }
+    images.sort((a, b) => a.frame.timestamp - b.frame.timestamp);
+    console.log(`Sending ${images.length} of ${frames.length} frames (~${tokens} tokens, ${(bytes / 1024 / 1024).toFixed(1)} MB of images)`);
+
+    const parts: PromptPart[] = [{ type: 'text', text: intro }];
+    let pending: Timestamp[] = [];
+    let next = 0;
+    const flush = () => {
+        if (pending.length > 0) {
+            parts.push({ type: 'text', text: formatTranscript(pending) });
+            pending = [];
+        }
+    };
+    const pushImage = (image: PreparedImage) => {
+        flush();
+        parts.push(
+            { type: 'text', text: frameLabel(image.frame.timestamp) },
+            { type: 'image', mimeType: 'image/jpeg', data: image.data.toString('base64'), timestamp: image.frame.timestamp }
+        );
+    };
+
+    for (const segment of timestamps) {
+        while (next < images.length && images[next].frame.timestamp <= (segment.start + segment.end) / 2) {
+            pushImage(images[next++]);
+        }
+        pending.push(segment);
+    }
+    flush();
+    images.slice(next).forEach(pushImage);
+    return parts;
+}
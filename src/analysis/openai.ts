@@ -0,0 +1,149 @@
+import OpenAI from 'openai';
+import { toOpenAISchema } from '../lesson';
+import { getTextOnlyContent } from './multimodal';
+import { DEFAULT_PROMPT_BUDGET, OPENAI_PROMPT_BUDGET } from './budgets';
+import { AnalysisProvider, AnalysisProviderType, AnalysisRequest, AnswerFormat, ModelAnswer, PromptBudget, PromptPart, RepairTurn } from './types';
+
+export const OPENAI_MODEL = "gpt-4o-2024-11-20";
+
+// How the lesson structure is requested from the endpoint
+export type OpenAIResponseFormat = 'json_schema' | 'json_object' | 'none';
+
+export interface OpenAIProviderOptions {
+    name?: string;
+    model?: string;
+    apiKey?: string;
+    baseURL?: string;
+    responseFormat?: OpenAIResponseFormat;
+    promptBudget?: PromptBudget;
+}
+
+// Text parts and images as data URLs, or a plain string when there are no images
+function toOpenAIContent(content: PromptPart[]) {
+    return getTextOnlyContent(content) ?? content.map(part => part.type === 'text'
+        ? { type: "text", text: part.text }
+        : { type: "image_url", image_url: { url: `data:${part.mimeType};base64,${part.data}` } });
+}
+
+export class OpenAIAnalysisProvider implements AnalysisProvider {
+    readonly name: string;
+    readonly model: string;
+    readonly promptBudget: PromptBudget;
+    private client: OpenAI | null = null;
+    private apiKey?: string;
+    private baseURL?: string;
+    private responseFormat: OpenAIResponseFormat;
+
+    constructor(options: OpenAIProviderOptions = {}) {
+        this.name = options.name || AnalysisProviderType.OPENAI;
+        this.model = options.model || OPENAI_MODEL;
+        this.responseFormat = options.responseFormat || 'json_schema';
+        this.promptBudget = options.promptBudget || OPENAI_PROMPT_BUDGET;
+        this.apiKey = options.apiKey;
+        this.baseURL = options.baseURL;
+    }
+
+    // Created on first use: the SDK throws without an API key, even if this provider is never selected
+    private getClient(): OpenAI {
+        if (!this.client) {
+            this.client = new OpenAI({
+                apiKey: this.apiKey ?? process.env.OPENAI_API_KEY,
+                baseURL: this.baseURL,
+                // Retries follow the policy of AIService, not the SDK's own
+                maxRetries: 0
+            });
+        }
+        return this.client;
+    }
+
+    async generate(request: AnalysisRequest, repairs: RepairTurn[]): Promise<ModelAnswer> {
+        const messages = [
+            { role: "system", content: this.buildSystemPrompt(request) },
+            { role: "user", content: toOpenAIContent(request.content) },
+            ...repairs.flatMap(repair => [
+                { role: "assistant", content: repair.raw },
+                { role: "user", content: repair.feedback }
+            ])
+        ];
+
+        const completion = await this.getClient().chat.completions.create({
+            model: this.model,
+            messages: messages as any,
+            max_tokens: request.maxOutputTokens,
+            ...this.buildResponseFormat(request.format)
+        }, { signal: request.signal });
+
+        const choice = completion.choices[0];
+        return {
+            raw: choice.message.content || '',
+            truncated: choice.finish_reason === 'length',
+            usage: completion.usage ? { inputTokens: completion.usage.prompt_tokens, outputTokens: completion.usage.completion_tokens } : undefined
+        };
+    }
+
+    // Without a native schema the model only learns the structure from the prompt
+    private buildSystemPrompt(request: AnalysisRequest): string {
+        if (this.responseFormat === 'json_schema') {
+            return request.systemPrompt;
+        }
+        return `${request.systemPrompt}\n\nThe JSON must match this schema:\n${JSON.stringify(request.format.schema)}`;
+    }
+
+    private buildResponseFormat(format: AnswerFormat): Pick<OpenAI.ChatCompletionCreateParamsNonStreaming, 'response_format'> {
+        switch (this.responseFormat) {
+            case 'json_schema':
+                return {
+                    response_format: {
+                        type: "json_schema",
+                        json_schema: {
+                            name: format.name,
+                            strict: true,
+                            schema: toOpenAISchema(format.schema)
+                        }
+                    }
+                };
+            case 'json_object':
+                return { response_format: { type: "json_object" } };
+            case 'none':
+            default:
+                return {};
+        }
+    }
+}
+
+/**
+ * Any server that speaks the OpenAI chat completions API (llama.cpp, Ollama, vLLM...).
+ * Content stays on that server, so it can be used when nothing may go to a cloud vendor.
+ */
+export class OpenAICompatibleProvider extends OpenAIAnalysisProvider {
+    constructor(options: OpenAIProviderOptions & { baseURL: string; model: string }) {
+        super({
+            ...options,
+            name: options.name || AnalysisProviderType.OPENAI_COMPATIBLE,
+            promptBudget: options.promptBudget || DEFAULT_PROMPT_BUDGET,
+            // Local servers usually ignore the key, but the client requires one
+            apiKey: options.apiKey || 'not-needed'
+        });
+    }
+
+    /**
+     * Builds the provider from OPENAI_COMPATIBLE_* variables, or returns null when no endpoint is configured
+     */
+    static fromEnv(): OpenAICompatibleProvider | null {
+        const baseURL = process.env.OPENAI_COMPATIBLE_BASE_URL;
+        const model = process.env.OPENAI_COMPATIBLE_MODEL;
+        if (!baseURL || !model) {
+            return null;
+        }
+        // Many local vision models read a single image per request
+        const maxImages = parseInt(process.env.OPENAI_COMPATIBLE_MAX_IMAGES || '', 10);
+        return new OpenAICompatibleProvider({
+            baseURL,
+            model,
+            name: process.env.OPENAI_COMPATIBLE_NAME,
+            apiKey: process.env.OPENAI_COMPATIBLE_API_KEY,
+            responseFormat: process.env.OPENAI_COMPATIBLE_RESPONSE_FORMAT as OpenAIResponseFormat | undefined,
+            promptBudget: maxImages >= 0 ? { ...DEFAULT_PROMPT_BUDGET, maxImages } : undefined
+        });
+    }
+}
@@ -0,0 +1,117 @@
+import { Timestamp } from '../utils';
+import { LESSON_JSON_SCHEMA, LESSON_LIMITS, LessonSection, SECTION_CARDS_JSON_SCHEMA, SECTION_CARD_LIMITS } from '../lesson';
+import { AnswerFormat } from './types';
+
+// System prompt
+export const LESSON_SYSTEM_PROMPT = `You need to create a lesson from the content that the user sends you.
+The lesson must be generated in the SAME LANGUAGE as the transcription content (do not translate, use the original language).
+The lesson should contain the following:
+1) ${LESSON_LIMITS.memoryCards.min}-${LESSON_LIMITS.memoryCards.max} memory cards (each description must be between ${LESSON_LIMITS.memoryCardDescription.min} to ${LESSON_LIMITS.memoryCardDescription.max} characters)
+2) ${LESSON_LIMITS.quizCards.min}-${LESSON_LIMITS.quizCards.max} quiz cards with varied questions
+3) 1 Open-Ended Question Card
+4) The lesson must have a title and description, which you must fill out in lessonInfo section and must reflect the overall essence of our lesson
+
+Your answer must be structured exactly in JSON format. Do not include any additional text or formatting.`;
+
+// System prompt of the map pass over one section of a long video
+export const SECTION_SYSTEM_PROMPT = `You receive one section of the transcription of a long video. Propose cards for a lesson about the whole video; a later step picks the final cards from all sections.
+The cards must be written in the SAME LANGUAGE as the transcription content (do not translate, use the original language).
+Your answer should contain the following:
+1) A summary of what this section covers, in one or two sentences
+2) Up to ${SECTION_CARD_LIMITS.memoryCards.max} memory cards for the key concepts of this section (each description must be between ${SECTION_CARD_LIMITS.memoryCardDescription.min} to ${SECTION_CARD_LIMITS.memoryCardDescription.max} characters)
+3) Up to ${SECTION_CARD_LIMITS.quizCards.max} quiz cards
+4) At most ${SECTION_CARD_LIMITS.openEndedCards.max} Open-Ended Question Card
+Only propose cards for content that matters; a section of small talk may have none.
+
+Your answer must be structured exactly in JSON format. Do not include any additional text or formatting.`;
+
+export const LESSON_FORMAT: AnswerFormat = {
+    name: 'lesson',
+    description: 'Save the generated lesson',
+    schema: LESSON_JSON_SCHEMA
+};
+
+export const SECTION_CARDS_FORMAT: AnswerFormat = {
+    name: 'section_cards',
+    description: 'Save the cards proposed for this section',
+    schema: SECTION_CARDS_JSON_SCHEMA
+};
+
+const LESSON_TASK = 'Create a lesson based on this video content';
+
+// One line per speaker turn: consecutive segments of the same speaker are merged
+function formatSpeakerTurns(timestamps: Timestamp[]): string {
+    const turns: Timestamp[] = [];
+    for (const segment of timestamps) {
+        const last = turns[turns.length - 1];
+        if (last && last.speaker === segment.speaker) {
+            last.end = segment.end;
+            last.text = `${last.text} ${segment.text.trim()}`;
+        } else {
+            turns.push({ ...segment, text: segment.text.trim() });
+        }
+    }
+    return turns
+        .map(turn => `[${turn.start.toFixed(1)}s-${turn.end.toFixed(1)}s] Speaker ${turn.speaker ?? 'unknown'}: ${turn.text}`)
+        .join('\n');
+}
+
+const SPEAKERS_NOTE = 'Several people speak in it. Each line of the transcription is one speaker turn; when a statement, opinion or answer matters for the lesson, attribute it to its speaker.';
+
+function isDiarized(timestamps: Timestamp[]): boolean {
+    return timestamps.some(segment => segment.speaker !== undefined);
+}
+
+// Transcript as the models read it: speaker turns when diarized, the segments as JSON otherwise
+export function formatTranscript(timestamps: Timestamp[]): string {
+    return isDiarized(timestamps) ? formatSpeakerTurns(timestamps) : JSON.stringify(timestamps);
+}
+
+export function buildUserPrompt(timestamps: Timestamp[], task: string = LESSON_TASK): string {
+    // Diarized transcripts are sent as speaker turns so the lesson can attribute statements
+    if (isDiarized(timestamps)) {
+        return `${task}.
+${SPEAKERS_NOTE}
+Transcription:
+${formatSpeakerTurns(timestamps)}`;
+    }
+    return `${task}:\nTranscription: ${JSON.stringify(timestamps)}`;
+}
+
+// Opening of a prompt whose transcript is split by the frames; the transcript pieces follow it
+export function buildFramesIntro(timestamps: Timestamp[], task: string = LESSON_TASK): string {
+    return `${task}.${isDiarized(timestamps) ? `\n${SPEAKERS_NOTE}` : ''}
+Frames of the video are placed in the transcription at the time they appear, and each stays on screen until the next one. Use them for what is shown but not said, such as slides, code and diagrams.
+Transcription:`;
+}
+
+// Task of the map pass, in place of LESSON_TASK
+export function buildSectionTask(section: LessonSection, index: number, count: number): string {
+    return `Propose lesson cards for section ${index + 1} of ${count} of this video (${section.start.toFixed(1)}s-${section.end.toFixed(1)}s)`;
+}
+
+// Reduce pass: the final lesson is picked from the cards proposed for every section
+export function buildReducePrompt(sections: LessonSection[]): string {
+    const proposals = sections
+        .map((section, i) => ({ section: i + 1, start: section.start, end: section.end, ...section.cards }))
+        .filter(section => section.summary !== undefined);
+    return `${LESSON_TASK}. The video is long, so cards were proposed for each of its ${sections.length} sections in order.
+Build one lesson for the whole video from them:
+- merge cards about the same concept and drop repeated questions
+- cover all sections in balance instead of taking most cards from the first ones
+- pick the most important and instructive cards within the limits; a card may be rewritten to fit them
+- write the title and description for the whole video
+Sections:
+${JSON.stringify(proposals)}`;
+}
+
+export function buildRepairPrompt(errors: string[]): string {
+    return `Your previous answer is not a valid lesson. Fix the following problems and answer again with the complete lesson JSON only:
+${errors.map(error => `- ${error}`).join('\n')}`;
+}
+
+// The section stage answers with a summary and proposed cards, not a lesson
+export function buildSectionRepairPrompt(errors: string[]): string {
+    return `Your previous answer is not a valid set of cards for this section. Fix the following problems and answer again with the complete section JSON only (the summary and the proposed cards):
+${errors.map(error => `- ${error}`).join('\n')}`;
+}
@@ -0,0 +1,107 @@
+import { Timestamp } from '../utils';
+import { normalizeWord } from '../transcription';
+import { formatTranscript } from './prompts';
+import { estimateTextTokens } from './multimodal';
+
+// Words on each side of a possible cut that are compared
+const WINDOW_WORDS = 120;
+// Short words are mostly function words in any language and say little about the topic
+const MIN_TOPIC_WORD_LENGTH = 4;
+// A pause this long adds the most to a cut's score
+const FULL_PAUSE = 2;
+const PAUSE_WEIGHT = 0.3;
+// Sections end between these shares of the target size
+const MIN_SECTION_SHARE = 0.6;
+const MAX_SECTION_SHARE = 1.4;
+
+function topicWords(segment: Timestamp): string[] {
+    return segment.text
+        .split(/\s+/)
+        .map(normalizeWord)
+        .filter(word => word.length >= MIN_TOPIC_WORD_LENGTH);
+}
+
+function countWords(words: string[][]): Map<string, number> {
+    const counts = new Map<string, number>();
+    words.forEach(list => list.forEach(word => counts.set(word, (counts.get(word) || 0) + 1)));
+    return counts;
+}
+
+function cosine(a: Map<string, number>, b: Map<string, number>): number {
+    let dot = 0;
+    a.forEach((count, word) => {
+        dot += count * (b.get(word) || 0);
+    });
+    const norm = (counts: Map<string, number>) => Math.sqrt(Array.from(counts.values()).reduce((sum, count) => sum + count * count, 0));
+    const denominator = norm(a) * norm(b);
+    return denominator > 0 ? dot / denominator : 0;
+}
+
+/**
+ * How likely the topic changes before segment i (0-1 and more): vocabulary shared by the words
+ * before and after it (as in TextTiling), plus a bonus for a pause
+ */
+function scoreCuts(timestamps: Timestamp[]): number[] {
+    const words = timestamps.map(topicWords);
+    const window = (from: number, step: number) => {
+        const collected: string[][] = [];
+        let total = 0;
+        for (let i = from; i >= 0 && i < words.length && total < WINDOW_WORDS; i += step) {
+            collected.push(words[i]);
+            total += words[i].length;
+        }
+        return countWords(collected);
+    };
+
+    return timestamps.map((segment, i) => {
+        if (i === 0) {
+            return 0;
+        }
+        const pause = Math.max(0, segment.start - timestamps[i - 1].end);
+        return 1 - cosine(window(i - 1, -1), window(i, 1)) + PAUSE_WEIGHT * Math.min(1, pause / FULL_PAUSE);
+    });
+}
+
+/**
+ * Splits a transcript into sections of at most maxTokens (estimated), cutting where the topic changes.
+ * Sections get about the same size; within that range the cut goes where the vocabulary changes most.
+ * A transcript that fits stays one section.
+ */
+export function splitTopicalSections(timestamps: Timestamp[], maxTokens: number): Timestamp[][] {
+    const tokens = timestamps.map(segment => estimateTextTokens(formatTranscript([segment])));
+    const total = tokens.reduce((sum, value) => sum + value, 0);
+    if (total <= maxTokens) {
+        return timestamps.length > 0 ? [timestamps] : [];
+    }
+
+    const scores = scoreCuts(timestamps);
+    const sections: Timestamp[][] = [];
+    let start = 0;
+    while (start < timestamps.length) {
+        const remaining = tokens.slice(start).reduce((sum, value) => sum + value, 0);
+        if (remaining <= maxTokens) {
+            sections.push(timestamps.slice(start));
+            break;
+        }
+        // Sized for the sections still to come, so the last one is not a small remainder
+        const target = remaining / Math.ceil(remaining / maxTokens);
+
+        let size = 0;
+        let best = -1;
+        let i = start;
+        for (; i < timestamps.length; i++) {
+            if (i > start && size >= MIN_SECTION_SHARE * target && (best < 0 || scores[i] > scores[best])) {
+                best = i;
+            }
+            if (size + tokens[i] > maxTokens || size >= MAX_SECTION_SHARE * target) {
+                break;
+            }
+            size += tokens[i];
+        }
+        // A single segment larger than maxTokens still makes progress
+        const cut = best >= 0 ? best : Math.max(start + 1, i);
+        sections.push(timestamps.slice(start, cut));
+        start = cut;
+    }
+    return sections;
+}
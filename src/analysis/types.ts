@@ -0,0 +1,80 @@
+import { Timestamp } from '../utils';
+import { JsonSchema } from '../lesson';
+
+// Built-in providers; custom providers can be registered under any other name
+export enum AnalysisProviderType {
+    OPENAI = 'openai',
+    ANTHROPIC = 'anthropic',
+    GEMINI = 'gemini',
+    OPENAI_COMPATIBLE = 'openai-compatible'
+}
+
+// Piece of the user message: transcript text, or a frame placed at its time in the transcript
+export type PromptPart =
+    | { type: 'text'; text: string }
+    | { type: 'image'; mimeType: 'image/jpeg'; data: string; timestamp: number };
+
+/**
+ * What one request to a provider may carry. Images are downscaled to maxDimension,
+ * and frames are left out until the count, the bytes and the estimated tokens fit.
+ */
+export interface PromptBudget {
+    maxImages: number;
+    // Total size of the encoded images, before base64 adds a third
+    maxImageBytes: number;
+    // Estimated tokens of the whole user message, transcript included
+    maxTokens: number;
+    // Longest side of a sent image in pixels
+    maxDimension: number;
+    jpegQuality: number;
+    // How the provider counts the tokens of an image of this size
+    imageTokens(width: number, height: number): number;
+}
+
+// Structure the answer must follow: a whole lesson, or the cards of one section of a long video
+export interface AnswerFormat {
+    // Schema name for OpenAI, and the tool is save_<name> for Anthropic
+    name: string;
+    description: string;
+    schema: JsonSchema;
+}
+
+export interface AnalysisRequest {
+    timestamps: Timestamp[];
+    // The user message; a single text part unless frames are sent
+    content: PromptPart[];
+    systemPrompt: string;
+    format: AnswerFormat;
+    maxOutputTokens: number;
+    // Cancels the request; set by the retry policy of AIService
+    signal?: AbortSignal;
+}
+
+// Tokens of one request, as reported by the provider
+export interface TokenUsage {
+    inputTokens: number;
+    outputTokens: number;
+}
+
+// Raw answer of a model; toolCallId is set when the answer came through a tool call
+export interface ModelAnswer {
+    raw: string;
+    toolCallId?: string;
+    // The model stopped at maxOutputTokens, so the answer is incomplete
+    truncated?: boolean;
+    usage?: TokenUsage;
+}
+
+// A rejected answer and the correction sent back to the model
+export interface RepairTurn extends ModelAnswer {
+    feedback: string;
+}
+
+export interface AnalysisProvider {
+    // Used in output file names, e.g. analysis_<name>_transcribed_by_<service>.json
+    readonly name: string;
+    readonly model: string;
+    // Limits for prompts with frames (default: DEFAULT_PROMPT_BUDGET)
+    readonly promptBudget?: PromptBudget;
+    generate(request: AnalysisRequest, repairs: RepairTurn[]): Promise<ModelAnswer>;
+}
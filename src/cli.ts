@@ -0,0 +1,436 @@
+import * as path from 'path';
+import { parseArgs } from 'util';
+import { TranscriptionServiceType, SegmenterOptions, ChunkingOptions, parseSegmentationSpec } from './transcription';
+import { AnalysisManager } from './analysis';
+import { STEP_NAMES } from './runState';
+import { KeyframeOptions } from './frames';
+import { ProviderLimits } from './scheduler';
+import { SUBTITLE_FORMATS, SIDECAR_SUBTITLE_FORMATS, SubtitleFormat } from './subtitles';
+import { DEFAULT_SERVER_OPTIONS } from './server';
+
+export type CliCommand = 'transcribe' | 'analyze' | 'run' | 'export' | 'cache' | 'diff' | 'serve';
+
+export const CLI_COMMANDS: CliCommand[] = ['transcribe', 'analyze', 'run', 'export', 'cache', 'diff', 'serve'];
+
+export type CacheAction = 'list' | 'inspect' | 'prune';
+
+export const CACHE_ACTIONS: CacheAction[] = ['list', 'inspect', 'prune'];
+
+export interface CliOptions {
+    command: CliCommand;
+    // Media files or folders to process
+    inputs: string[];
+    outputDir: string;
+    exportDir: string;
+    transcribers: TranscriptionServiceType[];
+    analyzers: string[];
+    includeImages: boolean;
+    // Frame limit and scene threshold for --images; unset values keep the defaults
+    keyframes: Partial<KeyframeOptions>;
+    // How many steps (transcriptions, analyses, ...) run at the same time across all videos
+    concurrency: number;
+    // Per-provider overrides of the default rate limits
+    providerLimits: { [provider: string]: Partial<ProviderLimits> };
+    // Minutes after which the run is cancelled; unset for no limit
+    timeout?: number;
+    // USD after which no new paid request starts; unset for no limit
+    maxCost?: number;
+    // Print the predicted cost and exit without sending anything
+    estimate: boolean;
+    // JSON price table laid over the default prices
+    prices?: string;
+    // Recompute every step instead of resuming
+    force: boolean;
+    // Steps to recompute, e.g. "transcription:gemini" or "analysis"
+    redo: string[];
+    useCache: boolean;
+    // Ask the transcribers that support it (amazon, assemblyai, gemini) to label speakers
+    diarize: boolean;
+    // Expected number of speakers; implies diarize
+    speakers?: number;
+    // Segmentation rules; unset means the defaults
+    segmentation?: SegmenterOptions;
+    // Chunk length and parallel chunks for long audio; unset values keep the defaults
+    chunking: Partial<ChunkingOptions>;
+    // Vote a consensus transcript from all transcribers and analyze it like another transcription
+    consensus: boolean;
+    // Subtitle files written next to each transcription; empty for none
+    subtitleFormats: SubtitleFormat[];
+    // Explicit .srt/.vtt captions for the single input video
+    captions?: string;
+    // Pick up <video>.srt / <video>.vtt next to each video as the "human" transcription
+    useSidecar: boolean;
+    // Only set for the cache command
+    cache?: {
+        action: CacheAction;
+        key?: string;
+        // Filter for list and prune; unset means all services
+        services?: string[];
+        olderThanDays?: number;
+    };
+    // Only set for the diff command: manifest files, video output folders or run folders
+    diff?: {
+        before: string;
+        after: string;
+    };
+    // Only set for the serve command
+    serve?: {
+        port: number;
+        host: string;
+    };
+}
+
+// Thrown for invalid command lines; main prints the message together with a hint to use --help
+export class CliError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'CliError';
+    }
+}
+
+export const HELP_TEXT = `Usage: npm start -- <command> [inputs...] [options]
+
+Commands:
+  transcribe   Extract audio and transcribe it with every selected transcriber
+  analyze      Generate lessons from transcriptions already in the output directory
+  run          Transcribe and then analyze (the full matrix)
+  export       Collect the transcriptions and lessons of each video into one file
+  cache list               List cached transcriptions
+  cache inspect <key>      Show a cached transcription (a unique key prefix is enough)
+  cache prune              Remove cached transcriptions (all, or filtered by --older-than / --transcribers)
+  diff <before> <after>    Show what differs between two manifests (files, video output folders or run folders)
+  serve                    Start the HTTP API: upload media, queue jobs and download their results
+
+Inputs:
+  Media files or folders (default: ./video). Folders are scanned for supported formats.
+
+Options:
+  -o, --output <dir>          Output directory (default: ./output)
+      --export-dir <dir>      Where export writes its files (default: <output>/export)
+  -t, --transcribers <list>   Comma-separated transcribers, or "none" to use captions only (default: openai,gemini)
+                              Available: ${Object.values(TranscriptionServiceType).join(', ')}
+      --captions <file>       .srt or .vtt captions of the (single) input video, used as the "human" transcription
+      --no-sidecar            Ignore <video>.srt / <video>.vtt files next to the videos
+  -a, --analyzers <list>      Comma-separated analysis providers (default: all registered)
+      --images                Extract frames and send them to the analyzers
+      --no-images             Audio only, no frames (default)
+      --max-frames <n>        Most keyframes sent to the analyzers (default: 40)
+      --scene-threshold <x>   Scene change score from 0 to 1 that starts a new keyframe (default: 0.3)
+  -c, --concurrency <n>       Steps run at once across all videos, and videos started at once (default: 4)
+      --rpm <list>            Requests per minute per provider, e.g. anthropic=20,openai=100 (0 for no limit)
+      --in-flight <list>      Requests waiting for an answer at once per provider, e.g. gemini=2 (0 for no limit)
+      --timeout <minutes>     Cancel the run after this many minutes; completed steps are kept for the next run
+      --max-cost <usd>        Start no new paid request once the run has spent this much, e.g. 2.50
+      --estimate              Print the predicted cost of the command and exit without sending anything
+      --prices <file>         JSON file with model and transcription prices that replace the defaults
+      --force                 Ignore earlier results and recompute every step
+      --redo <step>           Recompute a step even if it is complete; repeatable or comma-separated
+                              Steps: audio, frames, transcription[:<service>], comparison, analysis[:<provider>[:<service>]]
+      --no-cache              Do not read or write the transcription cache
+      --diarize               Label speakers (amazon, assemblyai, gemini) and send the transcript per speaker
+      --speakers <n>          Expected number of speakers; implies --diarize
+      --segmentation <spec>   How transcripts are cut into segments (default: all strategies)
+                              e.g. sentence,speaker,max-duration=8,max-characters=100,pause=0.7
+      --chunk-duration <s>    Transcribe audio in chunks of at most this many seconds (default: only when
+                              the audio exceeds the transcriber's upload limit)
+      --chunk-concurrency <n> Chunks transcribed in parallel (default: 1)
+      --consensus             Build a consensus transcript by word-level voting between the transcribers,
+                              saved and analyzed as the "consensus" transcription
+      --subtitles <list>      Subtitle formats written per transcription, or "none" (default: srt,vtt,ttml)
+      --older-than <days>     cache prune: only remove entries older than this
+      --port <n>              serve: port to listen on (default: 8080)
+      --host <address>        serve: address to listen on (default: 127.0.0.1, this machine only)
+  -h, --help                  Show this help
+
+Examples:
+  npm start -- transcribe ./video/lecture.mp4 --transcribers openai,gemini
+  npm start -- run ./video --analyzers anthropic --images
+  npm start -- analyze ./video -o ./results --analyzers openai,gemini
+  npm start -- run ./video --redo transcription:gemini --redo analysis:anthropic
+  npm start -- serve --port 8080 --max-cost 5`;
+
+function parseList(value: string | undefined): string[] | undefined {
+    if (value === undefined) {
+        return undefined;
+    }
+    const items = value.split(',').map(item => item.trim()).filter(item => item.length > 0);
+    if (items.length === 0) {
+        throw new CliError('Expected a comma-separated list, got an empty value');
+    }
+    return items;
+}
+
+// provider=n pairs of --rpm and --in-flight, merged into limits
+function parseProviderLimits(
+    value: string | undefined,
+    option: string,
+    field: keyof ProviderLimits,
+    limits: { [provider: string]: Partial<ProviderLimits> }
+): void {
+    for (const item of parseList(value) || []) {
+        const [provider, count] = item.split('=').map(part => part.trim());
+        const number = Number(count);
+        if (!provider || count === undefined || !Number.isInteger(number) || number < 0) {
+            throw new CliError(`${option} expects provider=n pairs with n >= 0, got "${item}"`);
+        }
+        limits[provider] = { ...limits[provider], [field]: number };
+    }
+}
+
+function parsePositiveInteger(value: string | undefined, option: string, defaultValue: number): number {
+    if (value === undefined) {
+        return defaultValue;
+    }
+    const number = Number(value);
+    if (!Number.isInteger(number) || number < 1) {
+        throw new CliError(`${option} must be a positive integer, got "${value}"`);
+    }
+    return number;
+}
+
+export function getDefaultTranscribers(): TranscriptionServiceType[] {
+    const transcribers = [
+        TranscriptionServiceType.OPENAI_WHISPER,
+        TranscriptionServiceType.GEMINI
+    ];
+
+    // The offline transcriber joins the matrix when a local model is configured
+    if (process.env.LOCAL_WHISPER_MODEL) {
+        transcribers.push(TranscriptionServiceType.LOCAL_WHISPER);
+    }
+    return transcribers;
+}
+
+/**
+ * Parses process arguments into CLI options.
+ * @returns null when help was requested
+ * @throws CliError for unknown commands, unknown options and invalid values
+ */
+export function parseCommandLineArgs(args: string[]): CliOptions | null {
+    let parsed;
+    try {
+        parsed = parseArgs({
+            args,
+            allowPositionals: true,
+            strict: true,
+            options: {
+                output: { type: 'string', short: 'o' },
+                'export-dir': { type: 'string' },
+                transcribers: { type: 'string', short: 't' },
+                analyzers: { type: 'string', short: 'a' },
+                images: { type: 'boolean' },
+                'no-images': { type: 'boolean' },
+                'max-frames': { type: 'string' },
+                'scene-threshold': { type: 'string' },
+                concurrency: { type: 'string', short: 'c' },
+                rpm: { type: 'string' },
+                'in-flight': { type: 'string' },
+                timeout: { type: 'string' },
+                'max-cost': { type: 'string' },
+                estimate: { type: 'boolean' },
+                prices: { type: 'string' },
+                force: { type: 'boolean' },
+                redo: { type: 'string', multiple: true },
+                'no-cache': { type: 'boolean' },
+                diarize: { type: 'boolean' },
+                speakers: { type: 'string' },
+                segmentation: { type: 'string' },
+                consensus: { type: 'boolean' },
+                'chunk-duration': { type: 'string' },
+                'chunk-concurrency': { type: 'string' },
+                'older-than': { type: 'string' },
+                subtitles: { type: 'string' },
+                captions: { type: 'string' },
+                'no-sidecar': { type: 'boolean' },
+                port: { type: 'string' },
+                host: { type: 'string' },
+                help: { type: 'boolean', short: 'h' }
+            }
+        });
+    } catch (error: any) {
+        throw new CliError(error.message);
+    }
+
+    const { values, positionals } = parsed;
+    if (values.help) {
+        return null;
+    }
+
+    let [command, ...inputs] = positionals;
+    if (!command) {
+        throw new CliError(`Missing command. Expected one of: ${CLI_COMMANDS.join(', ')}`);
+    }
+    if (!CLI_COMMANDS.includes(command as CliCommand)) {
+        throw new CliError(`Unknown command "${command}". Expected one of: ${CLI_COMMANDS.join(', ')}`);
+    }
+
+    let cache: CliOptions['cache'];
+    if (command === 'cache') {
+        const [action, key, ...rest] = inputs;
+        if (!CACHE_ACTIONS.includes(action as CacheAction)) {
+            throw new CliError(`Unknown cache action "${action || ''}". Expected one of: ${CACHE_ACTIONS.join(', ')}`);
+        }
+        if (action === 'inspect' && !key) {
+            throw new CliError('cache inspect needs a cache key');
+        }
+        if (rest.length > 0 || (action !== 'inspect' && key)) {
+            throw new CliError(`Unexpected arguments for cache ${action}: ${(action === 'inspect' ? rest : [key, ...rest]).join(' ')}`);
+        }
+        const olderThan = values['older-than'];
+        const olderThanDays = olderThan === undefined ? undefined : Number(olderThan);
+        if (olderThanDays !== undefined && (!Number.isFinite(olderThanDays) || olderThanDays < 0)) {
+            throw new CliError(`--older-than must be a number of days, got "${olderThan}"`);
+        }
+        cache = {
+            action: action as CacheAction,
+            key,
+            services: parseList(values.transcribers),
+            olderThanDays
+        };
+        inputs = [];
+    } else if (values['older-than'] !== undefined) {
+        throw new CliError('--older-than can only be used with cache prune');
+    }
+
+    let diff: CliOptions['diff'];
+    if (command === 'diff') {
+        if (inputs.length !== 2) {
+            throw new CliError(`diff needs two manifests, got ${inputs.length}`);
+        }
+        diff = { before: path.resolve(inputs[0]), after: path.resolve(inputs[1]) };
+        inputs = [];
+    }
+
+    let serve: CliOptions['serve'];
+    if (command === 'serve') {
+        if (inputs.length > 0) {
+            throw new CliError(`serve takes no inputs, got: ${inputs.join(' ')}`);
+        }
+        const port = values.port === undefined ? DEFAULT_SERVER_OPTIONS.port : Number(values.port);
+        if (!Number.isInteger(port) || port < 1 || port > 65535) {
+            throw new CliError(`--port must be a port number from 1 to 65535, got "${values.port}"`);
+        }
+        serve = { port, host: values.host || DEFAULT_SERVER_OPTIONS.host };
+    } else if (values.port !== undefined || values.host !== undefined) {
+        throw new CliError('--port and --host can only be used with serve');
+    }
+
+    if (values.images && values['no-images']) {
+        throw new CliError('--images and --no-images cannot be used together');
+    }
+
+    const transcriberList = parseList(values.transcribers);
+    const transcriberNames = transcriberList && transcriberList.length === 1 && transcriberList[0] === 'none' ? [] : transcriberList;
+    const validTranscribers = Object.values(TranscriptionServiceType) as string[];
+    const unknownTranscribers = (transcriberNames || []).filter(name => !validTranscribers.includes(name));
+    if (unknownTranscribers.length > 0) {
+        throw new CliError(`Unknown transcriber(s): ${unknownTranscribers.join(', ')}. Available: ${validTranscribers.join(', ')}`);
+    }
+
+    const analyzers = parseList(values.analyzers) || AnalysisManager.getProviderNames();
+    const validAnalyzers = AnalysisManager.getProviderNames();
+    const unknownAnalyzers = analyzers.filter(name => !validAnalyzers.includes(name));
+    if (unknownAnalyzers.length > 0) {
+        throw new CliError(`Unknown analyzer(s): ${unknownAnalyzers.join(', ')}. Available: ${validAnalyzers.join(', ')}`);
+    }
+
+    const redo = (values.redo || []).flatMap(value => parseList(value) || []);
+    const unknownSteps = redo.filter(step => !STEP_NAMES.includes(step.split(':')[0]));
+    if (unknownSteps.length > 0) {
+        throw new CliError(`Unknown step(s) for --redo: ${unknownSteps.join(', ')}. Steps: ${STEP_NAMES.join(', ')}`);
+    }
+
+    const subtitleNames = parseList(values.subtitles) || SUBTITLE_FORMATS;
+    const subtitleFormats = subtitleNames.length === 1 && subtitleNames[0] === 'none' ? [] : subtitleNames;
+    const unknownFormats = subtitleFormats.filter(name => !SUBTITLE_FORMATS.includes(name as SubtitleFormat));
+    if (unknownFormats.length > 0) {
+        throw new CliError(`Unknown subtitle format(s): ${unknownFormats.join(', ')}. Available: ${SUBTITLE_FORMATS.join(', ')}, none`);
+    }
+
+    const captions = values.captions === undefined ? undefined : path.resolve(values.captions);
+    if (captions !== undefined) {
+        if (inputs.length !== 1) {
+            throw new CliError('--captions needs exactly one input video');
+        }
+        if (!SIDECAR_SUBTITLE_FORMATS.includes(path.extname(captions).toLowerCase())) {
+            throw new CliError(`Unsupported captions format: ${captions}. Supported formats: ${SIDECAR_SUBTITLE_FORMATS.join(', ')}`);
+        }
+    }
+
+    let segmentation: SegmenterOptions | undefined;
+    if (values.segmentation !== undefined) {
+        try {
+            segmentation = parseSegmentationSpec(values.segmentation);
+        } catch (error: any) {
+            throw new CliError(`--segmentation: ${error.message}`);
+        }
+    }
+
+    const keyframes: Partial<KeyframeOptions> = {};
+    if (values['max-frames'] !== undefined) {
+        keyframes.maxFrames = parsePositiveInteger(values['max-frames'], '--max-frames', 1);
+    }
+    if (values['scene-threshold'] !== undefined) {
+        const threshold = Number(values['scene-threshold']);
+        if (!Number.isFinite(threshold) || threshold <= 0 || threshold >= 1) {
+            throw new CliError(`--scene-threshold must be a number between 0 and 1, got "${values['scene-threshold']}"`);
+        }
+        keyframes.sceneThreshold = threshold;
+    }
+
+    let maxCost: number | undefined;
+    if (values['max-cost'] !== undefined) {
+        maxCost = Number(values['max-cost']);
+        if (!Number.isFinite(maxCost) || maxCost <= 0) {
+            throw new CliError(`--max-cost must be a positive amount in USD, got "${values['max-cost']}"`);
+        }
+    }
+
+    const chunking: Partial<ChunkingOptions> = {};
+    if (values['chunk-duration'] !== undefined) {
+        chunking.maxDuration = parsePositiveInteger(values['chunk-duration'], '--chunk-duration', 0);
+        if (chunking.maxDuration < 30) {
+            throw new CliError(`--chunk-duration must be at least 30 seconds, got "${values['chunk-duration']}"`);
+        }
+    }
+    if (values['chunk-concurrency'] !== undefined) {
+        chunking.concurrency = parsePositiveInteger(values['chunk-concurrency'], '--chunk-concurrency', 1);
+    }
+
+    const providerLimits: { [provider: string]: Partial<ProviderLimits> } = {};
+    parseProviderLimits(values.rpm, '--rpm', 'requestsPerMinute', providerLimits);
+    parseProviderLimits(values['in-flight'], '--in-flight', 'maxInFlight', providerLimits);
+
+    const outputDir = path.resolve(values.output || 'output');
+
+    return {
+        command: command as CliCommand,
+        inputs: inputs.length > 0 ? inputs : [path.join(process.cwd(), 'video')],
+        outputDir,
+        exportDir: path.resolve(values['export-dir'] || path.join(outputDir, 'export')),
+        transcribers: (transcriberNames as TranscriptionServiceType[] | undefined) || getDefaultTranscribers(),
+        analyzers,
+        includeImages: !!values.images,
+        keyframes,
+        concurrency: parsePositiveInteger(values.concurrency, '--concurrency', 4),
+        providerLimits,
+        timeout: values.timeout === undefined ? undefined : parsePositiveInteger(values.timeout, '--timeout', 1),
+        maxCost,
+        estimate: !!values.estimate,
+        prices: values.prices === undefined ? undefined : path.resolve(values.prices),
+        force: !!values.force,
+        redo,
+        useCache: !values['no-cache'],
+        diarize: !!values.diarize || values.speakers !== undefined,
+        speakers: values.speakers === undefined ? undefined : parsePositiveInteger(values.speakers, '--speakers', 1),
+        segmentation,
+        chunking,
+        consensus: !!values.consensus,
+        subtitleFormats: subtitleFormats as SubtitleFormat[],
+        captions,
+        useSidecar: !values['no-sidecar'],
+        cache,
+        diff,
+        serve
+    };
+}
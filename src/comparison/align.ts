@@ -0,0 +1,196 @@
+import { Transcript, getSegmentWords, normalizeWord } from '../transcription';
+import { ComparedWord, WordErrors } from './types';
+
+export type AlignmentOperation = 'match' | 'substitution' | 'deletion' | 'insertion';
+
+export interface AlignmentStep {
+    operation: AlignmentOperation;
+    // Index into the reference sequence; null for insertions
+    reference: number | null;
+    // Index into the hypothesis sequence; null for deletions
+    hypothesis: number | null;
+}
+
+// Seconds of speech aligned at once by alignTimedSequences; the table of a window stays small
+export const ALIGNMENT_WINDOW_SECONDS = 60;
+
+// Time range of an element of a timed sequence
+export interface TimeRange {
+    start: number;
+    end: number;
+}
+
+// Backtrace directions of the edit distance table
+const DIAGONAL = 0;
+const UP = 1;
+const LEFT = 2;
+
+// All words of a transcript in time order, with word timings estimated where the service reported none
+export function getComparedWords(transcript: Transcript): ComparedWord[] {
+    return transcript.segments
+        .flatMap(segment => getSegmentWords(segment).map(word => ({ ...word, normalized: normalizeWord(word.text) })))
+        .filter(word => word.normalized.length > 0);
+}
+
+/**
+ * Minimum edit distance alignment (Levenshtein with unit costs).
+ * Only the backtrace table is kept in full, one byte per cell, so its size is the product of the lengths:
+ * use alignTimedSequences for whole transcripts.
+ */
+export function alignSequences<A, B>(reference: A[], hypothesis: B[], equals: (a: A, b: B) => boolean): AlignmentStep[] {
+    const rows = reference.length;
+    const columns = hypothesis.length;
+    const directions = new Uint8Array((rows + 1) * (columns + 1));
+    let previous = new Uint32Array(columns + 1);
+    let current = new Uint32Array(columns + 1);
+
+    for (let j = 0; j <= columns; j++) {
+        previous[j] = j;
+        directions[j] = LEFT;
+    }
+    for (let i = 1; i <= rows; i++) {
+        current[0] = i;
+        directions[i * (columns + 1)] = UP;
+        for (let j = 1; j <= columns; j++) {
+            const diagonal = previous[j - 1] + (equals(reference[i - 1], hypothesis[j - 1]) ? 0 : 1);
+            const up = previous[j] + 1;
+            const left = current[j - 1] + 1;
+            if (diagonal <= up && diagonal <= left) {
+                current[j] = diagonal;
+                directions[i * (columns + 1) + j] = DIAGONAL;
+            } else if (up <= left) {
+                current[j] = up;
+                directions[i * (columns + 1) + j] = UP;
+            } else {
+                current[j] = left;
+                directions[i * (columns + 1) + j] = LEFT;
+            }
+        }
+        [previous, current] = [current, previous];
+    }
+
+    const steps: AlignmentStep[] = [];
+    let i = rows;
+    let j = columns;
+    while (i > 0 || j > 0) {
+        const direction = directions[i * (columns + 1) + j];
+        if (i > 0 && j > 0 && direction === DIAGONAL) {
+            const operation = equals(reference[i - 1], hypothesis[j - 1]) ? 'match' : 'substitution';
+            steps.push({ operation, reference: i - 1, hypothesis: j - 1 });
+            i--;
+            j--;
+        } else if (i > 0 && (j === 0 || direction === UP)) {
+            steps.push({ operation: 'deletion', reference: i - 1, hypothesis: null });
+            i--;
+        } else {
+            steps.push({ operation: 'insertion', reference: null, hypothesis: j - 1 });
+            j--;
+        }
+    }
+    return steps.reverse();
+}
+
+// Start of the next window: a time in a pause of both sequences after the target, or the target itself
+function findWindowEnd<A, B>(
+    reference: A[],
+    hypothesis: B[],
+    from: { reference: number; hypothesis: number },
+    target: number,
+    timeOfReference: (item: A) => TimeRange,
+    timeOfHypothesis: (item: B) => TimeRange
+): number {
+    const spans = (time: number) => {
+        for (let j = from.hypothesis; j < hypothesis.length; j++) {
+            const range = timeOfHypothesis(hypothesis[j]);
+            if (range.start >= time) {
+                return false;
+            }
+            if (range.end > time) {
+                return true;
+            }
+        }
+        return false;
+    };
+    // Candidates are the starts of reference elements up to half a window after the target
+    const limit = target + ALIGNMENT_WINDOW_SECONDS / 2;
+    for (let i = Math.max(from.reference, 1); i < reference.length; i++) {
+        const start = timeOfReference(reference[i]).start;
+        if (start > limit) {
+            break;
+        }
+        if (start >= target && timeOfReference(reference[i - 1]).end <= start && !spans(start)) {
+            return start;
+        }
+    }
+    return target;
+}
+
+/**
+ * Alignment of two sequences in time order, done in windows of about ALIGNMENT_WINDOW_SECONDS
+ * cut where neither sequence has a word, so memory and time grow with the length instead of its square.
+ * Both sequences must use the same clock; words more than a pause apart in time are never matched.
+ */
+export function alignTimedSequences<A, B>(
+    reference: A[],
+    hypothesis: B[],
+    equals: (a: A, b: B) => boolean,
+    timeOfReference: (item: A) => TimeRange,
+    timeOfHypothesis: (item: B) => TimeRange,
+    windowSeconds: number = ALIGNMENT_WINDOW_SECONDS
+): AlignmentStep[] {
+    const steps: AlignmentStep[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < reference.length || j < hypothesis.length) {
+        let end = Infinity;
+        // Once one sequence is used up, the rest of the other is aligned at once (all deletions or insertions)
+        if (i < reference.length && j < hypothesis.length) {
+            const start = Math.min(timeOfReference(reference[i]).start, timeOfHypothesis(hypothesis[j]).start);
+            end = findWindowEnd(reference, hypothesis, { reference: i, hypothesis: j }, start + windowSeconds, timeOfReference, timeOfHypothesis);
+        }
+        let nextI = i;
+        while (nextI < reference.length && timeOfReference(reference[nextI]).start < end) {
+            nextI++;
+        }
+        let nextJ = j;
+        while (nextJ < hypothesis.length && timeOfHypothesis(hypothesis[nextJ]).start < end) {
+            nextJ++;
+        }
+        for (const step of alignSequences(reference.slice(i, nextI), hypothesis.slice(j, nextJ), equals)) {
+            steps.push({
+                operation: step.operation,
+                reference: step.reference === null ? null : step.reference + i,
+                hypothesis: step.hypothesis === null ? null : step.hypothesis + j
+            });
+        }
+        i = nextI;
+        j = nextJ;
+    }
+    return steps;
+}
+
+// Words of two transcripts aligned in time windows
+export function alignWords(reference: ComparedWord[], hypothesis: ComparedWord[]): AlignmentStep[] {
+    return alignTimedSequences(reference, hypothesis, (a, b) => a.normalized === b.normalized, word => word, word => word);
+}
+
+// Error counts of an alignment, relative to a reference of the given length
+export function countErrors(steps: AlignmentStep[], referenceWords: number): WordErrors {
+    const count = (operation: AlignmentOperation) => steps.filter(step => step.operation === operation).length;
+    const substitutions = count('substitution');
+    const deletions = count('deletion');
+    const insertions = count('insertion');
+    const errors = substitutions + deletions + insertions;
+    return {
+        substitutions,
+        deletions,
+        insertions,
+        referenceWords,
+        wer: referenceWords > 0 ? errors / referenceWords : (errors > 0 ? 1 : 0)
+    };
+}
+
+// Word error rate of a hypothesis against a reference, both as normalized words
+export function wordErrorRate(reference: string[], hypothesis: string[]): WordErrors {
+    return countErrors(alignSequences(reference, hypothesis, (a, b) => a === b), reference.length);
+}
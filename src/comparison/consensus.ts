@@ -0,0 +1,170 @@
+import { TranscriptWord } from '../transcription';
+import { alignTimedSequences } from './align';
+import { ComparedWord, LowAgreementRange, WordNetwork } from './types';
+
+export interface SlotVote {
+    // Winning word, or null when most sources have no word at this position
+    word: ComparedWord | null;
+    // Sources voting for the winner
+    voters: ComparedWord[];
+    // Share of all sources voting for the winner, 0-1
+    agreement: number;
+}
+
+// Start and end of a slot: the mean times of the words in it
+function slotTime(slot: (ComparedWord | null)[]): { start: number; end: number } {
+    const words = slot.filter((word): word is ComparedWord => word !== null);
+    return {
+        start: words.reduce((sum, word) => sum + word.start, 0) / words.length,
+        end: words.reduce((sum, word) => sum + word.end, 0) / words.length
+    };
+}
+
+/**
+ * Aligns the words of every source into one network, ROVER-style: each source is aligned
+ * to the network built from the sources before it, and words no earlier source has open new slots
+ */
+export function buildWordNetwork(sources: { name: string; words: ComparedWord[] }[]): WordNetwork {
+    let slots: (ComparedWord | null)[][] = [];
+    sources.forEach((source, index) => {
+        // The words of each slot as a set, so comparing a slot with a word does not walk every source
+        const slotWords = new Map(slots.map(slot => [slot, new Set(slot.filter(word => word !== null).map(word => word!.normalized))]));
+        const steps = alignTimedSequences(slots, source.words,
+            (slot, word) => slotWords.get(slot)!.has(word.normalized), slotTime, word => word);
+        const next: (ComparedWord | null)[][] = [];
+        for (const step of steps) {
+            if (step.reference === null) {
+                // A word the earlier sources do not have
+                const slot: (ComparedWord | null)[] = new Array(index).fill(null);
+                slot.push(source.words[step.hypothesis!]);
+                next.push(slot);
+            } else {
+                const slot = slots[step.reference];
+                slot.push(step.hypothesis === null ? null : source.words[step.hypothesis]);
+                next.push(slot);
+            }
+        }
+        slots = next;
+    });
+    return { sources: sources.map(source => source.name), slots };
+}
+
+/**
+ * Majority vote in one slot; "no word" is a candidate too.
+ * Ties go to the candidate with the higher summed confidence, then to a word over no word,
+ * then to the candidate of the earliest source.
+ */
+export function voteSlot(slot: (ComparedWord | null)[]): SlotVote {
+    const candidates = new Map<string, ComparedWord[]>();
+    let absent = 0;
+    for (const word of slot) {
+        if (word === null) {
+            absent++;
+        } else {
+            candidates.set(word.normalized, [...(candidates.get(word.normalized) || []), word]);
+        }
+    }
+
+    let best: ComparedWord[] = [];
+    let bestConfidence = -1;
+    for (const voters of candidates.values()) {
+        // Sources without word confidence count as fairly sure
+        const confidence = voters.reduce((sum, word) => sum + (word.confidence ?? 0.5), 0);
+        if (voters.length > best.length || (voters.length === best.length && confidence > bestConfidence)) {
+            best = voters;
+            bestConfidence = confidence;
+        }
+    }
+
+    if (absent > best.length) {
+        return { word: null, voters: [], agreement: absent / slot.length };
+    }
+    return { word: best[0], voters: best, agreement: best.length / slot.length };
+}
+
+/**
+ * The voted words of a network. Each word keeps the spelling and speaker of the first source voting
+ * for it, gets the mean time of its voters, and the share of voters as its confidence.
+ */
+export function buildConsensusWords(network: WordNetwork): TranscriptWord[] {
+    const words: TranscriptWord[] = [];
+    const round = (seconds: number) => Math.round(seconds * 1000) / 1000;
+    for (const slot of network.slots) {
+        const vote = voteSlot(slot);
+        if (!vote.word) {
+            continue;
+        }
+        const word: TranscriptWord = {
+            start: round(vote.voters.reduce((sum, voter) => sum + voter.start, 0) / vote.voters.length),
+            end: round(vote.voters.reduce((sum, voter) => sum + voter.end, 0) / vote.voters.length),
+            text: vote.word.text,
+            confidence: vote.agreement
+        };
+        if (vote.word.speaker !== undefined) {
+            word.speaker = vote.word.speaker;
+        }
+        // Averaging can reorder neighbouring words by a few milliseconds
+        const previous = words[words.length - 1];
+        if (previous && word.start < previous.end) {
+            word.start = previous.end;
+            word.end = Math.max(word.end, word.start);
+        }
+        words.push(word);
+    }
+    return words;
+}
+
+// Mean agreement over all slots of a network, or null when it is empty
+export function getNetworkAgreement(network: WordNetwork): number | null {
+    if (network.slots.length === 0) {
+        return null;
+    }
+    return network.slots.reduce((sum, slot) => sum + voteSlot(slot).agreement, 0) / network.slots.length;
+}
+
+/**
+ * Time ranges in which the sources disagree: fixed windows whose mean slot agreement is below
+ * minAgreement, with neighbouring windows joined
+ */
+export function findLowAgreement(network: WordNetwork, windowSize: number, minAgreement: number): LowAgreementRange[] {
+    const windows = new Map<number, (ComparedWord | null)[][]>();
+    for (const slot of network.slots) {
+        const index = Math.floor(slotTime(slot).start / windowSize);
+        windows.set(index, [...(windows.get(index) || []), slot]);
+    }
+
+    const ranges: LowAgreementRange[] = [];
+    let open: { index: number; slots: (ComparedWord | null)[][] } | null = null;
+    const close = () => {
+        if (!open) {
+            return;
+        }
+        const slots = open.slots;
+        const texts: { [source: string]: string } = {};
+        network.sources.forEach((source, i) => {
+            texts[source] = slots.map(slot => slot[i]).filter(word => word !== null).map(word => word!.text).join(' ');
+        });
+        ranges.push({
+            start: Math.min(...slots.map(slot => slotTime(slot).start)),
+            end: Math.max(...slots.map(slot => slotTime(slot).end)),
+            agreement: slots.reduce((sum, slot) => sum + voteSlot(slot).agreement, 0) / slots.length,
+            texts
+        });
+        open = null;
+    };
+
+    for (const index of Array.from(windows.keys()).sort((a, b) => a - b)) {
+        const slots = windows.get(index)!;
+        const agreement = slots.reduce((sum, slot) => sum + voteSlot(slot).agreement, 0) / slots.length;
+        if (agreement >= minAgreement) {
+            close();
+        } else if (open && open.index === index - 1) {
+            open = { index, slots: [...open.slots, ...slots] };
+        } else {
+            close();
+            open = { index, slots };
+        }
+    }
+    close();
+    return ranges;
+}
@@ -0,0 +1,91 @@
+import { SegmenterOptions, Transcript, segmentWords } from '../transcription';
+import { alignWords, countErrors, getComparedWords } from './align';
+import { buildConsensusWords, buildWordNetwork, findLowAgreement, getNetworkAgreement } from './consensus';
+import { ComparisonOptions, ComparisonReport, DEFAULT_COMPARISON_OPTIONS, PairwiseComparison } from './types';
+
+/**
+ * Compares the transcriptions of one video: word error rates between every pair of sources,
+ * the time ranges in which the voting sources (all but the reference) disagree, and optionally
+ * their consensus transcript
+ * @param transcripts Transcripts keyed by source; the order decides ties in the vote
+ * @param segmentation Segmentation rules for the consensus transcript
+ */
+export function compareTranscripts(
+    transcripts: { [source: string]: Transcript },
+    options: Partial<ComparisonOptions> = {},
+    segmentation: Partial<SegmenterOptions> = {}
+): { report: ComparisonReport; consensus: Transcript | null } {
+    const settings = { ...DEFAULT_COMPARISON_OPTIONS, ...options };
+    const sources = Object.keys(transcripts);
+    const reference = settings.reference && sources.includes(settings.reference) ? settings.reference : null;
+    const words = Object.fromEntries(sources.map(source => [source, getComparedWords(transcripts[source])]));
+
+    // One alignment per pair gives both directions: deletions of one are insertions of the other
+    const pairs: PairwiseComparison[] = [];
+    const werMatrix: ComparisonReport['werMatrix'] = Object.fromEntries(sources.map(source => [source, { [source]: 0 }]));
+    sources.forEach((first, i) => {
+        for (const second of sources.slice(i + 1)) {
+            const steps = alignWords(words[first], words[second]);
+            const forward = countErrors(steps, words[first].length);
+            const backward = countErrors(steps.map(step => ({
+                operation: step.operation === 'deletion' ? 'insertion' : step.operation === 'insertion' ? 'deletion' : step.operation,
+                reference: step.hypothesis,
+                hypothesis: step.reference
+            })), words[second].length);
+            pairs.push({ reference: first, hypothesis: second, ...forward }, { reference: second, hypothesis: first, ...backward });
+            werMatrix[first][second] = forward.wer;
+            werMatrix[second][first] = backward.wer;
+        }
+    });
+
+    const voters = sources.filter(source => source !== reference);
+    const report: ComparisonReport = { sources, reference, werMatrix, pairs, agreement: null, lowAgreement: [] };
+    if (voters.length < 2) {
+        return { report, consensus: null };
+    }
+
+    const network = buildWordNetwork(voters.map(name => ({ name, words: words[name] })));
+    report.agreement = getNetworkAgreement(network);
+    report.lowAgreement = findLowAgreement(network, settings.windowSize, settings.minAgreement);
+    if (!settings.consensus) {
+        return { report, consensus: null };
+    }
+
+    const consensusWords = buildConsensusWords(network);
+    const consensus: Transcript = {
+        language: voters.map(source => transcripts[source].language).find(language => language !== undefined),
+        segments: segmentWords(consensusWords, segmentation)
+    };
+    report.consensus = { sources: voters, words: consensusWords.length };
+    if (reference) {
+        const consensusCompared = getComparedWords(consensus);
+        const steps = alignWords(words[reference], consensusCompared);
+        report.consensus.referenceWer = countErrors(steps, words[reference].length).wer;
+    }
+    return { report, consensus };
+}
+
+export {
+    CONSENSUS_TRANSCRIPTION_SOURCE,
+    ComparisonOptions,
+    DEFAULT_COMPARISON_OPTIONS,
+    WordErrors,
+    PairwiseComparison,
+    LowAgreementRange,
+    ComparisonReport,
+    ComparedWord,
+    WordNetwork
+} from './types';
+export {
+    getComparedWords,
+    alignSequences,
+    alignTimedSequences,
+    alignWords,
+    countErrors,
+    wordErrorRate,
+    AlignmentOperation,
+    AlignmentStep,
+    TimeRange,
+    ALIGNMENT_WINDOW_SECONDS
+} from './align';
+export { buildWordNetwork, voteSlot, buildConsensusWords, getNetworkAgreement, findLowAgreement, SlotVote } from './consensus';
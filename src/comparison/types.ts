@@ -0,0 +1,75 @@
+import { TranscriptWord } from '../transcription';
+
+// Name under which the voted transcript is saved and analyzed, like a transcription service
+export const CONSENSUS_TRANSCRIPTION_SOURCE = 'consensus';
+
+export interface ComparisonOptions {
+    // Source used as ground truth, e.g. imported captions; it is compared but does not vote
+    reference?: string;
+    // Build a consensus transcript by word-level voting
+    consensus: boolean;
+    // Seconds per window when looking for low agreement
+    windowSize: number;
+    // Windows in which the sources agree on a smaller share of the words are reported
+    minAgreement: number;
+}
+
+export const DEFAULT_COMPARISON_OPTIONS: ComparisonOptions = {
+    consensus: false,
+    windowSize: 10,
+    minAgreement: 0.7
+};
+
+export interface WordErrors {
+    substitutions: number;
+    deletions: number;
+    insertions: number;
+    referenceWords: number;
+    // (substitutions + deletions + insertions) / referenceWords
+    wer: number;
+}
+
+export interface PairwiseComparison extends WordErrors {
+    reference: string;
+    hypothesis: string;
+}
+
+export interface LowAgreementRange {
+    start: number;
+    end: number;
+    // Mean share of the voting sources that agree on each word, 0-1
+    agreement: number;
+    // What each source heard in the range
+    texts: { [source: string]: string };
+}
+
+export interface ComparisonReport {
+    sources: string[];
+    reference: string | null;
+    // werMatrix[reference][hypothesis]
+    werMatrix: { [reference: string]: { [hypothesis: string]: number } };
+    pairs: PairwiseComparison[];
+    // Mean agreement over all aligned words of the voting sources; null with fewer than two of them
+    agreement: number | null;
+    lowAgreement: LowAgreementRange[];
+    consensus?: {
+        sources: string[];
+        words: number;
+        // WER of the consensus against the reference, when there is one
+        referenceWer?: number;
+    };
+}
+
+// A word with the comparable form of its text
+export interface ComparedWord extends TranscriptWord {
+    normalized: string;
+}
+
+/**
+ * Words of all voting sources aligned to each other: every slot holds, per source,
+ * the word it has at that position or null when it has none
+ */
+export interface WordNetwork {
+    sources: string[];
+    slots: (ComparedWord | null)[][];
+}
@@ -0,0 +1,3 @@
+export { Keyframe, KeyframeOptions, DEFAULT_KEYFRAME_OPTIONS, KEYFRAME_MANIFEST } from './types';
+export { perceptualHash, hammingDistance } from './phash';
+export { extractKeyframes, selectKeyframes, loadKeyframes } from './keyframes';
@@ -0,0 +1,122 @@
+import ffmpeg from 'fluent-ffmpeg';
+import * as fs from 'fs';
+import * as path from 'path';
+import { DEFAULT_KEYFRAME_OPTIONS, KEYFRAME_MANIFEST, Keyframe, KeyframeOptions } from './types';
+import { hammingDistance, perceptualHash } from './phash';
+
+// Frame size that keeps the aspect ratio with the longest side at most maxDimension
+function getFrameSize(videoPath: string, maxDimension: number): Promise<{ width: number; height: number }> {
+    return new Promise((resolve, reject) => {
+        ffmpeg.ffprobe(videoPath, (err, metadata) => {
+            if (err) {
+                reject(err);
+                return;
+            }
+            const videoStream = metadata.streams.find(s => s.codec_type === 'video');
+            if (!videoStream) {
+                reject(new Error('No video stream found'));
+                return;
+            }
+
+            const width = videoStream.width || 1280;
+            const height = videoStream.height || 720;
+            const scale = Math.min(1, maxDimension / Math.max(width, height));
+            // Encoders want even dimensions
+            const even = (value: number) => Math.max(2, Math.round((value * scale) / 2) * 2);
+            console.log(`Video dimensions: ${width}x${height}`);
+            resolve({ width: even(width), height: even(height) });
+        });
+    });
+}
+
+/**
+ * Saves the first frame, every frame that starts a new scene, and a frame after maxInterval seconds without one.
+ * ffmpeg's showinfo filter reports the time of each saved frame.
+ */
+function extractSceneFrames(videoPath: string, framesDir: string, settings: KeyframeOptions): Promise<{ path: string; timestamp: number }[]> {
+    return getFrameSize(videoPath, settings.maxDimension).then(size => new Promise((resolve, reject) => {
+        const timestamps: number[] = [];
+        const select = `select='isnan(prev_selected_t)+gt(scene,${settings.sceneThreshold})+gte(t-prev_selected_t,${settings.maxInterval})'`;
+        ffmpeg(videoPath)
+            .noAudio()
+            .videoFilters([select, 'showinfo', `scale=${size.width}:${size.height}`])
+            .outputOptions(['-vsync', 'vfr', '-q:v', '2'])
+            .on('stderr', (line: string) => {
+                const match = line.includes('Parsed_showinfo') && line.match(/pts_time:\s*([\d.]+)/);
+                if (match) {
+                    timestamps.push(parseFloat(match[1]));
+                }
+            })
+            .on('end', () => resolve(timestamps
+                .map((timestamp, i) => ({ path: path.join(framesDir, `frame-${String(i + 1).padStart(4, '0')}.jpg`), timestamp }))
+                .filter(frame => fs.existsSync(frame.path))))
+            .on('error', (err: Error) => reject(err))
+            .save(path.join(framesDir, 'frame-%04d.jpg'));
+    }));
+}
+
+/**
+ * Drops near-duplicates (a slide shown again later counts too), then, above maxFrames,
+ * the frames closest to the frame kept before them. The first frame always stays.
+ * @param candidates Frames in time order
+ */
+export function selectKeyframes(candidates: Keyframe[], options: Partial<KeyframeOptions> = {}): { kept: Keyframe[]; dropped: Keyframe[] } {
+    const settings = { ...DEFAULT_KEYFRAME_OPTIONS, ...options };
+    const kept: Keyframe[] = [];
+    const dropped: Keyframe[] = [];
+    for (const frame of candidates) {
+        if (kept.some(other => hammingDistance(other.hash, frame.hash) <= settings.duplicateDistance)) {
+            dropped.push(frame);
+        } else {
+            kept.push(frame);
+        }
+    }
+
+    while (kept.length > Math.max(1, settings.maxFrames)) {
+        let redundant = 1;
+        for (let i = 2; i < kept.length; i++) {
+            if (hammingDistance(kept[i - 1].hash, kept[i].hash) < hammingDistance(kept[redundant - 1].hash, kept[redundant].hash)) {
+                redundant = i;
+            }
+        }
+        dropped.push(...kept.splice(redundant, 1));
+    }
+    return { kept, dropped };
+}
+
+/**
+ * Extracts scene-change keyframes into framesDir, replacing frames of earlier runs,
+ * and writes frames.json with the timestamp and hash of each kept frame
+ */
+export async function extractKeyframes(videoPath: string, framesDir: string, options: Partial<KeyframeOptions> = {}): Promise<Keyframe[]> {
+    const settings = { ...DEFAULT_KEYFRAME_OPTIONS, ...options };
+    await fs.promises.rm(framesDir, { recursive: true, force: true });
+    await fs.promises.mkdir(framesDir, { recursive: true });
+
+    const frames = await extractSceneFrames(videoPath, framesDir, settings);
+    const candidates: Keyframe[] = [];
+    for (const frame of frames) {
+        candidates.push({ ...frame, hash: await perceptualHash(frame.path) });
+    }
+
+    const { kept, dropped } = selectKeyframes(candidates, settings);
+    await Promise.all(dropped.map(frame => fs.promises.unlink(frame.path)));
+    console.log(`Kept ${kept.length} of ${candidates.length} scene frames (${dropped.length} near-duplicates or over the limit of ${settings.maxFrames})`);
+
+    await fs.promises.writeFile(
+        path.join(framesDir, KEYFRAME_MANIFEST),
+        JSON.stringify(kept.map(frame => ({ ...frame, path: path.basename(frame.path) })), null, 2),
+        'utf-8'
+    );
+    return kept;
+}
+
+// Keyframes of an earlier run, or null if the directory has no frames.json
+export async function loadKeyframes(framesDir: string): Promise<Keyframe[] | null> {
+    const manifestPath = path.join(framesDir, KEYFRAME_MANIFEST);
+    if (!fs.existsSync(manifestPath)) {
+        return null;
+    }
+    const frames: Keyframe[] = JSON.parse(await fs.promises.readFile(manifestPath, 'utf-8'));
+    return frames.map(frame => ({ ...frame, path: path.join(framesDir, frame.path) }));
+}
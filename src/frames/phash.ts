@@ -0,0 +1,62 @@
+import sharp from 'sharp';
+
+// The image is reduced to SIZE x SIZE grey pixels; the lowest HASH_SIZE x HASH_SIZE frequencies form the hash
+const SIZE = 32;
+const HASH_SIZE = 8;
+
+// Cosine table shared by both passes of the DCT
+const COSINES: number[][] = Array.from({ length: HASH_SIZE }, (_, u) =>
+    Array.from({ length: SIZE }, (_, x) => Math.cos(((2 * x + 1) * u * Math.PI) / (2 * SIZE))));
+
+/**
+ * Perceptual hash (pHash): one bit per low frequency of the image, set when it is above the median.
+ * Re-encoded, slightly shifted or recoloured versions of a picture get hashes a few bits apart.
+ * @returns 64 bits as 16 hex digits
+ */
+export async function perceptualHash(imagePath: string): Promise<string> {
+    const pixels = await sharp(imagePath)
+        .greyscale()
+        .resize(SIZE, SIZE, { fit: 'fill' })
+        .raw()
+        .toBuffer();
+
+    const coefficients: number[] = [];
+    for (let u = 0; u < HASH_SIZE; u++) {
+        for (let v = 0; v < HASH_SIZE; v++) {
+            let sum = 0;
+            for (let y = 0; y < SIZE; y++) {
+                for (let x = 0; x < SIZE; x++) {
+                    sum += pixels[y * SIZE + x] * COSINES[u][y] * COSINES[v][x];
+                }
+            }
+            coefficients.push(sum);
+        }
+    }
+
+    // The first coefficient is the mean brightness and would dominate the median
+    const sorted = coefficients.slice(1).sort((a, b) => a - b);
+    const median = sorted[Math.floor(sorted.length / 2)];
+
+    let hex = '';
+    for (let i = 0; i < coefficients.length; i += 4) {
+        let nibble = 0;
+        for (let bit = 0; bit < 4; bit++) {
+            nibble = (nibble << 1) | (coefficients[i + bit] > median ? 1 : 0);
+        }
+        hex += nibble.toString(16);
+    }
+    return hex;
+}
+
+// Number of differing bits between two hashes of the same length
+export function hammingDistance(a: string, b: string): number {
+    let distance = 0;
+    for (let i = 0; i < a.length; i++) {
+        let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+        while (diff) {
+            distance += diff & 1;
+            diff >>= 1;
+        }
+    }
+    return distance;
+}
@@ -0,0 +1,32 @@
+// A frame kept for analysis
+export interface Keyframe {
+    path: string;
+    // Seconds into the video, to match the frame to transcript segments
+    timestamp: number;
+    // 64-bit perceptual hash as 16 hex digits
+    hash: string;
+}
+
+export interface KeyframeOptions {
+    // ffmpeg scene score (0-1) above which a frame starts a new scene
+    sceneThreshold: number;
+    // Seconds after which a frame is taken even without a scene change, so long static shots are covered
+    maxInterval: number;
+    // Frames whose hashes differ in at most this many of 64 bits are near-duplicates
+    duplicateDistance: number;
+    // Most frames kept; the most redundant ones are dropped first
+    maxFrames: number;
+    // Longest side of the saved frames in pixels
+    maxDimension: number;
+}
+
+export const DEFAULT_KEYFRAME_OPTIONS: KeyframeOptions = {
+    sceneThreshold: 0.3,
+    maxInterval: 60,
+    duplicateDistance: 4,
+    maxFrames: 40,
+    maxDimension: 1280
+};
+
+// Written next to the frames, so a later run knows their timestamps
+export const KEYFRAME_MANIFEST = 'frames.json';
@@ -3,298 +3,513 @@ import * as path from 'path';
 import dotenv from 'dotenv';
 import { AIService } from './aiService';
 import { VideoProcessor, ProcessOptions } from './videoProcessor';
-import { checkFFmpeg, SUPPORTED_VIDEO_FORMATS, MAX_VIDEO_SIZE_MB } from './utils';
-import { TranscriptionManager, TranscriptionServiceType } from './transcription';
+import { checkFFmpeg, getMediaDuration, isAudioFile, mapWithConcurrency, readPositiveIntegerEnv, SUPPORTED_MEDIA_FORMATS, MAX_VIDEO_SIZE_MB, Timestamp } from './utils';
+import { Transcript, TranscriptionManager, toTimestamps } from './transcription';
+import { CliError, CliOptions, HELP_TEXT, parseCommandLineArgs } from './cli';
+import { AnalysisManager, DEFAULT_PROMPT_BUDGET } from './analysis';
+import { SubtitleFormat, renderSubtitles, findSidecarSubtitles, HUMAN_TRANSCRIPTION_SOURCE } from './subtitles';
+import { CONSENSUS_TRANSCRIPTION_SOURCE } from './comparison';
+import { DEFAULT_KEYFRAME_OPTIONS } from './frames';
+import { ProgressReporter, RateLimitManager, Scheduler } from './scheduler';
+import { DeadlineExceededError } from './retry';
+import { DEFAULT_PRICE_TABLE, PriceTable, USAGE_FILE, UsageLedger, estimateVideo, formatCost, loadPriceTable } from './usage';
+import { MANIFEST_FILE, RunManifestRecorder, diffManifests, formatManifestDiff, getToolInfo, loadManifest } from './manifest';
+import { RunContext, getMissingEnvVars, processMatrix } from './pipeline';
+import { JobRunner, JobStore, createApiServer } from './server';
 
 dotenv.config();
 
-interface ProcessingOptions {
-    includeImages: boolean;
-    onlyTranscribe: boolean;
+function isSupportedMedia(file: string): boolean {
+    return SUPPORTED_MEDIA_FORMATS.includes(path.extname(file).toLowerCase());
 }
 
-function parseCommandLineArgs(): ProcessingOptions {
-    const args = process.argv.slice(2);
+// Expands the input files and folders into the list of video and audio files to process
+function getVideoFiles(inputs: string[]): string[] {
+    const videoFiles: string[] = [];
 
-    // Parse options from command line
-    const options: { [key: string]: boolean } = {
-        onlyTranscribe: true,
-        images: false
-    };
-    args.forEach(arg => {
-        if (arg === 'no-images') {
-            options.images = false;
-        } else if (arg === 'only-transcribe') {
-            options.onlyTranscribe = true;
+    for (const input of inputs) {
+        const inputPath = path.resolve(input);
+        if (!fs.existsSync(inputPath)) {
+            throw new CliError(`Input not found: ${inputPath}`);
         }
-    });
 
-    return {// No longer needed, will get from video folder
-        includeImages: options.images,
-        onlyTranscribe: !!options.onlyTranscribe
-    };
-}
-
-// New function to get all video files from the video folder
-function getVideoFiles(): string[] {
-    const videoFolderPath = path.join(process.cwd(), 'video');
-
-    // Ensure video folder exists
-    if (!fs.existsSync(videoFolderPath)) {
-        console.error('\x1b[31m%s\x1b[0m', `Error: Video folder not found: ${videoFolderPath}`);
-        console.log('Please create a "video" folder in the project root and add your video files there.');
-        process.exit(1);
+        if (fs.statSync(inputPath).isDirectory()) {
+            videoFiles.push(...fs.readdirSync(inputPath)
+                .filter(isSupportedMedia)
+                .map(file => path.join(inputPath, file)));
+        } else if (isSupportedMedia(inputPath)) {
+            videoFiles.push(inputPath);
+        } else {
+            throw new CliError(`Unsupported file format: ${inputPath}. Supported formats: ${SUPPORTED_MEDIA_FORMATS.join(', ')}`);
+        }
     }
 
-    // Get all files in the video folder
-    const files = fs.readdirSync(videoFolderPath);
-
-    // Filter for supported video formats
-    const videoFiles = files.filter(file => {
-        const fileExtension = path.extname(file).toLowerCase();
-        return SUPPORTED_VIDEO_FORMATS.includes(fileExtension);
-    }).map(file => path.join(videoFolderPath, file));
-
     if (videoFiles.length === 0) {
-        console.error('\x1b[31m%s\x1b[0m', 'No supported video files found in the video folder');
-        console.log('Supported formats:', SUPPORTED_VIDEO_FORMATS.join(', '));
-        process.exit(1);
+        throw new CliError(`No supported media files found in: ${inputs.join(', ')}. Supported formats: ${SUPPORTED_MEDIA_FORMATS.join(', ')}`);
     }
 
     return videoFiles;
 }
 
 async function main() {
-    // Check FFmpeg first
-    const ffmpegAvailable = await checkFFmpeg();
-    if (!ffmpegAvailable) {
-        process.exit(1);
+    let options: CliOptions | null;
+    let videoFiles: string[];
+    try {
+        options = parseCommandLineArgs(process.argv.slice(2));
+        if (!options) {
+            console.log(HELP_TEXT);
+            return;
+        }
+        if (options.command === 'cache') {
+            await runCacheCommand(options);
+            return;
+        }
+        if (options.command === 'diff') {
+            await runDiffCommand(options);
+            return;
+        }
+        // The server gets its media over HTTP
+        videoFiles = options.command === 'serve' ? [] : getVideoFiles(options.inputs);
+    } catch (error) {
+        if (error instanceof CliError) {
+            console.error('\x1b[31m%s\x1b[0m', `Error: ${error.message}`);
+            console.log('Run with --help to see the available commands and options.');
+            process.exit(1);
+        }
+        throw error;
     }
 
-    // Parse command line arguments
-    const options = parseCommandLineArgs();
-    const { includeImages, onlyTranscribe } = options;
+    const { command, includeImages } = options;
+
+    // FFmpeg is needed to extract audio and frames
+    // and ffprobe to read the durations of an estimate
+    if (command === 'transcribe' || command === 'run' || command === 'serve' || (command === 'analyze' && includeImages) || options.estimate) {
+        const ffmpegAvailable = await checkFFmpeg();
+        if (!ffmpegAvailable) {
+            process.exit(1);
+        }
+    }
+
+    const aiServiceOptions = {
+        maxLessonAttempts: readPositiveIntegerEnv('LESSON_MAX_ATTEMPTS'),
+        sectionTokens: readPositiveIntegerEnv('LESSON_SECTION_TOKENS')
+    };
+    const aiService = new AIService(aiServiceOptions);
 
-    // Всегда используем все доступные сервисы транскрипции
-    const transcriptionServices = [
-        TranscriptionServiceType.OPENAI_WHISPER,
-        TranscriptionServiceType.GEMINI
-    ];
+    let prices: PriceTable = DEFAULT_PRICE_TABLE;
+    if (options.prices) {
+        try {
+            prices = await loadPriceTable(options.prices);
+        } catch (error: any) {
+            console.error('\x1b[31m%s\x1b[0m', `Error reading the price table: ${error.message}`);
+            process.exit(1);
+        }
+    }
+
+    if (command === 'serve') {
+        await runServeCommand(options, aiService, prices);
+        return;
+    }
 
     // Log processing mode
+    console.log(`Command: ${command}`);
     console.log(`Processing mode: ${includeImages ? 'With image analysis' : 'Audio only (no image analysis)'}`);
-    console.log(`Using ALL transcription services: ${transcriptionServices.join(', ')}`);
-    if (onlyTranscribe) {
-        console.log('Running in TRANSCRIPTION ONLY mode (no AI analysis)');
+    if (command === 'transcribe' || command === 'run') {
+        console.log(`Using transcription services: ${options.transcribers.join(', ') || 'none'}`);
+        if (options.diarize) {
+            console.log(`Speaker diarization: on${options.speakers ? ` (${options.speakers} speakers expected)` : ''}`);
+        }
+    }
+    if (command === 'analyze' || command === 'run') {
+        console.log(`Using analysis providers: ${options.analyzers.join(', ')}`);
     }
 
-    // Check if required API keys are set
-    let requiredEnvVars: { [key: string]: string | undefined } = {
-        'OPENAI_API_KEY': process.env.OPENAI_API_KEY,
-        'ANTHROPIC_API_KEY': process.env.ANTHROPIC_API_KEY,
-        'GOOGLE_API_KEY': process.env.GOOGLE_API_KEY,
-        // Всегда требуем AWS, так как используем Amazon Transcribe
-        'AWS_ACCESS_KEY_ID': process.env.AWS_ACCESS_KEY_ID,
-        'AWS_SECRET_ACCESS_KEY': process.env.AWS_SECRET_ACCESS_KEY,
-        // Добавляем проверку API ключа для AssemblyAI
-        'ASSEMBLYAI_API_KEY': process.env.ASSEMBLYAI_API_KEY
-    };
-
-    const missingEnvVars = Object.entries(requiredEnvVars)
-        .filter(([key, value]) => {
-            // AWS_REGION is optional with default
-            if (key === 'AWS_REGION') return false;
-            return !value;
-        })
-        .map(([key]) => key);
+    // A dry run needs no API keys: nothing is sent
+    if (options.estimate) {
+        await printEstimate(videoFiles, options, aiService, prices);
+        return;
+    }
 
+    // Check that the selected services have their API keys
+    const missingEnvVars = getMissingEnvVars(
+        command === 'transcribe' || command === 'run' ? options.transcribers : [],
+        command === 'analyze' || command === 'run' ? options.analyzers : []
+    );
     if (missingEnvVars.length > 0) {
         console.error('\x1b[31m%s\x1b[0m', 'Error: Missing required environment variables:');
         console.error(missingEnvVars.join(', '));
-        console.log('\nPlease create a .env file with the following variables:');
-        console.log('OPENAI_API_KEY=your_openai_key_here');
-        console.log('ANTHROPIC_API_KEY=your_anthropic_key_here');
-        console.log('GOOGLE_API_KEY=your_google_key_here');
-        console.log('AWS_ACCESS_KEY_ID=your_aws_access_key_here');
-        console.log('AWS_SECRET_ACCESS_KEY=your_aws_secret_key_here');
-        console.log('AWS_REGION=us-east-1 (optional)');
-        console.log('AWS_S3_BUCKET=your_bucket_name (optional)');
-        console.log('ASSEMBLYAI_API_KEY=your_assemblyai_key_here');
-
+        console.log('\nPlease add them to your .env file, or choose other services with --transcribers / --analyzers.');
         process.exit(1);
     }
 
-    // Get all video files from the video folder
-    const videoFiles = getVideoFiles();
-    console.log(`Found ${videoFiles.length} video files to process in the ./video folder`);
+    console.log(`Found ${videoFiles.length} media files to process`);
 
-    // Process each video file
-    for (let i = 0; i < videoFiles.length; i++) {
-        const videoPath = videoFiles[i];
-        console.log(`\n===== Processing video ${i + 1} of ${videoFiles.length}: ${path.basename(videoPath)} =====`);
+    // Ctrl+C and --timeout cancel the requests in flight; completed steps stay saved for the next run
+    const controller = new AbortController();
+    process.once('SIGINT', () => {
+        console.warn('\x1b[33m%s\x1b[0m', 'Interrupted: cancelling the requests in flight (press Ctrl+C again to exit at once)...');
+        controller.abort();
+        process.once('SIGINT', () => process.exit(130));
+    });
+    if (options.timeout) {
+        const minutes = options.timeout;
+        setTimeout(() => {
+            console.warn('\x1b[33m%s\x1b[0m', `The run reached its ${minutes} minute timeout, cancelling the requests in flight...`);
+            controller.abort(new DeadlineExceededError(`The run did not finish within ${minutes} minutes`));
+        }, minutes * 60 * 1000).unref();
+    }
 
-        // Check if video file size is within limits
-        try {
-            const stats = await fs.promises.stat(videoPath);
-            const fileSizeInMB = stats.size / (1024 * 1024);
+    // Steps of all videos share the --concurrency slots; each provider also keeps to its own limits
+    RateLimitManager.configure(options.providerLimits);
+    const scheduler = new Scheduler(options.concurrency, new ProgressReporter(videoFiles.length), controller.signal);
+    const runId = new Date().toISOString().replace(/[:.]/g, '-');
+    const run: RunContext = {
+        aiService,
+        scheduler,
+        usage: new UsageLedger(prices, options.maxCost),
+        manifest: new RunManifestRecorder({ runId, command, tool: await getToolInfo(), settings: { ...getRunSettings(options), lessons: aiServiceOptions } }),
+        signal: controller.signal
+    };
 
-            if (fileSizeInMB > MAX_VIDEO_SIZE_MB) {
-                console.warn('\x1b[33m%s\x1b[0m', `Warning: Video file is large (${Math.round(fileSizeInMB)}MB). Maximum recommended size is ${MAX_VIDEO_SIZE_MB}MB`);
-                console.log('Processing anyway, but this might take longer...');
-            }
-        } catch (error: any) {
-            console.error('\x1b[31m%s\x1b[0m', `Error checking video file size: ${error.message}`);
-            console.log('Skipping this video and continuing with others...');
-            continue;
+    await mapWithConcurrency(videoFiles, options.concurrency, async (videoPath, i) => {
+        if (controller.signal.aborted) {
+            return;
         }
+        console.log(`\n===== Processing video ${i + 1} of ${videoFiles.length}: ${path.basename(videoPath)} =====`);
+        await processVideo(videoPath, options!, run);
+        scheduler.progress.videoFinished(path.basename(videoPath));
+    });
 
-        try {
-            // Initialize services for this video
-            const processorOptions: ProcessOptions = { videoPath, includeImages };
-            const videoProcessor = new VideoProcessor(processorOptions);
-            const aiService = new AIService();
-
-            // Process the video with all transcription services
-            await processMatrix(videoProcessor, aiService, transcriptionServices, onlyTranscribe);
-
-            console.log(`\n✅ Completed processing ${path.basename(videoPath)}`);
-        } catch (error) {
-            console.error('\x1b[31m%s\x1b[0m', `Error during processing ${path.basename(videoPath)}:`);
-            if (error instanceof Error) {
-                console.error(error.message);
-                if (error.stack) {
-                    console.error('\nStack trace:');
-                    console.error(error.stack);
-                }
-            } else {
-                console.error(error);
-            }
-            console.log('Continuing with next video...');
-        }
+    // Written even for cancelled runs: the calls made so far are paid for
+    const runDir = path.join(options.outputDir, 'runs', runId);
+    await run.usage.save(path.join(runDir, USAGE_FILE));
+    await run.manifest.save(path.join(runDir, MANIFEST_FILE));
+    printUsageSummary('Run', run.usage);
+    console.log(`Usage and manifest of this run saved to ${runDir}`);
+    if (run.usage.isOverBudget()) {
+        console.error('\x1b[31m%s\x1b[0m', `Steps were skipped after the --max-cost limit of ${formatCost(options.maxCost!)} was reached`);
+        process.exitCode = 1;
     }
 
+    if (controller.signal.aborted) {
+        console.error('\x1b[31m%s\x1b[0m', '\n===== Run cancelled; run the same command again to resume =====');
+        process.exitCode = 1;
+        return;
+    }
     console.log('\n===== All videos have been processed =====');
 }
 
-// Новая функция для генерации матрицы результатов
-async function processMatrix(
-    videoProcessor: VideoProcessor,
-    aiService: AIService,
-    transcriptionServices: TranscriptionServiceType[],
-    onlyTranscribe: boolean = false,
-    includeImages: boolean = false
-) {
-    console.log('Processing video...');
-    console.log(`Output directory: ${videoProcessor.getOutputDirectory()}`);
-
-    // Получаем путь к видео из videoProcessor
-    const videoPath = videoProcessor.getVideoPath(); // Используем геттер
-
-    // Step 1: Extract audio
-    console.log('Extracting audio...');
-    const audioPath = await videoProcessor.extractAudio();
-
-    if (includeImages) {
-        return;
+// Options that change the results, recorded in the manifests; --force and --redo explain steps that ran again
+function getRunSettings(options: CliOptions): { [name: string]: unknown } {
+    return {
+        transcribers: options.transcribers,
+        analyzers: options.analyzers,
+        includeImages: options.includeImages,
+        keyframes: { ...DEFAULT_KEYFRAME_OPTIONS, ...options.keyframes },
+        diarize: options.diarize,
+        speakers: options.speakers ?? null,
+        segmentation: options.segmentation ?? null,
+        chunking: options.chunking,
+        consensus: options.consensus,
+        captions: options.captions ? path.basename(options.captions) : null,
+        useSidecar: options.useSidecar,
+        useCache: options.useCache,
+        force: options.force,
+        redo: options.redo
+    };
+}
+
+// Cost of every provider, with its calls and the tokens or audio minutes they used
+function printUsageSummary(label: string, usage: UsageLedger, video?: string) {
+    const summary = usage.summarize(video);
+    console.log(`\n${label} cost: ${formatCost(summary.cost)} in ${summary.calls} requests`);
+    for (const [provider, totals] of Object.entries(summary.byProvider)) {
+        const details = [`${totals.calls} requests`];
+        if (totals.inputTokens || totals.outputTokens) {
+            details.push(`${totals.inputTokens} input / ${totals.outputTokens} output tokens`);
+        }
+        if (totals.audioSeconds) {
+            details.push(`${(totals.audioSeconds / 60).toFixed(1)} audio minutes`);
+        }
+        console.log(`- ${provider}: ${formatCost(totals.cost)} (${details.join(', ')})`);
+    }
+    if (summary.unpriced.length > 0) {
+        console.log(`Without a price: ${summary.unpriced.join(', ')}`);
     }
-    // Step 2: Extract frames if needed
-    console.log('Extracting frames...');
-    const frames = await videoProcessor.extractFrames();
+}
 
-    // Prepare to store all transcriptions
-    const transcriptions: { [service: string]: any } = {};
+/**
+ * Predicts the cost of the command from the media durations, without sending anything.
+ * Saved steps are not taken into account, so a resumed run costs less.
+ */
+async function printEstimate(videoFiles: string[], options: CliOptions, aiService: AIService, prices: PriceTable) {
+    const { command } = options;
+    const transcribers = command === 'transcribe' || command === 'run'
+        ? options.transcribers.map(service => {
+            const config = TranscriptionManager.getService(service).getOptions?.() || {};
+            return { service, model: typeof config.model === 'string' ? config.model : undefined };
+        })
+        : [];
+    const maxFrames = options.keyframes.maxFrames ?? DEFAULT_KEYFRAME_OPTIONS.maxFrames;
+
+    let total = 0;
+    const unpriced = new Set<string>();
+    console.log(`\n===== Cost estimate for ${videoFiles.length} media files =====`);
+    for (const videoPath of videoFiles) {
+        const duration = await getMediaDuration(videoPath);
+        if (duration === null) {
+            console.warn('\x1b[33m%s\x1b[0m', `${path.basename(videoPath)}: cannot read the duration, left out of the estimate`);
+            continue;
+        }
+        const isVideo = !isAudioFile(videoPath);
+        const transcriptions: string[] = options.transcribers.slice();
+        if (options.captions || (options.useSidecar && findSidecarSubtitles(videoPath))) {
+            transcriptions.push(HUMAN_TRANSCRIPTION_SOURCE);
+        }
+        if (options.consensus && options.transcribers.length >= 2) {
+            transcriptions.push(CONSENSUS_TRANSCRIPTION_SOURCE);
+        }
+        const analyzers = command === 'analyze' || command === 'run'
+            ? options.analyzers.map(name => {
+                const provider = AnalysisManager.getProvider(name);
+                const budget = provider.promptBudget ?? DEFAULT_PROMPT_BUDGET;
+                // Frames are 16:9 at most the budget's size
+                const imageTokens = options.includeImages && isVideo
+                    ? Math.min(budget.maxImages, maxFrames) * budget.imageTokens(budget.maxDimension, Math.round(budget.maxDimension * 9 / 16))
+                    : 0;
+                return { provider: name, model: provider.model, sectionTokens: aiService.getSectionLimit(name), imageTokens };
+            })
+            : [];
+
+        const lines = estimateVideo({ duration, isVideo, transcribers, transcriptions, analyzers }, prices);
+        const cost = lines.reduce((sum, line) => sum + (line.cost || 0), 0);
+        total += cost;
+        console.log(`\n${path.basename(videoPath)} (${(duration / 60).toFixed(1)} min): ${formatCost(cost)}`);
+        for (const line of lines) {
+            if (line.cost === null) {
+                unpriced.add(line.usage.model || line.usage.provider);
+            }
+            console.log(`- ${line.step}: ${line.cost === null ? 'no price' : formatCost(line.cost)}`);
+        }
+    }
 
-    // Step 3: Create transcriptions with each service
-    for (const service of transcriptionServices) {
-        console.log(`\n===== Transcribing with ${service} =====`);
-        try {
-            const timestamps = await TranscriptionManager.transcribe(audioPath, service);
-            transcriptions[service] = timestamps;
+    console.log(`\nEstimated total: ${formatCost(total)}`);
+    if (unpriced.size > 0) {
+        console.log(`Without a price: ${Array.from(unpriced).join(', ')}`);
+    }
+    if (options.maxCost !== undefined && total > options.maxCost) {
+        console.warn('\x1b[33m%s\x1b[0m', `The estimate is above --max-cost ${formatCost(options.maxCost)}: the run would stop before finishing`);
+    }
+}
 
-            // Save structured JSON transcription
-            await videoProcessor.saveTranscription(timestamps, service);
+async function processVideo(videoPath: string, options: CliOptions, run: RunContext) {
+    const { command, includeImages, outputDir } = options;
 
-            // Save raw text version of the transcription
-            await videoProcessor.saveRawTranscriptionText(timestamps, service);
+    // Check if video file size is within limits
+    try {
+        const stats = await fs.promises.stat(videoPath);
+        const fileSizeInMB = stats.size / (1024 * 1024);
 
-        } catch (error) {
-            console.error(`Error with ${service} transcription:`, error);
-            console.log(`Skipping ${service} transcription and continuing with others...`);
+        if (fileSizeInMB > MAX_VIDEO_SIZE_MB) {
+            console.warn('\x1b[33m%s\x1b[0m', `Warning: Video file is large (${Math.round(fileSizeInMB)}MB). Maximum recommended size is ${MAX_VIDEO_SIZE_MB}MB`);
+            console.log('Processing anyway, but this might take longer...');
         }
+    } catch (error: any) {
+        console.error('\x1b[31m%s\x1b[0m', `Error checking video file size: ${error.message}`);
+        console.log('Skipping this video and continuing with others...');
+        return;
     }
 
-    // Если ни один сервис транскрипции не удался, завершаем работу
-    if (Object.keys(transcriptions).length === 0) {
-        throw new Error('All transcription services failed. Cannot continue.');
-    }
-
-    // Step 4: For each transcription, run all AI analysis (skip if onlyTranscribe is true)
-    if (!onlyTranscribe) {
-        const includeImages = videoProcessor.getIncludeImages();
+    try {
+        // --force starts transcribe and run from an empty output directory
+        const processorOptions: ProcessOptions = {
+            videoPath,
+            includeImages,
+            outputDir,
+            clean: options.force && (command === 'transcribe' || command === 'run'),
+            keyframes: options.keyframes
+        };
+        const videoProcessor = new VideoProcessor(processorOptions);
+        if (videoProcessor.isAudioOnly() && includeImages) {
+            console.log('Audio file: no frames to extract, processing in audio-only mode');
+        }
 
-        for (const [service, timestamps] of Object.entries(transcriptions)) {
-            const serviceShortName = service === TranscriptionServiceType.OPENAI_WHISPER ? 'openai' : service === TranscriptionServiceType.AMAZON_TRANSCRIBE ? 'amazon' : 'assemblyai';
-            console.log(`\n===== Processing transcription from ${serviceShortName} =====`);
+        const captionsPath = options.captions || (options.useSidecar ? findSidecarSubtitles(videoPath) : null);
+        if (captionsPath && command !== 'export') {
+            console.log(`Using captions ${captionsPath} as the ${HUMAN_TRANSCRIPTION_SOURCE} transcription`);
+        }
 
-            // OpenAI Analysis
-            console.log('Analyzing with OpenAI...');
+        if (command === 'export') {
+            await exportVideo(videoProcessor, options.exportDir, options.subtitleFormats);
+        } else {
             try {
-                const openaiAnalysis = await aiService.analyzeWithOpenAI(timestamps, frames, includeImages);
-                await videoProcessor.saveAnalysis(openaiAnalysis, `openai_transcribed_by_${serviceShortName}`);
-            } catch (error) {
-                console.error(`Error with OpenAI analysis (${serviceShortName} transcription):`, error);
+                await processMatrix(videoProcessor, run, {
+                    transcribers: options.transcribers,
+                    analyzers: options.analyzers,
+                    transcribe: command !== 'analyze',
+                    analyze: command !== 'transcribe',
+                    resume: { force: options.force, redo: options.redo },
+                    useCache: options.useCache,
+                    diarize: options.diarize,
+                    speakers: options.speakers,
+                    segmentation: options.segmentation,
+                    chunking: options.chunking,
+                    consensus: options.consensus,
+                    subtitleFormats: options.subtitleFormats,
+                    captionsPath
+                });
+            } finally {
+                // Written even when a step failed: the calls made so far are paid for
+                await run.usage.save(path.join(videoProcessor.getOutputDirectory(), USAGE_FILE), path.basename(videoPath));
+                await run.manifest.saveVideo(path.basename(videoPath));
             }
+        }
 
-            // Anthropic Analysis
-            console.log('Analyzing with Anthropic Claude...');
-            try {
-                const anthropicAnalysis = await aiService.analyzeWithAnthropic(timestamps, frames, includeImages);
-                await videoProcessor.saveAnalysis(anthropicAnalysis, `anthropic_transcribed_by_${serviceShortName}`);
-            } catch (error) {
-                console.error(`Error with Anthropic analysis (${serviceShortName} transcription):`, error);
+        console.log(`\n✅ Completed processing ${path.basename(videoPath)}`);
+    } catch (error) {
+        console.error('\x1b[31m%s\x1b[0m', `Error during processing ${path.basename(videoPath)}:`);
+        if (error instanceof Error) {
+            console.error(error.message);
+            if (error.stack) {
+                console.error('\nStack trace:');
+                console.error(error.stack);
             }
+        } else {
+            console.error(error);
+        }
+        console.log('Continuing with next video...');
+    }
+}
 
-            // Gemini Analysis
-            console.log('Analyzing with Google Gemini...');
-            try {
-                const geminiAnalysis = await aiService.analyzeWithGemini(timestamps, frames, includeImages);
-                await videoProcessor.saveAnalysis(geminiAnalysis, `gemini_transcribed_by_${serviceShortName}`);
-            } catch (error) {
-                console.error(`Error with Gemini analysis (${serviceShortName} transcription):`, error);
-            }
+// Collects everything produced for one video into <exportDir>/<video>.json, plus <video>.<service>.<format> subtitles
+async function exportVideo(videoProcessor: VideoProcessor, exportDir: string, subtitleFormats: SubtitleFormat[]) {
+    const transcripts: { [service: string]: Transcript } = {};
+    const transcriptions: { [service: string]: Timestamp[] } = {};
+    for (const service of videoProcessor.getSavedTranscriptionServices()) {
+        const transcript = await videoProcessor.loadTranscription(service);
+        if (transcript) {
+            transcripts[service] = transcript;
+            transcriptions[service] = toTimestamps(transcript);
         }
-    } else {
-        console.log('\nSkipping AI analysis (running in transcription-only mode)');
     }
+    const lessons = await videoProcessor.loadSavedLessons();
 
-    console.log('\nProcessing completed successfully!');
-    console.log(`All files are saved in: ${videoProcessor.getOutputDirectory()}`);
+    if (Object.keys(transcriptions).length === 0 && Object.keys(lessons).length === 0) {
+        throw new Error(`Nothing to export in ${videoProcessor.getOutputDirectory()}`);
+    }
+
+    await fs.promises.mkdir(exportDir, { recursive: true });
+    const exportPath = path.join(exportDir, `${videoProcessor.getVideoName()}.json`);
+    await fs.promises.writeFile(exportPath, JSON.stringify({
+        video: path.basename(videoProcessor.getVideoPath()),
+        transcriptions,
+        lessons
+    }, null, 2), 'utf-8');
+
+    for (const [service, transcript] of Object.entries(transcripts)) {
+        for (const format of subtitleFormats) {
+            const subtitlePath = path.join(exportDir, `${videoProcessor.getVideoName()}.${service}.${format}`);
+            await fs.promises.writeFile(subtitlePath, renderSubtitles(transcript, format), 'utf-8');
+        }
+    }
 
-    // Сводка результатов
-    console.log('\n===== Results Summary =====');
-    console.log(`Total transcription services used: ${Object.keys(transcriptions).length}`);
+    console.log(`✅ Exported ${Object.keys(transcriptions).length} transcriptions and ${Object.keys(lessons).length} lessons to ${exportPath}`);
+}
 
-    // Получаем значение includeImages снова, так как оно может быть не видно в этом блоке
-    const includeImagesInSummary = videoProcessor.getIncludeImages();
+// Lists, shows or prunes entries of the transcription cache
+async function runCacheCommand(options: CliOptions) {
+    const cache = TranscriptionManager.getCache();
+    const { action, key, services, olderThanDays } = options.cache!;
 
-    if (!onlyTranscribe) {
-        for (const service of Object.keys(transcriptions)) {
-            const serviceShortName = service === TranscriptionServiceType.OPENAI_WHISPER ? 'openai' : service === TranscriptionServiceType.AMAZON_TRANSCRIBE ? 'amazon' : 'assemblyai';
-            console.log(`\nTranscription by ${serviceShortName}:`);
-            console.log(`- OpenAI analysis: analysis_openai_transcribed_by_${serviceShortName}${includeImagesInSummary ? '_with_images' : ''}.json`);
-            console.log(`- Anthropic analysis: analysis_anthropic_transcribed_by_${serviceShortName}${includeImagesInSummary ? '_with_images' : ''}.json`);
-            console.log(`- Gemini analysis: analysis_gemini_transcribed_by_${serviceShortName}${includeImagesInSummary ? '_with_images' : ''}.json`);
+    if (action === 'list') {
+        const entries = (await cache.list()).filter(entry => !services || services.includes(entry.service));
+        console.log(`Transcription cache: ${cache.getDirectory()} (${entries.length} entries)`);
+        for (const entry of entries) {
+            console.log(`${entry.key.slice(0, 12)}  ${entry.createdAt}  ${entry.service.padEnd(14)} ${String(entry.metadata.segments).padStart(5)} segments  ${path.basename(entry.metadata.sourceFile)}`);
         }
-    } else {
-        // В режиме только транскрипции показываем только файлы транскрипций
-        console.log('\nTranscription files created:');
-        for (const service of Object.keys(transcriptions)) {
-            const serviceShortName = service === TranscriptionServiceType.OPENAI_WHISPER ? 'openai' : service === TranscriptionServiceType.AMAZON_TRANSCRIBE ? 'amazon' : 'assemblyai';
-            console.log(`- transcription_${serviceShortName}.json`);
-            console.log(`- transcription_${serviceShortName}_raw.txt`);
+    } else if (action === 'inspect') {
+        if (!key) {
+            console.error('\x1b[31m%s\x1b[0m', 'Error: cache inspect needs a cache key');
+            process.exitCode = 1;
+            return;
         }
+        let entry;
+        try {
+            entry = await cache.find(key);
+        } catch (error: any) {
+            // An ambiguous prefix
+            console.error('\x1b[31m%s\x1b[0m', `Error: ${error.message}`);
+            process.exitCode = 1;
+            return;
+        }
+        if (!entry) {
+            console.error('\x1b[31m%s\x1b[0m', `Error: No cache entry matches "${key}"`);
+            process.exitCode = 1;
+            return;
+        }
+        console.log(JSON.stringify(entry, null, 2));
+    } else {
+        const removed = await cache.prune({ olderThanDays, services });
+        console.log(`Removed ${removed.length} cache entries from ${cache.getDirectory()}`);
     }
 }
 
-// Run the application 
-main().catch(console.error);
\ No newline at end of file
+// Prints what differs between two manifests, e.g. two runs of the same video
+async function runDiffCommand(options: CliOptions) {
+    const { before, after } = options.diff!;
+    let differences;
+    try {
+        differences = diffManifests(await loadManifest(before), await loadManifest(after));
+    } catch (error: any) {
+        console.error('\x1b[31m%s\x1b[0m', `Error reading the manifests: ${error.message}`);
+        process.exit(1);
+    }
+    if (differences.length === 0) {
+        console.log('No differences');
+        return;
+    }
+    console.log(formatManifestDiff(differences));
+    console.log(`\n${differences.length} differences`);
+}
+
+// Serves the HTTP API until Ctrl+C; media and jobs are kept in <output>/server, so queued jobs survive a restart
+async function runServeCommand(options: CliOptions, aiService: AIService, prices: PriceTable) {
+    const { port, host } = options.serve!;
+    RateLimitManager.configure(options.providerLimits);
+    const store = new JobStore(path.join(options.outputDir, 'server'));
+    const runner = new JobRunner(store, {
+        aiService,
+        concurrency: options.concurrency,
+        prices,
+        maxCost: options.maxCost,
+        tool: await getToolInfo()
+    });
+    const server = createApiServer(store, runner);
+
+    try {
+        await new Promise<void>((resolve, reject) => {
+            server.once('error', reject);
+            server.listen(port, host, resolve);
+        });
+    } catch (error: any) {
+        console.error('\x1b[31m%s\x1b[0m', `Error starting the server on ${host}:${port}: ${error.message}`);
+        process.exit(1);
+    }
+    if (!['127.0.0.1', 'localhost', '::1'].includes(host)) {
+        console.warn('\x1b[33m%s\x1b[0m', `Warning: the API has no authentication and listens on ${host}`);
+    }
+    console.log(`Listening on http://${host}:${port} (media and jobs in ${store.getDirectory()})`);
+    await runner.start();
+
+    // The running job is aborted and queued again; its completed steps are kept
+    process.once('SIGINT', () => {
+        console.warn('\x1b[33m%s\x1b[0m', 'Stopping the server (press Ctrl+C again to exit at once)...');
+        process.once('SIGINT', () => process.exit(130));
+        server.close();
+        server.closeAllConnections();
+        runner.stop().then(() => console.log('Server stopped'));
+    });
+}
+
+// Run the application
+main().catch(console.error);
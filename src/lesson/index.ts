@@ -0,0 +1,18 @@
+export {
+    Lesson,
+    LessonInfo,
+    MemoryCard,
+    QuizCard,
+    OpenEndedCard,
+    LessonValidationResult,
+    LessonAttempt,
+    LessonResult,
+    LessonSection,
+    SectionCards,
+    SectionCardsValidationResult,
+    CardLimits,
+    LESSON_LIMITS,
+    SECTION_CARD_LIMITS
+} from './types';
+export { extractJson, validateLesson, parseLesson, validateSectionCards, parseSectionCards } from './validator';
+export { JsonSchema, LESSON_JSON_SCHEMA, SECTION_CARDS_JSON_SCHEMA, toOpenAISchema, toAnthropicSchema, toGeminiSchema } from './schema';
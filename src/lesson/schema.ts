@@ -0,0 +1,142 @@
+import { Schema, SchemaType } from '@google/generative-ai';
+import { CardLimits, LESSON_LIMITS, SECTION_CARD_LIMITS } from './types';
+
+// The subset of JSON Schema used to describe a lesson
+export interface JsonSchema {
+    type: 'object' | 'array' | 'string' | 'integer' | 'number' | 'boolean';
+    description?: string;
+    properties?: { [name: string]: JsonSchema };
+    required?: string[];
+    additionalProperties?: boolean;
+    items?: JsonSchema;
+    minItems?: number;
+    maxItems?: number;
+    minLength?: number;
+    maxLength?: number;
+    minimum?: number;
+}
+
+function objectSchema(properties: { [name: string]: JsonSchema }, description?: string): JsonSchema {
+    return {
+        type: 'object',
+        description,
+        properties,
+        required: Object.keys(properties),
+        additionalProperties: false
+    };
+}
+
+function arraySchema(items: JsonSchema, limits: { min: number; max: number }, description?: string): JsonSchema {
+    return { type: 'array', description, items, minItems: limits.min, maxItems: limits.max };
+}
+
+const text = (description: string): JsonSchema => ({ type: 'string', description, minLength: 1 });
+
+// Memory, quiz and open-ended cards within the given limits
+function cardsSchema(limits: CardLimits): { [name: string]: JsonSchema } {
+    return {
+        memoryCards: arraySchema(objectSchema({
+            title: text('Key concept'),
+            description: {
+                type: 'string',
+                description: 'Explanation of the concept',
+                minLength: limits.memoryCardDescription.min,
+                maxLength: limits.memoryCardDescription.max
+            }
+        }), limits.memoryCards),
+        quizCards: arraySchema(objectSchema({
+            question: text('Quiz question'),
+            options: arraySchema(text('Answer option'), limits.quizOptions),
+            correctOptionIndex: { type: 'integer', description: 'Zero-based index of the correct option', minimum: 0 }
+        }), limits.quizCards),
+        openEndedCards: arraySchema(objectSchema({
+            question: text('Open-ended question'),
+            expectedAnswer: text('What a good answer should cover')
+        }), limits.openEndedCards)
+    };
+}
+
+/**
+ * Single source of truth for the lesson structure.
+ * Every provider gets a translation of this schema, so their outputs stay comparable.
+ */
+export const LESSON_JSON_SCHEMA: JsonSchema = objectSchema({
+    lessonInfo: objectSchema({
+        title: text('Lesson title'),
+        description: text('Short description reflecting the overall essence of the lesson')
+    }),
+    ...cardsSchema(LESSON_LIMITS)
+});
+
+// Cards proposed for one section of a long video
+export const SECTION_CARDS_JSON_SCHEMA: JsonSchema = objectSchema({
+    summary: text('What this section covers, in one or two sentences'),
+    ...cardsSchema(SECTION_CARD_LIMITS)
+});
+
+// Keywords OpenAI strict mode rejects; the validator still enforces them afterwards
+const OPENAI_UNSUPPORTED_KEYWORDS: (keyof JsonSchema)[] = ['minLength', 'maxLength'];
+
+/**
+ * Converts the lesson schema for OpenAI `json_schema` strict mode.
+ */
+export function toOpenAISchema(schema: JsonSchema = LESSON_JSON_SCHEMA): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(schema)) {
+        if (value === undefined || OPENAI_UNSUPPORTED_KEYWORDS.includes(key as keyof JsonSchema)) {
+            continue;
+        }
+        if (key === 'properties') {
+            result.properties = Object.fromEntries(
+                Object.entries(value as { [name: string]: JsonSchema }).map(([name, child]) => [name, toOpenAISchema(child)])
+            );
+        } else if (key === 'items') {
+            result.items = toOpenAISchema(value as JsonSchema);
+        } else {
+            result[key] = value;
+        }
+    }
+    return result;
+}
+
+/**
+ * Converts the lesson schema for Anthropic tool `input_schema`, which accepts plain JSON Schema.
+ */
+export function toAnthropicSchema(schema: JsonSchema = LESSON_JSON_SCHEMA): { type: 'object'; [key: string]: unknown } {
+    return JSON.parse(JSON.stringify(schema));
+}
+
+/**
+ * Converts the lesson schema for Gemini `responseSchema` (OpenAPI subset without length limits).
+ */
+export function toGeminiSchema(schema: JsonSchema = LESSON_JSON_SCHEMA): Schema {
+    const description = schema.description;
+    switch (schema.type) {
+        case 'object':
+            return {
+                type: SchemaType.OBJECT,
+                description,
+                properties: Object.fromEntries(
+                    Object.entries(schema.properties || {}).map(([name, child]) => [name, toGeminiSchema(child)])
+                ),
+                required: schema.required
+            };
+        case 'array':
+            return {
+                type: SchemaType.ARRAY,
+                description,
+                items: toGeminiSchema(schema.items!),
+                minItems: schema.minItems,
+                maxItems: schema.maxItems
+            };
+        case 'integer':
+            return { type: SchemaType.INTEGER, description };
+        case 'number':
+            return { type: SchemaType.NUMBER, description };
+        case 'boolean':
+            return { type: SchemaType.BOOLEAN, description };
+        case 'string':
+        default:
+            return { type: SchemaType.STRING, description };
+    }
+}
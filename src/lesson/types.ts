@@ -0,0 +1,89 @@
+// Limits from LESSON_SYSTEM_PROMPT, shared by the prompt, the validator and the schema
+export const LESSON_LIMITS = {
+    memoryCards: { min: 2, max: 7 },
+    memoryCardDescription: { min: 40, max: 150 },
+    quizCards: { min: 1, max: 3 },
+    quizOptions: { min: 2, max: 6 },
+    openEndedCards: { min: 1, max: 1 }
+};
+
+export type CardLimits = typeof LESSON_LIMITS;
+
+// Cards proposed for one section of a long video; the final lesson is picked from all sections
+export const SECTION_CARD_LIMITS: CardLimits = {
+    memoryCards: { min: 0, max: 4 },
+    memoryCardDescription: LESSON_LIMITS.memoryCardDescription,
+    quizCards: { min: 0, max: 2 },
+    quizOptions: LESSON_LIMITS.quizOptions,
+    openEndedCards: { min: 0, max: 1 }
+};
+
+export interface LessonInfo {
+    title: string;
+    description: string;
+}
+
+export interface MemoryCard {
+    title: string;
+    description: string;
+}
+
+export interface QuizCard {
+    question: string;
+    options: string[];
+    correctOptionIndex: number;
+}
+
+export interface OpenEndedCard {
+    question: string;
+    expectedAnswer: string;
+}
+
+export interface Lesson {
+    lessonInfo: LessonInfo;
+    memoryCards: MemoryCard[];
+    quizCards: QuizCard[];
+    openEndedCards: OpenEndedCard[];
+}
+
+// Candidate cards for one section of a long video
+export interface SectionCards {
+    summary: string;
+    memoryCards: MemoryCard[];
+    quizCards: QuizCard[];
+    openEndedCards: OpenEndedCard[];
+}
+
+export interface LessonValidationResult {
+    lesson: Lesson | null;
+    errors: string[];
+}
+
+// One answer received from a model, with the reasons it was rejected (empty if accepted)
+export interface LessonAttempt {
+    // Set for long videos: "section 2/5" or "reduce"
+    stage?: string;
+    attempt: number;
+    raw: string;
+    errors: string[];
+}
+
+export interface SectionCardsValidationResult {
+    cards: SectionCards | null;
+    errors: string[];
+}
+
+// Section of a long video and the cards proposed for it (null if the model gave no valid answer)
+export interface LessonSection {
+    start: number;
+    end: number;
+    cards: SectionCards | null;
+}
+
+export interface LessonResult {
+    provider: string;
+    lesson: Lesson | null;
+    attempts: LessonAttempt[];
+    // Present when the lesson was built section by section
+    sections?: LessonSection[];
+}
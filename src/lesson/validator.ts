@@ -0,0 +1,187 @@
+import { CardLimits, Lesson, LessonValidationResult, LESSON_LIMITS, SECTION_CARD_LIMITS, SectionCards, SectionCardsValidationResult } from './types';
+
+/**
+ * Extracts the JSON object from a model answer.
+ * Handles ```json fences and prose before or after the object.
+ */
+export function extractJson(raw: string): unknown {
+    const text = raw.trim();
+
+    // Prefer the content of a fenced code block if there is one
+    const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+    const candidate = fenced ? fenced[1].trim() : text;
+
+    try {
+        return JSON.parse(candidate);
+    } catch {
+        // Fall through to scanning for the outermost object
+    }
+
+    const start = candidate.indexOf('{');
+    if (start === -1) {
+        throw new Error('No JSON object found in the response');
+    }
+
+    // Walk to the matching closing brace, ignoring braces inside strings
+    let depth = 0;
+    let inString = false;
+    let escaped = false;
+    for (let i = start; i < candidate.length; i++) {
+        const char = candidate[i];
+        if (inString) {
+            if (escaped) {
+                escaped = false;
+            } else if (char === '\\') {
+                escaped = true;
+            } else if (char === '"') {
+                inString = false;
+            }
+            continue;
+        }
+
+        if (char === '"') {
+            inString = true;
+        } else if (char === '{') {
+            depth++;
+        } else if (char === '}') {
+            depth--;
+            if (depth === 0) {
+                return JSON.parse(candidate.slice(start, i + 1));
+            }
+        }
+    }
+
+    throw new Error('JSON object in the response is not closed (the answer may be truncated)');
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function checkString(value: unknown, path: string, errors: string[]): void {
+    if (typeof value !== 'string' || value.trim().length === 0) {
+        errors.push(`${path} must be a non-empty string`);
+    }
+}
+
+function checkArray(value: unknown, path: string, limits: { min: number; max: number }, errors: string[]): unknown[] {
+    if (!Array.isArray(value)) {
+        errors.push(`${path} must be an array`);
+        return [];
+    }
+    if (value.length < limits.min || value.length > limits.max) {
+        const expected = limits.min === limits.max ? `exactly ${limits.min}` : `${limits.min}-${limits.max}`;
+        errors.push(`${path} must contain ${expected} items (got ${value.length})`);
+    }
+    return value;
+}
+
+// Memory, quiz and open-ended cards, shared by whole lessons and section candidates
+function checkCards(value: Record<string, unknown>, limits: CardLimits, errors: string[]): void {
+    const memoryCards = checkArray(value.memoryCards, 'memoryCards', limits.memoryCards, errors);
+    memoryCards.forEach((card, i) => {
+        const path = `memoryCards[${i}]`;
+        if (!isObject(card)) {
+            errors.push(`${path} must be an object`);
+            return;
+        }
+        checkString(card.title, `${path}.title`, errors);
+        checkString(card.description, `${path}.description`, errors);
+        if (typeof card.description === 'string') {
+            const length = card.description.length;
+            const { min, max } = limits.memoryCardDescription;
+            if (length < min || length > max) {
+                errors.push(`${path}.description must be ${min}-${max} characters long (got ${length})`);
+            }
+        }
+    });
+
+    const quizCards = checkArray(value.quizCards, 'quizCards', limits.quizCards, errors);
+    quizCards.forEach((card, i) => {
+        const path = `quizCards[${i}]`;
+        if (!isObject(card)) {
+            errors.push(`${path} must be an object`);
+            return;
+        }
+        checkString(card.question, `${path}.question`, errors);
+        const options = checkArray(card.options, `${path}.options`, limits.quizOptions, errors);
+        options.forEach((option, j) => checkString(option, `${path}.options[${j}]`, errors));
+        const index = card.correctOptionIndex;
+        if (typeof index !== 'number' || !Number.isInteger(index) || index < 0 || index >= options.length) {
+            errors.push(`${path}.correctOptionIndex must be an integer index into options`);
+        }
+    });
+
+    const openEndedCards = checkArray(value.openEndedCards, 'openEndedCards', limits.openEndedCards, errors);
+    openEndedCards.forEach((card, i) => {
+        const path = `openEndedCards[${i}]`;
+        if (!isObject(card)) {
+            errors.push(`${path} must be an object`);
+            return;
+        }
+        checkString(card.question, `${path}.question`, errors);
+        checkString(card.expectedAnswer, `${path}.expectedAnswer`, errors);
+    });
+}
+
+/**
+ * Checks a parsed value against the Lesson model and the rules of LESSON_SYSTEM_PROMPT.
+ * Returns every violation found so they can be sent back to the model at once.
+ */
+export function validateLesson(value: unknown): LessonValidationResult {
+    const errors: string[] = [];
+
+    if (!isObject(value)) {
+        return { lesson: null, errors: ['The answer must be a JSON object'] };
+    }
+
+    if (!isObject(value.lessonInfo)) {
+        errors.push('lessonInfo must be an object with title and description');
+    } else {
+        checkString(value.lessonInfo.title, 'lessonInfo.title', errors);
+        checkString(value.lessonInfo.description, 'lessonInfo.description', errors);
+    }
+
+    checkCards(value, LESSON_LIMITS, errors);
+
+    if (errors.length > 0) {
+        return { lesson: null, errors };
+    }
+    return { lesson: value as unknown as Lesson, errors };
+}
+
+/**
+ * Extracts, parses and validates a raw model answer in one step.
+ */
+export function parseLesson(raw: string): LessonValidationResult {
+    let value: unknown;
+    try {
+        value = extractJson(raw);
+    } catch (error: any) {
+        return { lesson: null, errors: [error.message] };
+    }
+    return validateLesson(value);
+}
+
+/**
+ * Checks the cards proposed for one section of a long video against SECTION_CARD_LIMITS.
+ */
+export function validateSectionCards(value: unknown): SectionCardsValidationResult {
+    if (!isObject(value)) {
+        return { cards: null, errors: ['The answer must be a JSON object'] };
+    }
+    const errors: string[] = [];
+    checkString(value.summary, 'summary', errors);
+    checkCards(value, SECTION_CARD_LIMITS, errors);
+    return { cards: errors.length > 0 ? null : value as unknown as SectionCards, errors };
+}
+
+export function parseSectionCards(raw: string): SectionCardsValidationResult {
+    let value: unknown;
+    try {
+        value = extractJson(raw);
+    } catch (error: any) {
+        return { cards: null, errors: [error.message] };
+    }
+    return validateSectionCards(value);
+}
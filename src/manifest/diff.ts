@@ -0,0 +1,108 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ArtifactEntry, MANIFEST_FILE, Manifest, ManifestDifference, StepEntry, VideoManifest } from './types';
+
+// Fields compared per step; timings and the run that produced a step are expected to differ
+const STEP_FIELDS: (keyof StepEntry)[] = ['status', 'provider', 'model', 'promptHash', 'inputHash', 'retries', 'repairs', 'error'];
+
+/**
+ * Reads a manifest file, or the manifest.json of a video output directory or a run directory
+ * @throws Error if the file is missing or is not a manifest
+ */
+export async function loadManifest(location: string): Promise<Manifest> {
+    const filePath = fs.existsSync(location) && fs.statSync(location).isDirectory() ? path.join(location, MANIFEST_FILE) : location;
+    const value = JSON.parse(await fs.promises.readFile(filePath, 'utf-8'));
+    if (value?.version !== 1 || (value.kind !== 'video' && value.kind !== 'run')) {
+        throw new Error(`${filePath} is not a video or run manifest`);
+    }
+    return value;
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function artifactHashes(artifacts: ArtifactEntry[]): { [path: string]: string } {
+    return Object.fromEntries(artifacts.map(artifact => [artifact.path, artifact.sha256]));
+}
+
+/**
+ * Lists what differs between two manifests: tool and settings, videos and steps present in only one,
+ * then per step its provenance, its inputs and the hashes of its artifacts.
+ * Two video manifests are compared with each other even if the file names differ.
+ */
+export function diffManifests(before: Manifest, after: Manifest): ManifestDifference[] {
+    const differences: ManifestDifference[] = [];
+    const compare = (video: string | null, step: string | null, field: string, a: unknown, b: unknown) => {
+        if (!isEqual(a, b)) {
+            differences.push({ video, step, field, before: a, after: b });
+        }
+    };
+    // Objects are compared key by key, so the report names the setting or input that changed
+    const compareRecords = <T extends object>(video: string | null, step: string | null, field: string, a: Partial<T> = {}, b: Partial<T> = {}) => {
+        const keys = Array.from(new Set([...Object.keys(a), ...Object.keys(b)])).sort() as (keyof T)[];
+        for (const key of keys) {
+            compare(video, step, `${field}.${String(key)}`, a[key], b[key]);
+        }
+    };
+
+    compare(null, null, 'command', before.command, after.command);
+    compareRecords(null, null, 'tool', before.tool, after.tool);
+    compareRecords(null, null, 'settings', before.settings, after.settings);
+
+    const pairs: [string, VideoManifest | undefined, VideoManifest | undefined][] = [];
+    if (before.kind === 'video' && after.kind === 'video') {
+        compare(after.video, null, 'video', before.video, after.video);
+        pairs.push([after.video, before, after]);
+    } else {
+        const videosBefore = before.kind === 'run' ? before.videos : [before];
+        const videosAfter = after.kind === 'run' ? after.videos : [after];
+        const names = Array.from(new Set([...videosBefore, ...videosAfter].map(manifest => manifest.video))).sort();
+        for (const name of names) {
+            pairs.push([name, videosBefore.find(manifest => manifest.video === name), videosAfter.find(manifest => manifest.video === name)]);
+        }
+    }
+
+    for (const [video, a, b] of pairs) {
+        if (!a || !b) {
+            compare(video, null, 'video', a ? 'processed' : undefined, b ? 'processed' : undefined);
+            continue;
+        }
+        compare(video, null, 'videoHash', a.videoHash, b.videoHash);
+        const steps = Array.from(new Set([...a.steps, ...b.steps].map(entry => entry.step))).sort();
+        for (const step of steps) {
+            const stepA = a.steps.find(entry => entry.step === step);
+            const stepB = b.steps.find(entry => entry.step === step);
+            if (!stepA || !stepB) {
+                compare(video, step, 'step', stepA?.status, stepB?.status);
+                continue;
+            }
+            for (const field of STEP_FIELDS) {
+                compare(video, step, field, stepA[field], stepB[field]);
+            }
+            compareRecords(video, step, 'parameters', stepA.parameters, stepB.parameters);
+            compareRecords(video, step, 'inputs', stepA.inputs, stepB.inputs);
+            compareRecords(video, step, 'artifacts', artifactHashes(stepA.artifacts), artifactHashes(stepB.artifacts));
+        }
+    }
+    return differences;
+}
+
+// Hashes are shortened to 12 characters, like the cache keys
+function formatValue(value: unknown): string {
+    if (value === undefined) {
+        return '(none)';
+    }
+    if (typeof value === 'string' && /^[0-9a-f]{64}$/.test(value)) {
+        return value.slice(0, 12);
+    }
+    return JSON.stringify(value);
+}
+
+// One line per difference, e.g. "[lecture.mp4] analysis:openai:gemini model: "gpt-4o" -> "gpt-4o-2024-11-20""
+export function formatManifestDiff(differences: ManifestDifference[]): string {
+    return differences.map(difference => {
+        const scope = [difference.video !== null ? `[${difference.video}]` : '', difference.step || ''].filter(Boolean).join(' ');
+        return `${scope ? `${scope} ` : ''}${difference.field}: ${formatValue(difference.before)} -> ${formatValue(difference.after)}`;
+    }).join('\n');
+}
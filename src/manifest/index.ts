@@ -0,0 +1,15 @@
+export {
+    ArtifactEntry,
+    Manifest,
+    ManifestDifference,
+    RunInfo,
+    RunManifest,
+    StepEntry,
+    StepProvenance,
+    StepStatus,
+    ToolInfo,
+    VideoManifest,
+    MANIFEST_FILE
+} from './types';
+export { RunManifestRecorder, VideoManifestRecorder, StepTracker, StepDetails, getToolInfo } from './recorder';
+export { loadManifest, diffManifests, formatManifestDiff } from './diff';
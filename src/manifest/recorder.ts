@@ -0,0 +1,223 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { RunState } from '../runState';
+import { execFileAsync, hashFile } from '../utils';
+import {
+    ArtifactEntry,
+    MANIFEST_FILE,
+    RunInfo,
+    RunManifest,
+    StepEntry,
+    StepProvenance,
+    ToolInfo,
+    VideoManifest
+} from './types';
+
+/**
+ * Name and version from package.json, and the commit when the source is a git checkout,
+ * since model IDs and prompts change between commits
+ */
+export async function getToolInfo(): Promise<ToolInfo> {
+    const root = path.join(__dirname, '..', '..');
+    const tool: ToolInfo = { name: 'unknown', version: 'unknown', commit: null, node: process.version };
+    try {
+        const pkg = JSON.parse(await fs.promises.readFile(path.join(root, 'package.json'), 'utf-8'));
+        tool.name = pkg.name;
+        tool.version = pkg.version;
+    } catch (error) {
+        // Left unknown
+    }
+    try {
+        const { stdout } = await execFileAsync('git', ['rev-parse', 'HEAD'], { cwd: root });
+        tool.commit = stdout.trim() || null;
+    } catch (error) {
+        // Not a checkout, or git is not installed
+    }
+    return tool;
+}
+
+// Outcome of a step beyond its files
+export interface StepDetails {
+    repairs?: number;
+}
+
+// One running step: counts its retries and records its artifacts or its error
+export class StepTracker {
+    private retries = 0;
+    private startedAt = new Date();
+
+    constructor(private manifest: VideoManifestRecorder, readonly step: string, private provenance: StepProvenance) {}
+
+    // Passed as onRetry to the services and AIService
+    readonly onRetry = (): void => {
+        this.retries++;
+    };
+
+    async complete(outputs: string[], details: StepDetails = {}): Promise<void> {
+        this.manifest.set({
+            ...this.entry('completed'),
+            ...(details.repairs ? { repairs: details.repairs } : {}),
+            artifacts: await this.manifest.hashArtifacts(outputs)
+        });
+    }
+
+    fail(error: unknown): void {
+        this.manifest.set({ ...this.entry('failed'), error: error instanceof Error ? error.message : String(error) });
+    }
+
+    private entry(status: StepEntry['status']): StepEntry {
+        const finishedAt = new Date();
+        return {
+            step: this.step,
+            status,
+            runId: this.manifest.runId,
+            ...this.provenance,
+            startedAt: this.startedAt.toISOString(),
+            finishedAt: finishedAt.toISOString(),
+            durationMs: finishedAt.getTime() - this.startedAt.getTime(),
+            retries: this.retries,
+            artifacts: []
+        };
+    }
+}
+
+/**
+ * Provenance of everything in a video output directory, written to its manifest.json.
+ * Steps skipped as up to date keep the entry of the run that produced them;
+ * steps this run did not visit (e.g. analyses during transcribe) are kept while run_state.json still has them.
+ */
+export class VideoManifestRecorder {
+    private steps = new Map<string, StepEntry>();
+
+    private constructor(
+        private videoOutputDir: string,
+        private video: string,
+        private state: RunState,
+        private run: RunInfo,
+        private previous: Map<string, StepEntry>
+    ) {}
+
+    static async load(videoOutputDir: string, video: string, state: RunState, run: RunInfo): Promise<VideoManifestRecorder> {
+        const manifestPath = path.join(videoOutputDir, MANIFEST_FILE);
+        const previous = new Map<string, StepEntry>();
+        if (fs.existsSync(manifestPath)) {
+            try {
+                const manifest: VideoManifest = JSON.parse(await fs.promises.readFile(manifestPath, 'utf-8'));
+                manifest.steps.forEach(entry => previous.set(entry.step, entry));
+            } catch (error: any) {
+                console.warn(`Ignoring unreadable manifest ${manifestPath}: ${error.message}`);
+            }
+        }
+        return new VideoManifestRecorder(videoOutputDir, video, state, run, previous);
+    }
+
+    get runId(): string {
+        return this.run.runId;
+    }
+
+    /**
+     * Runs a step and records it: its artifacts once the task calls complete, or the error it throws
+     */
+    async track<T>(step: string, provenance: StepProvenance, task: (tracker: StepTracker) => Promise<T>): Promise<T> {
+        const tracker = new StepTracker(this, step, provenance);
+        try {
+            return await task(tracker);
+        } catch (error) {
+            tracker.fail(error);
+            throw error;
+        }
+    }
+
+    // A step that is up to date: the entry of the run that produced it, or a new one for results older than manifests
+    async reuse(step: string, provenance: StepProvenance, outputs: string[]): Promise<void> {
+        const previous = this.previous.get(step);
+        if (previous && previous.status !== 'failed' && previous.inputHash === provenance.inputHash) {
+            this.set({ ...previous, status: 'reused' });
+            return;
+        }
+        this.set({
+            step,
+            status: 'reused',
+            runId: null,
+            ...provenance,
+            finishedAt: this.state.getRecord(step)?.completedAt,
+            retries: 0,
+            artifacts: await this.hashArtifacts(outputs)
+        });
+    }
+
+    set(entry: StepEntry): void {
+        this.steps.set(entry.step, entry);
+    }
+
+    async hashArtifacts(outputs: string[]): Promise<ArtifactEntry[]> {
+        const artifacts: ArtifactEntry[] = [];
+        for (const output of outputs) {
+            const filePath = path.isAbsolute(output) ? output : path.join(this.videoOutputDir, output);
+            const stat = await fs.promises.stat(filePath).catch(() => null);
+            if (stat && stat.isFile()) {
+                artifacts.push({ path: path.relative(this.videoOutputDir, filePath), sha256: await hashFile(filePath), bytes: stat.size });
+            }
+        }
+        return artifacts;
+    }
+
+    async save(): Promise<VideoManifest> {
+        const steps = new Map(this.steps);
+        for (const [step, entry] of this.previous) {
+            if (!steps.has(step) && entry.status !== 'failed' && this.state.getRecord(step)?.inputHash === entry.inputHash) {
+                steps.set(step, entry);
+            }
+        }
+        const manifest: VideoManifest = {
+            version: 1,
+            kind: 'video',
+            ...this.run,
+            video: this.video,
+            videoHash: this.state.getVideoHash(),
+            updatedAt: new Date().toISOString(),
+            // Sorted, so the file does not depend on the order the steps finished in
+            steps: Array.from(steps.keys()).sort().map(step => steps.get(step)!)
+        };
+        await fs.promises.writeFile(path.join(this.videoOutputDir, MANIFEST_FILE), JSON.stringify(manifest, null, 2), 'utf-8');
+        return manifest;
+    }
+}
+
+// Collects the manifests of all videos of a run into <output>/runs/<run>/manifest.json
+export class RunManifestRecorder {
+    private open = new Map<string, VideoManifestRecorder>();
+    private videos: VideoManifest[] = [];
+    private startedAt = new Date().toISOString();
+
+    constructor(readonly info: RunInfo) {}
+
+    async openVideo(videoOutputDir: string, video: string, state: RunState): Promise<VideoManifestRecorder> {
+        const recorder = await VideoManifestRecorder.load(videoOutputDir, video, state, this.info);
+        this.open.set(video, recorder);
+        return recorder;
+    }
+
+    // Writes the manifest of a video opened by openVideo; nothing to do if the video failed before that
+    async saveVideo(video: string): Promise<void> {
+        const recorder = this.open.get(video);
+        if (recorder) {
+            this.open.delete(video);
+            this.videos.push(await recorder.save());
+        }
+    }
+
+    async save(filePath: string): Promise<RunManifest> {
+        const manifest: RunManifest = {
+            version: 1,
+            kind: 'run',
+            ...this.info,
+            startedAt: this.startedAt,
+            finishedAt: new Date().toISOString(),
+            videos: [...this.videos].sort((a, b) => a.video.localeCompare(b.video))
+        };
+        await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.promises.writeFile(filePath, JSON.stringify(manifest, null, 2), 'utf-8');
+        return manifest;
+    }
+}
@@ -0,0 +1,92 @@
+// Provenance of a video (in its output directory) or of a run (in <output>/runs/<run>/)
+export const MANIFEST_FILE = 'manifest.json';
+
+// completed: ran in this run; reused: up to date from an earlier run; failed: ran and produced nothing
+export type StepStatus = 'completed' | 'reused' | 'failed';
+
+export interface ArtifactEntry {
+    // Relative to the video output directory
+    path: string;
+    sha256: string;
+    bytes: number;
+}
+
+// What a step was asked to do; steps with the same provenance and inputs are expected to produce the same artifacts
+export interface StepProvenance {
+    // Transcription service or analysis provider
+    provider?: string;
+    model?: string;
+    // Hash of the instructions sent to a language model
+    promptHash?: string;
+    // Settings that change the result, e.g. diarization or the section size of long transcripts
+    parameters?: { [name: string]: unknown };
+    // Hashes of what the step consumed, by name, e.g. { audio: "...", "transcription:openai": "..." }
+    inputs?: { [name: string]: string };
+    // Hash of all of the above, as recorded in run_state.json
+    inputHash?: string;
+}
+
+export interface StepEntry extends StepProvenance {
+    // Step key, e.g. analysis:anthropic:gemini
+    step: string;
+    status: StepStatus;
+    // Run that produced the artifacts; earlier than the manifest's run for reused steps
+    runId: string | null;
+    startedAt?: string;
+    finishedAt?: string;
+    durationMs?: number;
+    // Requests that failed and were sent again
+    retries: number;
+    // Answers rejected by the lesson validator and sent back for repair
+    repairs?: number;
+    error?: string;
+    artifacts: ArtifactEntry[];
+}
+
+export interface ToolInfo {
+    name: string;
+    version: string;
+    // Git commit of the source, when run from a checkout
+    commit: string | null;
+    node: string;
+}
+
+// What every video of a run shares
+export interface RunInfo {
+    runId: string;
+    command: string;
+    tool: ToolInfo;
+    // Options of the command line that change the results
+    settings: { [name: string]: unknown };
+}
+
+export interface VideoManifest extends RunInfo {
+    version: 1;
+    kind: 'video';
+    video: string;
+    videoHash: string;
+    updatedAt: string;
+    // Sorted by step key
+    steps: StepEntry[];
+}
+
+export interface RunManifest extends RunInfo {
+    version: 1;
+    kind: 'run';
+    startedAt: string;
+    finishedAt: string;
+    videos: VideoManifest[];
+}
+
+export type Manifest = VideoManifest | RunManifest;
+
+// One field that differs between two manifests; undefined where a side does not have it
+export interface ManifestDifference {
+    // Video name, or null for the run as a whole
+    video: string | null;
+    // Step key, or null for the run or video settings
+    step: string | null;
+    field: string;
+    before: unknown;
+    after: unknown;
+}
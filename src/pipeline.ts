@@ -0,0 +1,484 @@
+import * as path from 'path';
+import { AIService } from './aiService';
+import { VideoProcessor } from './videoProcessor';
+import { hashFile, hashValues } from './utils';
+import { TranscriptionManager, TranscriptionServiceType, Transcript, SegmenterOptions, ChunkingOptions, fromTimestamps, toTimestamps } from './transcription';
+import { AnalysisManager } from './analysis';
+import { RunState, ResumeOptions } from './runState';
+import { SubtitleFormat, parseSubtitleFile, HUMAN_TRANSCRIPTION_SOURCE } from './subtitles';
+import { CONSENSUS_TRANSCRIPTION_SOURCE, compareTranscripts } from './comparison';
+import { Keyframe, DEFAULT_KEYFRAME_OPTIONS, KEYFRAME_MANIFEST } from './frames';
+import { Scheduler } from './scheduler';
+import { USAGE_FILE, UsageLedger, formatCost } from './usage';
+import { RunManifestRecorder, VideoManifestRecorder } from './manifest';
+
+// Environment variables each transcriber and analyzer needs; unlisted providers need none
+const TRANSCRIBER_ENV_VARS: { [service: string]: string[] } = {
+    [TranscriptionServiceType.OPENAI_WHISPER]: ['OPENAI_API_KEY'],
+    [TranscriptionServiceType.AMAZON_TRANSCRIBE]: ['AWS_ACCESS_KEY_ID', 'AWS_SECRET_ACCESS_KEY', 'AWS_S3_BUCKET'],
+    [TranscriptionServiceType.ASSEMBLY_AI]: ['ASSEMBLYAI_API_KEY'],
+    [TranscriptionServiceType.GEMINI]: ['GOOGLE_API_KEY'],
+    [TranscriptionServiceType.LOCAL_WHISPER]: ['LOCAL_WHISPER_MODEL']
+};
+
+const ANALYZER_ENV_VARS: { [provider: string]: string[] } = {
+    openai: ['OPENAI_API_KEY'],
+    anthropic: ['ANTHROPIC_API_KEY'],
+    gemini: ['GOOGLE_API_KEY']
+};
+
+// Environment variables the selected services need that are not set
+export function getMissingEnvVars(transcribers: string[], analyzers: string[]): string[] {
+    const required = new Set<string>();
+    transcribers.forEach(service => (TRANSCRIBER_ENV_VARS[service] || []).forEach(name => required.add(name)));
+    analyzers.forEach(provider => (ANALYZER_ENV_VARS[provider] || []).forEach(name => required.add(name)));
+    return Array.from(required).filter(name => !process.env[name]);
+}
+
+export interface MatrixOptions {
+    transcribers: TranscriptionServiceType[];
+    analyzers: string[];
+    // Run the transcribers; otherwise transcriptions saved by an earlier run are used
+    transcribe: boolean;
+    analyze: boolean;
+    resume: ResumeOptions;
+    useCache: boolean;
+    diarize: boolean;
+    speakers?: number;
+    segmentation?: SegmenterOptions;
+    chunking: Partial<ChunkingOptions>;
+    consensus: boolean;
+    subtitleFormats: SubtitleFormat[];
+    // Existing captions imported as the "human" transcription
+    captionsPath: string | null;
+}
+
+// What the videos of one run share
+export interface RunContext {
+    aiService: AIService;
+    scheduler: Scheduler;
+    usage: UsageLedger;
+    manifest: RunManifestRecorder;
+    // Aborted by Ctrl+C or --timeout
+    signal: AbortSignal;
+}
+
+// Новая функция для генерации матрицы результатов
+export async function processMatrix(
+    videoProcessor: VideoProcessor,
+    run: RunContext,
+    options: MatrixOptions
+) {
+    const { aiService, scheduler } = run;
+    const video = path.basename(videoProcessor.getVideoPath());
+    console.log('Processing video...');
+    console.log(`Output directory: ${videoProcessor.getOutputDirectory()}`);
+
+    // Completed steps of earlier runs are skipped unless their inputs changed
+    const state = await RunState.load(videoProcessor.getOutputDirectory(), videoProcessor.getVideoPath(), options.resume);
+    const manifest = await run.manifest.openVideo(videoProcessor.getOutputDirectory(), video, state);
+
+    // Prepare to store all transcriptions
+    const transcriptions: { [service: string]: Transcript } = {};
+
+    // Captions cost nothing to import, so they are picked up by analyze as well
+    if (options.captionsPath) {
+        const transcript = await importCaptions(videoProcessor, state, manifest, options.captionsPath, options.subtitleFormats);
+        if (transcript) {
+            transcriptions[HUMAN_TRANSCRIPTION_SOURCE] = transcript;
+        }
+    }
+
+    // Frames only depend on the video, so they are extracted while the audio is transcribed
+    const includeImages = videoProcessor.getIncludeImages();
+    const framesPromise = options.analyze && includeImages
+        ? loadOrExtractFrames(videoProcessor, state, manifest, scheduler)
+        : Promise.resolve<Keyframe[]>([]);
+    // Awaited before the analysis; until then a failure must not count as unhandled
+    framesPromise.catch(() => undefined);
+
+    if (options.transcribe) {
+        // Step 1: Extract audio (not needed when only captions are used)
+        let audioPath = '';
+        const audioProvenance = { inputs: { video: state.getVideoHash() }, inputHash: state.getVideoHash() };
+        if (options.transcribers.length === 0) {
+            console.log('No transcribers selected, skipping audio extraction...');
+        } else if (state.needsRun('audio', state.getVideoHash())) {
+            audioPath = await scheduler.run(video, 'audio', () => manifest.track('audio', audioProvenance, async step => {
+                console.log('Extracting audio...');
+                const extracted = await videoProcessor.extractAudio();
+                await state.complete('audio', state.getVideoHash(), [extracted]);
+                await step.complete([extracted]);
+                return extracted;
+            }));
+        } else {
+            console.log('Audio already extracted, skipping...');
+            audioPath = state.getOutputs('audio')[0];
+            await manifest.reuse('audio', audioProvenance, [audioPath]);
+        }
+        const audioHash = audioPath ? await hashFile(audioPath) : '';
+
+        // Settings that change a transcription; only those in use are hashed, so plain runs keep the hashes of earlier runs
+        const transcriptionParams: { [name: string]: unknown } = {};
+        if (options.diarize) {
+            transcriptionParams.diarize = { speakers: options.speakers ?? null };
+        }
+        if (options.segmentation) {
+            transcriptionParams.segmentation = options.segmentation;
+        }
+        // How many chunks run at once does not change the result
+        if (options.chunking.maxDuration) {
+            transcriptionParams.chunkDuration = options.chunking.maxDuration;
+        }
+
+        // Step 2: Create transcriptions with all services at once; they are kept in the order of --transcribers, not of completion
+        const results = await Promise.all(options.transcribers.map(service => {
+            const inputHash = Object.keys(transcriptionParams).length > 0
+                ? hashValues(audioHash, service, transcriptionParams)
+                : hashValues(audioHash, service);
+            return transcribeWithService(videoProcessor, state, manifest, run, service, audioPath, { audioHash, params: transcriptionParams, inputHash }, options);
+        }));
+        options.transcribers.forEach((service, i) => {
+            const transcript = results[i];
+            if (transcript) {
+                transcriptions[service] = transcript;
+            }
+        });
+
+        // Если ни один сервис транскрипции не удался, завершаем работу
+        if (Object.keys(transcriptions).length === 0) {
+            throw new Error('All transcription services failed. Cannot continue.');
+        }
+    } else {
+        // Analyze only: pick up the transcriptions of an earlier run
+        for (const service of videoProcessor.getSavedTranscriptionServices()) {
+            const transcript = await videoProcessor.loadTranscription(service);
+            if (transcript) {
+                transcriptions[service] = transcript;
+            }
+        }
+
+        if (Object.keys(transcriptions).length === 0) {
+            throw new Error(`No saved transcriptions in ${videoProcessor.getOutputDirectory()}. Run the transcribe command first.`);
+        }
+        console.log(`Loaded saved transcriptions: ${Object.keys(transcriptions).join(', ')}`);
+    }
+
+    // Step 3: Compare the transcriptions; an earlier consensus is a result, not a source
+    const sources = Object.keys(transcriptions).filter(source => source !== CONSENSUS_TRANSCRIPTION_SOURCE);
+    if (sources.length >= 2) {
+        const consensus = await scheduler.run(video, 'comparison', () => compareTranscriptions(
+            videoProcessor,
+            state,
+            manifest,
+            Object.fromEntries(sources.map(source => [source, transcriptions[source]])),
+            options
+        ));
+        if (consensus) {
+            transcriptions[CONSENSUS_TRANSCRIPTION_SOURCE] = consensus;
+        }
+    }
+
+    // Step 4: Run every analyzer on every transcription, all at once within the scheduler's limits
+    if (options.analyze) {
+        const frames = await framesPromise;
+        // Hashes of the frame contents; runs without images keep their earlier input hashes
+        const framesInput = frames.length > 0 ? frames.map(frame => frame.hash) : 0;
+
+        const analyses: Promise<void>[] = [];
+        for (const [service, transcript] of Object.entries(transcriptions)) {
+            const transcriptionHash = await hashFile(videoProcessor.getTranscriptionPath(service));
+            const timestamps = toTimestamps(transcript);
+
+            for (const provider of options.analyzers) {
+                const stepKey = `analysis:${provider}:${service}`;
+                // Lessons of long transcripts depend on the section size; short ones keep their earlier hashes
+                const sectionTokens = aiService.getSectionTokens(provider, timestamps);
+                const model = AnalysisManager.getProvider(provider).model;
+                const inputHash = hashValues(
+                    transcriptionHash, provider, model, includeImages, framesInput,
+                    ...(sectionTokens !== null ? [{ sectionTokens }] : [])
+                );
+                const provenance = {
+                    provider,
+                    model,
+                    promptHash: aiService.getPromptHash(sectionTokens !== null, includeImages),
+                    parameters: { includeImages, frames: frames.length, sectionTokens },
+                    inputs: {
+                        [`transcription:${service}`]: transcriptionHash,
+                        ...(frames.length > 0 ? { frames: hashValues(framesInput) } : {})
+                    },
+                    inputHash
+                };
+                if (!state.needsRun(stepKey, inputHash)) {
+                    console.log(`Analysis of the ${service} transcription by ${provider} is up to date, skipping...`);
+                    await manifest.reuse(stepKey, provenance, state.getOutputs(stepKey));
+                    continue;
+                }
+
+                analyses.push(scheduler.run(video, stepKey, () => manifest.track(stepKey, provenance, async step => {
+                    console.log(`Analyzing the ${service} transcription with ${provider}...`);
+                    const analysis = await aiService.analyze(provider, timestamps, frames, includeImages, {
+                        signal: run.signal,
+                        usage: run.usage.forStep(video, stepKey),
+                        onRetry: step.onRetry
+                    });
+                    const analysisPath = await videoProcessor.saveAnalysis(analysis, `${provider}_transcribed_by_${service}`);
+                    await state.complete(stepKey, inputHash, [analysisPath]);
+                    await step.complete([analysisPath], {
+                        repairs: analysis.attempts.filter(attempt => attempt.attempt > 1).length
+                    });
+                })).catch(error => {
+                    console.error(`Error with ${provider} analysis (${service} transcription):`, error);
+                }));
+            }
+        }
+        await Promise.all(analyses);
+    } else {
+        console.log('\nSkipping AI analysis (running in transcription-only mode)');
+    }
+
+    console.log('\nProcessing completed successfully!');
+    console.log(`All files are saved in: ${videoProcessor.getOutputDirectory()}`);
+
+    // Сводка результатов
+    console.log('\n===== Results Summary =====');
+    console.log(`Total transcription services used: ${Object.keys(transcriptions).length}`);
+    console.log(`Cost of this run's requests: ${formatCost(run.usage.summarize(video).cost)} (see ${USAGE_FILE})`);
+
+    const includeImagesInSummary = videoProcessor.getIncludeImages();
+
+    if (options.analyze) {
+        for (const service of Object.keys(transcriptions)) {
+            console.log(`\nTranscription by ${service}:`);
+            for (const provider of options.analyzers) {
+                console.log(`- ${provider} analysis: analysis_${provider}_transcribed_by_${service}${includeImagesInSummary ? '_with_images' : ''}.json`);
+            }
+        }
+    } else {
+        // В режиме только транскрипции показываем только файлы транскрипций
+        console.log('\nTranscription files created:');
+        for (const service of Object.keys(transcriptions)) {
+            console.log(`- transcription_${service}.json`);
+            console.log(`- transcription_${service}_raw.txt`);
+            for (const format of options.subtitleFormats) {
+                console.log(`- transcription_${service}.${format}`);
+            }
+        }
+    }
+}
+
+/**
+ * Transcribes with one service unless an earlier run did it with the same inputs
+ * @returns The transcript, or null if the service failed
+ */
+async function transcribeWithService(
+    videoProcessor: VideoProcessor,
+    state: RunState,
+    manifest: VideoManifestRecorder,
+    run: RunContext,
+    service: TranscriptionServiceType,
+    audioPath: string,
+    { audioHash, params, inputHash }: { audioHash: string; params: { [name: string]: unknown }; inputHash: string },
+    options: MatrixOptions
+): Promise<Transcript | null> {
+    const stepKey = `transcription:${service}`;
+    try {
+        const transcriptionService = TranscriptionManager.getService(service);
+        const serviceOptions = transcriptionService.getOptions?.() || {};
+        const prompt = transcriptionService.getPrompt?.({ diarize: options.diarize, speakers: options.speakers });
+        const provenance = {
+            provider: service,
+            model: typeof serviceOptions.model === 'string' ? serviceOptions.model : undefined,
+            promptHash: prompt !== undefined ? hashValues(prompt) : undefined,
+            parameters: { ...serviceOptions, ...params },
+            inputs: { audio: audioHash },
+            inputHash
+        };
+
+        if (!state.needsRun(stepKey, inputHash)) {
+            const saved = await videoProcessor.loadTranscription(service);
+            if (saved) {
+                console.log(`Transcription from ${service} is up to date, skipping...`);
+                // Subtitles are cheap to render, so a changed --subtitles list takes effect without re-transcribing
+                await videoProcessor.saveSubtitles(saved, service, options.subtitleFormats);
+                await manifest.reuse(stepKey, provenance, state.getOutputs(stepKey));
+                return saved;
+            }
+        }
+
+        const video = path.basename(videoProcessor.getVideoPath());
+        return await run.scheduler.run(video, stepKey, () => manifest.track(stepKey, provenance, async step => {
+            console.log(`\n===== Transcribing with ${service} =====`);
+            // A forced step must not be answered from the transcription cache
+            const { transcript, quality } = await TranscriptionManager.transcribeWithReport(audioPath, service, {
+                useCache: options.useCache,
+                refresh: state.isRecomputeRequested(stepKey),
+                source: videoProcessor.getMediaSource(),
+                diarize: options.diarize,
+                speakers: options.speakers,
+                segmentation: options.segmentation,
+                chunking: options.chunking,
+                signal: run.signal,
+                usage: run.usage.forStep(video, stepKey),
+                onRetry: step.onRetry
+            });
+
+            // Save structured JSON transcription
+            const transcriptionPaths = await videoProcessor.saveTranscription(transcript, service);
+            const qualityPath = await videoProcessor.saveQualityReport(quality, service);
+
+            // Save raw text version of the transcription
+            await videoProcessor.saveRawTranscriptionText(transcript.segments, service);
+
+            const subtitlePaths = await videoProcessor.saveSubtitles(transcript, service, options.subtitleFormats);
+
+            const outputs = [...transcriptionPaths, qualityPath, ...subtitlePaths];
+            await state.complete(stepKey, inputHash, outputs);
+            await step.complete(outputs);
+            return transcript;
+        }));
+    } catch (error) {
+        console.error(`Error with ${service} transcription:`, error);
+        console.log(`Skipping ${service} transcription and continuing with others...`);
+        return null;
+    }
+}
+
+// Keyframes of the video, extracted unless an earlier run saved them with the same settings
+async function loadOrExtractFrames(
+    videoProcessor: VideoProcessor,
+    state: RunState,
+    manifest: VideoManifestRecorder,
+    scheduler: Scheduler
+): Promise<Keyframe[]> {
+    const keyframeOptions = { ...DEFAULT_KEYFRAME_OPTIONS, ...videoProcessor.getKeyframeOptions() };
+    const framesHash = hashValues(state.getVideoHash(), 'keyframes', keyframeOptions);
+    const provenance = { parameters: keyframeOptions, inputs: { video: state.getVideoHash() }, inputHash: framesHash };
+    const saved = state.needsRun('frames', framesHash) ? null : await videoProcessor.loadFrames();
+    if (saved) {
+        console.log('Frames already extracted, skipping...');
+        await manifest.reuse('frames', provenance, state.getOutputs('frames'));
+        return saved;
+    }
+    return scheduler.run(path.basename(videoProcessor.getVideoPath()), 'frames', () => manifest.track('frames', provenance, async step => {
+        console.log('Extracting keyframes...');
+        const frames = await videoProcessor.extractFrames();
+        const outputs = [...frames.map(frame => frame.path), path.join(videoProcessor.getFramesDirectory(), KEYFRAME_MANIFEST)];
+        await state.complete('frames', framesHash, outputs);
+        await step.complete(outputs);
+        return frames;
+    }));
+}
+
+/**
+ * Imports .srt/.vtt captions as the "human" transcription, saved like any other service
+ * @returns The parsed transcript, or null if the file could not be read
+ */
+async function importCaptions(
+    videoProcessor: VideoProcessor,
+    state: RunState,
+    manifest: VideoManifestRecorder,
+    captionsPath: string,
+    subtitleFormats: SubtitleFormat[]
+): Promise<Transcript | null> {
+    const stepKey = `transcription:${HUMAN_TRANSCRIPTION_SOURCE}`;
+    try {
+        const inputHash = await hashFile(captionsPath);
+        const provenance = { provider: HUMAN_TRANSCRIPTION_SOURCE, parameters: { file: path.basename(captionsPath) }, inputs: { captions: inputHash }, inputHash };
+        if (!state.needsRun(stepKey, inputHash)) {
+            const saved = await videoProcessor.loadTranscription(HUMAN_TRANSCRIPTION_SOURCE);
+            if (saved) {
+                console.log(`Captions from ${path.basename(captionsPath)} are up to date, skipping...`);
+                await manifest.reuse(stepKey, provenance, state.getOutputs(stepKey));
+                return saved;
+            }
+        }
+
+        return await manifest.track(stepKey, provenance, async step => {
+            console.log(`\n===== Importing captions from ${path.basename(captionsPath)} =====`);
+            const transcript = fromTimestamps(await parseSubtitleFile(captionsPath));
+            const transcriptionPaths = await videoProcessor.saveTranscription(transcript, HUMAN_TRANSCRIPTION_SOURCE);
+            await videoProcessor.saveRawTranscriptionText(transcript.segments, HUMAN_TRANSCRIPTION_SOURCE);
+            const subtitlePaths = await videoProcessor.saveSubtitles(transcript, HUMAN_TRANSCRIPTION_SOURCE, subtitleFormats);
+            await state.complete(stepKey, inputHash, [...transcriptionPaths, ...subtitlePaths]);
+            await step.complete([...transcriptionPaths, ...subtitlePaths]);
+            return transcript;
+        });
+    } catch (error: any) {
+        console.error('\x1b[31m%s\x1b[0m', `Error importing captions ${captionsPath}: ${error.message}`);
+        console.log('Continuing without the human transcription...');
+        return null;
+    }
+}
+
+/**
+ * Writes comparison.json and, with --consensus, the consensus transcription saved like any other service.
+ * Imported captions are the reference: they are compared but do not vote.
+ * @returns The consensus transcript, or null if none was requested or the comparison failed
+ */
+async function compareTranscriptions(
+    videoProcessor: VideoProcessor,
+    state: RunState,
+    manifest: VideoManifestRecorder,
+    transcriptions: { [source: string]: Transcript },
+    options: MatrixOptions
+): Promise<Transcript | null> {
+    const stepKey = 'comparison';
+    try {
+        const sourceHashes: string[] = [];
+        const inputs: { [name: string]: string } = {};
+        for (const source of Object.keys(transcriptions)) {
+            const hash = await hashFile(videoProcessor.getTranscriptionPath(source));
+            sourceHashes.push(source, hash);
+            inputs[`transcription:${source}`] = hash;
+        }
+        const inputHash = options.consensus
+            ? hashValues(sourceHashes, { consensus: true, segmentation: options.segmentation ?? null })
+            : hashValues(sourceHashes);
+        const provenance = { parameters: { consensus: options.consensus, segmentation: options.segmentation ?? null }, inputs, inputHash };
+        if (!state.needsRun(stepKey, inputHash)) {
+            const saved = options.consensus ? await videoProcessor.loadTranscription(CONSENSUS_TRANSCRIPTION_SOURCE) : null;
+            if (!options.consensus || saved) {
+                console.log('Transcription comparison is up to date, skipping...');
+                await manifest.reuse(stepKey, provenance, state.getOutputs(stepKey));
+                return saved;
+            }
+        }
+
+        return await manifest.track(stepKey, provenance, async step => {
+            console.log(`\n===== Comparing transcriptions: ${Object.keys(transcriptions).join(', ')} =====`);
+            const { report, consensus } = compareTranscripts(transcriptions, {
+                reference: transcriptions[HUMAN_TRANSCRIPTION_SOURCE] ? HUMAN_TRANSCRIPTION_SOURCE : undefined,
+                consensus: options.consensus
+            }, options.segmentation);
+
+            if (report.reference) {
+                const rates = report.sources
+                    .filter(source => source !== report.reference)
+                    .map(source => `${source} ${(report.werMatrix[report.reference!][source] * 100).toFixed(1)}%`);
+                console.log(`WER against ${report.reference}: ${rates.join(', ')}`);
+            }
+            if (report.agreement !== null) {
+                console.log(`Agreement between transcribers: ${(report.agreement * 100).toFixed(1)}%, ${report.lowAgreement.length} low-agreement ranges`);
+            }
+            const outputs = [await videoProcessor.saveComparison(report)];
+
+            if (options.consensus && !consensus) {
+                console.log('A consensus transcript needs at least two transcribers besides the captions, skipping it...');
+            }
+            if (consensus) {
+                outputs.push(...await videoProcessor.saveTranscription(consensus, CONSENSUS_TRANSCRIPTION_SOURCE));
+                await videoProcessor.saveRawTranscriptionText(consensus.segments, CONSENSUS_TRANSCRIPTION_SOURCE);
+                outputs.push(...await videoProcessor.saveSubtitles(consensus, CONSENSUS_TRANSCRIPTION_SOURCE, options.subtitleFormats));
+            }
+            await state.complete(stepKey, inputHash, outputs);
+            await step.complete(outputs);
+            return consensus;
+        });
+    } catch (error: any) {
+        console.error('\x1b[31m%s\x1b[0m', `Error comparing transcriptions: ${error.message}`);
+        console.log('Continuing without the comparison...');
+        return null;
+    }
+}
@@ -0,0 +1,105 @@
+import { DeadlineExceededError } from './errors';
+
+// The reason of an aborted signal, or a plain AbortError when none was given
+function abortReason(signal: AbortSignal): unknown {
+    if (signal.reason !== undefined) {
+        return signal.reason;
+    }
+    const error = new Error('The operation was aborted');
+    error.name = 'AbortError';
+    return error;
+}
+
+export function throwIfAborted(signal?: AbortSignal): void {
+    if (signal?.aborted) {
+        throw abortReason(signal);
+    }
+}
+
+// Waits ms milliseconds; an abort ends the wait with the abort reason
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(abortReason(signal));
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(abortReason(signal!));
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+/**
+ * Stops waiting for a promise when the signal aborts, for SDK calls that take no signal.
+ * The call itself goes on in the background; its result is ignored.
+ */
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (!signal) {
+        return promise;
+    }
+    return new Promise((resolve, reject) => {
+        if (signal.aborted) {
+            reject(abortReason(signal));
+            return;
+        }
+        const onAbort = () => reject(abortReason(signal));
+        signal.addEventListener('abort', onAbort, { once: true });
+        promise.then(
+            value => {
+                signal.removeEventListener('abort', onAbort);
+                resolve(value);
+            },
+            error => {
+                signal.removeEventListener('abort', onAbort);
+                reject(error);
+            }
+        );
+    });
+}
+
+export interface Deadline {
+    // Aborts when the parent aborts or the time is up
+    signal: AbortSignal;
+    expired(): boolean;
+    // Stops the timer and the link to the parent
+    dispose(): void;
+}
+
+/**
+ * A signal that follows the parent and also aborts with a DeadlineExceededError after timeoutMs
+ * @param timeoutMs 0 for no deadline
+ */
+export function createDeadline(timeoutMs: number, parent?: AbortSignal, label: string = 'The operation'): Deadline {
+    const controller = new AbortController();
+    let expired = false;
+    const onParentAbort = () => controller.abort(abortReason(parent!));
+    if (parent?.aborted) {
+        onParentAbort();
+    } else {
+        parent?.addEventListener('abort', onParentAbort, { once: true });
+    }
+
+    const timer = timeoutMs > 0
+        ? setTimeout(() => {
+            expired = true;
+            controller.abort(new DeadlineExceededError(`${label} did not finish within ${Math.round(timeoutMs / 1000)}s`));
+        }, timeoutMs)
+        : null;
+
+    return {
+        signal: controller.signal,
+        expired: () => expired,
+        dispose: () => {
+            if (timer) {
+                clearTimeout(timer);
+            }
+            parent?.removeEventListener('abort', onParentAbort);
+        }
+    };
+}
@@ -0,0 +1,150 @@
+import { ErrorClassification } from './types';
+
+// An error no retry can fix: a bad key, a rejected request, a job the provider gave up on
+export class FatalError extends Error {
+    constructor(message: string, readonly cause?: unknown) {
+        super(message);
+        this.name = 'FatalError';
+    }
+}
+
+// A response with an error status from an API called without an SDK
+export class HttpError extends Error {
+    constructor(message: string, readonly status: number, readonly headers: Record<string, string> = {}) {
+        super(message);
+        this.name = 'HttpError';
+    }
+}
+
+// The deadline of a call (with its retries) or of the whole run passed
+export class DeadlineExceededError extends Error {
+    constructor(message: string, readonly cause?: unknown) {
+        super(message);
+        this.name = 'DeadlineExceededError';
+    }
+}
+
+const TRANSIENT_STATUSES = [408, 409, 425];
+// Network failures a later attempt may not hit (Node and undici codes)
+const TRANSIENT_CODES = [
+    'ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EPIPE', 'EAI_AGAIN', 'ENETUNREACH', 'EHOSTUNREACH',
+    'UND_ERR_SOCKET', 'UND_ERR_CONNECT_TIMEOUT', 'UND_ERR_HEADERS_TIMEOUT', 'UND_ERR_BODY_TIMEOUT'
+];
+const TRANSIENT_NAMES = ['APIConnectionError', 'APIConnectionTimeoutError', 'TimeoutError'];
+// Names of AWS SDK errors that mean the account is over its quota
+const THROTTLING_NAMES = ['ThrottlingException', 'TooManyRequestsException', 'LimitExceededException', 'SlowDown', 'RequestLimitExceeded'];
+// Errors SDKs throw when their request was cancelled through an AbortSignal
+const ABORT_NAMES = ['AbortError', 'APIUserAbortError', 'GoogleGenerativeAIAbortError'];
+
+export function isAbortError(error: unknown): boolean {
+    if (typeof error !== 'object' || error === null) {
+        return false;
+    }
+    const value = error as Record<string, unknown>;
+    return (typeof value.name === 'string' && ABORT_NAMES.includes(value.name)) || value.code === 'ABORT_ERR';
+}
+
+/**
+ * Milliseconds to wait from a Retry-After header: seconds or an HTTP date
+ * @returns undefined when the value is missing or not understood
+ */
+export function parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | undefined {
+    if (!value) {
+        return undefined;
+    }
+    const seconds = Number(value);
+    if (Number.isFinite(seconds) && seconds >= 0) {
+        return seconds * 1000;
+    }
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+// The wait a provider asked for, from whichever place its SDK keeps it
+function getRetryAfter(error: any): number | undefined {
+    const headers = error.headers || error.$response?.headers || error.response?.headers;
+    const header = (name: string): string | undefined =>
+        typeof headers?.get === 'function' ? headers.get(name) ?? undefined : headers?.[name];
+
+    // OpenAI also sends the wait in milliseconds
+    const milliseconds = Number(header('retry-after-ms'));
+    if (Number.isFinite(milliseconds) && milliseconds > 0) {
+        return milliseconds;
+    }
+    const retryAfter = parseRetryAfter(header('retry-after'));
+    if (retryAfter !== undefined) {
+        return retryAfter;
+    }
+    // Gemini puts it into a google.rpc.RetryInfo detail, e.g. "retryDelay": "31s"
+    const retryInfo = Array.isArray(error.errorDetails)
+        ? error.errorDetails.find((detail: any) => typeof detail?.retryDelay === 'string')
+        : undefined;
+    const delay = retryInfo ? parseFloat(retryInfo.retryDelay) : NaN;
+    return Number.isFinite(delay) && delay >= 0 ? delay * 1000 : undefined;
+}
+
+function classifyStatus(status: number, retryAfterMs: number | undefined): ErrorClassification | null {
+    if (status === 429) {
+        return { kind: 'rate-limited', retryAfterMs };
+    }
+    // 5xx includes Anthropic's 529 "overloaded"
+    if (status >= 500 || TRANSIENT_STATUSES.includes(status)) {
+        return { kind: 'transient', retryAfterMs };
+    }
+    if (status >= 400) {
+        return { kind: 'fatal' };
+    }
+    return null;
+}
+
+function classifyOne(error: any): ErrorClassification | null {
+    if (error instanceof FatalError || error instanceof DeadlineExceededError || isAbortError(error)) {
+        return { kind: 'fatal' };
+    }
+
+    const retryAfterMs = getRetryAfter(error);
+    if (THROTTLING_NAMES.includes(error.name) || error.$retryable?.throttling) {
+        return { kind: 'rate-limited', retryAfterMs };
+    }
+    const status = typeof error.status === 'number' ? error.status : error.$metadata?.httpStatusCode;
+    if (typeof status === 'number') {
+        const byStatus = classifyStatus(status, retryAfterMs);
+        if (byStatus) {
+            return byStatus;
+        }
+    }
+    if (error.$retryable || TRANSIENT_CODES.includes(error.code) || TRANSIENT_NAMES.includes(error.name)) {
+        return { kind: 'transient', retryAfterMs };
+    }
+
+    // SDKs without a status field (AssemblyAI) only say it in the message
+    const message = String(error.message || '');
+    const statusInMessage = message.match(/\bHTTP(?: Error)?:? (\d{3})\b/);
+    if (statusInMessage) {
+        return classifyStatus(Number(statusInMessage[1]), undefined);
+    }
+    if (/rate limit|too many requests/i.test(message)) {
+        return { kind: 'rate-limited' };
+    }
+    if (/unauthori[sz]ed|invalid api key|authentication/i.test(message)) {
+        return { kind: 'fatal' };
+    }
+    return null;
+}
+
+/**
+ * Sorts an error into transient (retry soon), rate-limited (retry after the provider's wait)
+ * and fatal (do not retry). Wrapped errors are looked at through their cause.
+ * Errors nothing is known about are transient, as every error was before classification.
+ */
+export function classifyError(error: unknown): ErrorClassification {
+    let current: any = error;
+    for (let depth = 0; current && typeof current === 'object' && depth < 5; depth++) {
+        const classification = classifyOne(current);
+        if (classification) {
+            return classification;
+        }
+        current = current.cause;
+    }
+    return { kind: 'transient' };
+}
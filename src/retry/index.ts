@@ -0,0 +1,4 @@
+export { ErrorKind, ErrorClassification, RetryPolicy, RetryOptions, DEFAULT_RETRY_POLICY, TRANSCRIPTION_RETRY_POLICY } from './types';
+export { FatalError, HttpError, DeadlineExceededError, classifyError, isAbortError, parseRetryAfter } from './errors';
+export { Deadline, sleep, abortable, throwIfAborted, createDeadline } from './abort';
+export { retry, backoffDelay } from './retry';
@@ -0,0 +1,62 @@
+import { DEFAULT_RETRY_POLICY, RetryOptions } from './types';
+import { DeadlineExceededError, classifyError } from './errors';
+import { createDeadline, sleep, throwIfAborted } from './abort';
+
+/**
+ * Exponential backoff with jitter: between half and all of base * 2^(attempt - 1), at most maxDelayMs.
+ * The random half keeps parallel callers that failed together from retrying together.
+ */
+export function backoffDelay(baseDelayMs: number, attempt: number, maxDelayMs: number): number {
+    const delay = Math.min(maxDelayMs, baseDelayMs * Math.pow(2, attempt - 1));
+    return delay / 2 + Math.random() * delay / 2;
+}
+
+/**
+ * Calls the operation until it succeeds, the error is fatal, the attempts run out or the deadline passes.
+ * Transient errors are retried after a short backoff, rate limits after the provider's Retry-After
+ * (or a longer backoff). The operation gets a signal that aborts on the caller's signal and at the deadline.
+ * @throws The last error of the operation, or DeadlineExceededError
+ */
+export async function retry<T>(operation: (signal: AbortSignal) => Promise<T>, options: RetryOptions = {}): Promise<T> {
+    const { signal, label = 'Request', classify = classifyError, onRetry, ...overrides } = options;
+    const policy = { ...DEFAULT_RETRY_POLICY, ...overrides };
+    const startedAt = Date.now();
+    const deadline = createDeadline(policy.deadlineMs, signal, label);
+
+    try {
+        for (let attempt = 1; ; attempt++) {
+            throwIfAborted(deadline.signal);
+            try {
+                return await operation(deadline.signal);
+            } catch (error: any) {
+                if (deadline.expired()) {
+                    throw new DeadlineExceededError(`${label} did not finish within ${Math.round(policy.deadlineMs / 1000)}s`, error);
+                }
+                if (signal?.aborted) {
+                    throw error;
+                }
+
+                const { kind, retryAfterMs } = classify(error);
+                if (kind === 'fatal' || attempt >= policy.maxAttempts) {
+                    throw error;
+                }
+                const wait = retryAfterMs ?? backoffDelay(
+                    kind === 'rate-limited' ? policy.rateLimitDelayMs : policy.baseDelayMs,
+                    attempt,
+                    policy.maxDelayMs
+                );
+                // A wait that ends after the deadline would only delay the same failure
+                if (policy.deadlineMs > 0 && Date.now() + wait >= startedAt + policy.deadlineMs) {
+                    throw error;
+                }
+
+                const reason = kind === 'rate-limited' ? 'rate limited' : `failed (${error?.message ?? error})`;
+                console.log(`${label} ${reason}, retry ${attempt}/${policy.maxAttempts - 1} in ${(wait / 1000).toFixed(1)}s...`);
+                onRetry?.(error, attempt);
+                await sleep(wait, deadline.signal);
+            }
+        }
+    } finally {
+        deadline.dispose();
+    }
+}
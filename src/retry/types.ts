@@ -0,0 +1,45 @@
+// What a failed call is worth retrying for
+export type ErrorKind = 'transient' | 'rate-limited' | 'fatal';
+
+export interface ErrorClassification {
+    kind: ErrorKind;
+    // Wait asked for by the provider (Retry-After and similar), in milliseconds
+    retryAfterMs?: number;
+}
+
+export interface RetryPolicy {
+    // Calls in total, the first one included
+    maxAttempts: number;
+    // Wait after the first transient error; doubled after each retry
+    baseDelayMs: number;
+    // Wait after the first rate limit the provider gave no Retry-After for; doubled as well
+    rateLimitDelayMs: number;
+    // Longest computed wait; a longer Retry-After is still honored
+    maxDelayMs: number;
+    // Time from the first call after which the call in flight is aborted and no retry starts; 0 for none
+    deadlineMs: number;
+}
+
+export interface RetryOptions extends Partial<RetryPolicy> {
+    // Cancels the call in flight and any wait between attempts
+    signal?: AbortSignal;
+    // Shown in the retry messages, e.g. "OpenAI Whisper"
+    label?: string;
+    // How errors are sorted (default: classifyError)
+    classify?: (error: unknown) => ErrorClassification;
+    // Called before each wait for a retry, e.g. to count the retries of a step
+    onRetry?: (error: unknown, attempt: number) => void;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    maxAttempts: 5,
+    baseDelayMs: 1000,
+    rateLimitDelayMs: 10 * 1000,
+    maxDelayMs: 60 * 1000,
+    deadlineMs: 15 * 60 * 1000
+};
+
+// One transcription request can cover a whole recording, and Amazon jobs wait in a queue
+export const TRANSCRIPTION_RETRY_POLICY: Partial<RetryPolicy> = {
+    deadlineMs: 2 * 60 * 60 * 1000
+};
@@ -0,0 +1,143 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { hashFile } from './utils';
+
+export const RUN_STATE_FILE = 'run_state.json';
+
+// Top-level step names accepted by --redo, e.g. "transcription" or "transcription:openai"
+export const STEP_NAMES = ['audio', 'frames', 'transcription', 'comparison', 'analysis'];
+
+export interface StepRecord {
+    // Hash of everything the step consumed; a different hash means the step has to run again
+    inputHash: string;
+    // Files produced by the step, relative to the video output directory
+    outputs: string[];
+    completedAt: string;
+}
+
+interface RunStateData {
+    version: 1;
+    videoHash: string;
+    steps: { [key: string]: StepRecord };
+}
+
+export interface ResumeOptions {
+    // Recompute every step
+    force?: boolean;
+    // Step keys or prefixes to recompute, e.g. ["analysis:anthropic", "transcription:gemini"]
+    redo?: string[];
+}
+
+/**
+ * Records which steps of a video are complete, so a re-run only does the missing work.
+ * Step keys: audio, frames, transcription:<service>, comparison, analysis:<provider>:<service>.
+ */
+export class RunState {
+    // Steps of one video complete concurrently; their writes of run_state.json go one after another
+    private saving: Promise<void> = Promise.resolve();
+
+    private constructor(
+        private videoOutputDir: string,
+        private data: RunStateData,
+        private options: ResumeOptions
+    ) {}
+
+    /**
+     * Loads the state of a video output directory.
+     * If the video content changed since the last run, every recorded artifact is removed.
+     */
+    static async load(videoOutputDir: string, videoPath: string, options: ResumeOptions = {}): Promise<RunState> {
+        const videoHash = await hashFile(videoPath);
+        const statePath = path.join(videoOutputDir, RUN_STATE_FILE);
+        const empty: RunStateData = { version: 1, videoHash, steps: {} };
+
+        if (!fs.existsSync(statePath)) {
+            return new RunState(videoOutputDir, empty, options);
+        }
+
+        let data: RunStateData;
+        try {
+            data = JSON.parse(await fs.promises.readFile(statePath, 'utf-8'));
+        } catch (error: any) {
+            console.warn(`Ignoring unreadable run state ${statePath}: ${error.message}`);
+            return new RunState(videoOutputDir, empty, options);
+        }
+
+        const state = new RunState(videoOutputDir, data, options);
+        if (data.videoHash !== videoHash) {
+            console.log('Video content changed since the last run, discarding previous results...');
+            await state.removeOutputs(Object.keys(data.steps));
+            state.data = empty;
+            await state.save();
+        }
+        return state;
+    }
+
+    getVideoHash(): string {
+        return this.data.videoHash;
+    }
+
+    getRecord(key: string): StepRecord | undefined {
+        return this.data.steps[key];
+    }
+
+    // True when --force or --redo asks for this step, as opposed to it simply being incomplete
+    isRecomputeRequested(key: string): boolean {
+        return !!this.options.force || this.isRedoRequested(key);
+    }
+
+    /**
+     * A step has to run unless it completed with the same inputs, its outputs still exist,
+     * and neither --force nor a matching --redo asks for it.
+     */
+    needsRun(key: string, inputHash: string): boolean {
+        if (this.isRecomputeRequested(key)) {
+            return true;
+        }
+        const record = this.data.steps[key];
+        if (!record || record.inputHash !== inputHash) {
+            return true;
+        }
+        return !record.outputs.every(output => fs.existsSync(path.join(this.videoOutputDir, output)));
+    }
+
+    async complete(key: string, inputHash: string, outputs: string[]): Promise<void> {
+        this.data.steps[key] = {
+            inputHash,
+            outputs: outputs.map(output => path.isAbsolute(output) ? path.relative(this.videoOutputDir, output) : output),
+            completedAt: new Date().toISOString()
+        };
+        await this.save();
+    }
+
+    // Absolute paths of the files a completed step produced
+    getOutputs(key: string): string[] {
+        return (this.data.steps[key]?.outputs || []).map(output => path.join(this.videoOutputDir, output));
+    }
+
+    private isRedoRequested(key: string): boolean {
+        return (this.options.redo || []).some(step => key === step || key.startsWith(`${step}:`));
+    }
+
+    private async removeOutputs(keys: string[]): Promise<void> {
+        for (const key of keys) {
+            for (const output of this.getOutputs(key)) {
+                await fs.promises.rm(output, { recursive: true, force: true });
+            }
+        }
+    }
+
+    private save(): Promise<void> {
+        const write = this.saving.then(() => {
+            // Sorted, so the file does not depend on the order the steps finished in
+            const steps = Object.fromEntries(Object.keys(this.data.steps).sort().map(key => [key, this.data.steps[key]]));
+            return fs.promises.writeFile(
+                path.join(this.videoOutputDir, RUN_STATE_FILE),
+                JSON.stringify({ ...this.data, steps }, null, 2),
+                'utf-8'
+            );
+        });
+        this.saving = write.catch(() => undefined);
+        return write;
+    }
+}
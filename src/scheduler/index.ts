@@ -0,0 +1,5 @@
+export { ProviderLimits, StepStatus, DEFAULT_PROVIDER_LIMITS, PROVIDER_LIMITS } from './types';
+export { Semaphore, RateLimiter } from './limiter';
+export { RateLimitManager } from './rateLimits';
+export { ProgressReporter } from './progress';
+export { Scheduler } from './scheduler';
@@ -0,0 +1,85 @@
+import { ProviderLimits } from './types';
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Lets at most `limit` tasks run at once; the others wait in the order they arrived.
+ * A limit of 0 or less lets everything through.
+ */
+export class Semaphore {
+    private active = 0;
+    private waiting: (() => void)[] = [];
+
+    constructor(private limit: number) {}
+
+    async acquire(): Promise<void> {
+        if (this.limit <= 0 || this.active < this.limit) {
+            this.active++;
+            return;
+        }
+        // The slot is handed over by release, so active stays the same
+        await new Promise<void>(resolve => this.waiting.push(resolve));
+    }
+
+    release(): void {
+        const next = this.waiting.shift();
+        if (next) {
+            next();
+        } else {
+            this.active--;
+        }
+    }
+
+    async run<T>(task: () => Promise<T>): Promise<T> {
+        await this.acquire();
+        try {
+            return await task();
+        } finally {
+            this.release();
+        }
+    }
+}
+
+/**
+ * Requests-per-minute and in-flight limit of one provider.
+ * Requests start in the order they arrive; a request that would exceed the minute's quota
+ * waits until the oldest request of the window is a minute old.
+ */
+export class RateLimiter {
+    private inFlight: Semaphore;
+    // Start times of the requests of the last minute
+    private starts: number[] = [];
+    // Requests pass the per-minute gate one at a time, so they keep their order
+    private gate: Promise<void> = Promise.resolve();
+
+    constructor(readonly limits: ProviderLimits) {
+        this.inFlight = new Semaphore(limits.maxInFlight);
+    }
+
+    run<T>(task: () => Promise<T>): Promise<T> {
+        return this.inFlight.run(async () => {
+            await this.waitForQuota();
+            return task();
+        });
+    }
+
+    private waitForQuota(): Promise<void> {
+        const turn = this.gate.then(async () => {
+            const limit = this.limits.requestsPerMinute;
+            if (limit <= 0) {
+                return;
+            }
+            for (;;) {
+                const now = Date.now();
+                this.starts = this.starts.filter(start => start > now - MINUTE_MS);
+                if (this.starts.length < limit) {
+                    this.starts.push(now);
+                    return;
+                }
+                await new Promise(resolve => setTimeout(resolve, this.starts[0] + MINUTE_MS - now));
+            }
+        });
+        this.gate = turn;
+        return turn;
+    }
+}
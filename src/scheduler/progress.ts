@@ -0,0 +1,70 @@
+import { StepStatus } from './types';
+
+interface StepProgress {
+    status: StepStatus;
+    startedAt?: number;
+}
+
+function formatDuration(ms: number): string {
+    const seconds = Math.round(ms / 1000);
+    return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m${String(seconds % 60).padStart(2, '0')}s`;
+}
+
+/**
+ * Tracks every scheduled step per video and prints a line when one starts or ends,
+ * with the counts of the video and of the whole run
+ */
+export class ProgressReporter {
+    private videos = new Map<string, Map<string, StepProgress>>();
+    private videosDone = 0;
+
+    constructor(private totalVideos: number, private log: (line: string) => void = console.log) {}
+
+    update(video: string, step: string, status: StepStatus): void {
+        let steps = this.videos.get(video);
+        if (!steps) {
+            steps = new Map();
+            this.videos.set(video, steps);
+        }
+        const previous = steps.get(step);
+        steps.set(step, { status, startedAt: status === 'running' ? Date.now() : previous?.startedAt });
+        if (status === 'queued') {
+            return;
+        }
+
+        const elapsed = previous?.startedAt !== undefined && status !== 'running' ? ` in ${formatDuration(Date.now() - previous.startedAt)}` : '';
+        const label = status === 'running' ? 'started' : status;
+        this.log(`[${video}] ${step} ${label}${elapsed} (video: ${this.countDone(steps)}/${steps.size} steps; ${this.summarizeRun()})`);
+    }
+
+    // Current status of every step scheduled for the video so far
+    getSteps(video: string): { [step: string]: StepStatus } {
+        const steps = this.videos.get(video) || new Map<string, StepProgress>();
+        return Object.fromEntries(Array.from(steps, ([step, progress]) => [step, progress.status]));
+    }
+
+    videoFinished(video: string): void {
+        this.videosDone++;
+        this.log(`[${video}] finished (${this.videosDone}/${this.totalVideos} videos)`);
+    }
+
+    private countDone(steps: Map<string, StepProgress>): number {
+        return Array.from(steps.values()).filter(step => step.status === 'done' || step.status === 'failed').length;
+    }
+
+    private summarizeRun(): string {
+        let done = 0;
+        let running = 0;
+        let total = 0;
+        this.videos.forEach(steps => {
+            steps.forEach(step => {
+                total++;
+                if (step.status === 'running') {
+                    running++;
+                }
+            });
+            done += this.countDone(steps);
+        });
+        return `run: ${done}/${total} steps, ${running} running, ${this.videosDone}/${this.totalVideos} videos`;
+    }
+}
@@ -0,0 +1,35 @@
+import { RateLimiter } from './limiter';
+import { DEFAULT_PROVIDER_LIMITS, PROVIDER_LIMITS, ProviderLimits } from './types';
+
+const limiters = new Map<string, RateLimiter>();
+let overrides: { [provider: string]: Partial<ProviderLimits> } = {};
+
+// Per-provider limits shared by every video of the run
+export class RateLimitManager {
+    /**
+     * Replaces the defaults of the given providers, e.g. from --rpm and --in-flight.
+     * Limiters created before are dropped, so call it before the first request.
+     */
+    static configure(limits: { [provider: string]: Partial<ProviderLimits> }): void {
+        overrides = limits;
+        limiters.clear();
+    }
+
+    static getLimits(provider: string): ProviderLimits {
+        return { ...(PROVIDER_LIMITS[provider] || DEFAULT_PROVIDER_LIMITS), ...overrides[provider] };
+    }
+
+    static getLimiter(provider: string): RateLimiter {
+        let limiter = limiters.get(provider);
+        if (!limiter) {
+            limiter = new RateLimiter(RateLimitManager.getLimits(provider));
+            limiters.set(provider, limiter);
+        }
+        return limiter;
+    }
+
+    // Runs one request to the provider within its limits
+    static run<T>(provider: string, task: () => Promise<T>): Promise<T> {
+        return RateLimitManager.getLimiter(provider).run(task);
+    }
+}
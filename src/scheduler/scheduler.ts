@@ -0,0 +1,37 @@
+import { throwIfAborted } from '../retry';
+import { Semaphore } from './limiter';
+import { ProgressReporter } from './progress';
+
+/**
+ * Runs the steps of all videos with at most `concurrency` of them at once.
+ * Only steps take a slot, never a whole video, so a video waiting for its steps cannot block them.
+ * After the signal aborts, steps still waiting for a slot fail instead of starting.
+ */
+export class Scheduler {
+    private slots: Semaphore;
+
+    constructor(concurrency: number, readonly progress: ProgressReporter, private signal?: AbortSignal) {
+        this.slots = new Semaphore(Math.max(1, concurrency));
+    }
+
+    /**
+     * Runs one step when a slot is free and reports its progress
+     * @param video Name shown in the progress lines
+     * @param step Step key, e.g. transcription:openai
+     */
+    async run<T>(video: string, step: string, task: () => Promise<T>): Promise<T> {
+        this.progress.update(video, step, 'queued');
+        return this.slots.run(async () => {
+            try {
+                throwIfAborted(this.signal);
+                this.progress.update(video, step, 'running');
+                const result = await task();
+                this.progress.update(video, step, 'done');
+                return result;
+            } catch (error) {
+                this.progress.update(video, step, 'failed');
+                throw error;
+            }
+        });
+    }
+}
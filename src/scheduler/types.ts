@@ -0,0 +1,29 @@
+export interface ProviderLimits {
+    // Requests started per sliding minute; 0 means no limit
+    requestsPerMinute: number;
+    // Requests waiting for an answer at the same time; 0 means no limit
+    maxInFlight: number;
+}
+
+// Limits of providers missing from PROVIDER_LIMITS, e.g. custom analysis providers
+export const DEFAULT_PROVIDER_LIMITS: ProviderLimits = {
+    requestsPerMinute: 60,
+    maxInFlight: 4
+};
+
+/**
+ * Defaults per provider name. Transcription and analysis of the same vendor share one limiter,
+ * since they share the API key and its quota.
+ */
+export const PROVIDER_LIMITS: { [provider: string]: ProviderLimits } = {
+    openai: { requestsPerMinute: 500, maxInFlight: 8 },
+    anthropic: { requestsPerMinute: 50, maxInFlight: 4 },
+    gemini: { requestsPerMinute: 60, maxInFlight: 4 },
+    assemblyai: { requestsPerMinute: 60, maxInFlight: 5 },
+    amazon: { requestsPerMinute: 60, maxInFlight: 10 },
+    // Local models are limited by the machine, not by a quota
+    'local-whisper': { requestsPerMinute: 0, maxInFlight: 1 },
+    'openai-compatible': { requestsPerMinute: 0, maxInFlight: 1 }
+};
+
+export type StepStatus = 'queued' | 'running' | 'done' | 'failed';
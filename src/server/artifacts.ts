@@ -0,0 +1,68 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { SUBTITLE_FORMATS } from '../subtitles';
+import { ArtifactInfo, ArtifactKind } from './types';
+
+const CONTENT_TYPES: { [extension: string]: string } = {
+    '.json': 'application/json',
+    '.txt': 'text/plain; charset=utf-8',
+    '.srt': 'application/x-subrip',
+    '.vtt': 'text/vtt',
+    '.ttml': 'application/ttml+xml',
+    '.mp3': 'audio/mpeg',
+    '.jpg': 'image/jpeg',
+    '.png': 'image/png'
+};
+
+// By the file names VideoProcessor writes
+function getArtifactKind(file: string): ArtifactKind {
+    const name = path.basename(file);
+    const extension = path.extname(name).slice(1);
+    if (/^transcription_/.test(name) && (SUBTITLE_FORMATS as string[]).includes(extension)) {
+        return 'subtitles';
+    }
+    if (/^transcription_.+(_raw\.txt|\.json)$/.test(name) && !/_quality\.json$/.test(name)) {
+        return 'transcript';
+    }
+    if (/^analysis_.+\.json$/.test(name) && !/_(failures|sections)\.json$/.test(name)) {
+        return 'lesson';
+    }
+    return 'other';
+}
+
+export function getContentType(file: string): string {
+    return CONTENT_TYPES[path.extname(file).toLowerCase()] || 'application/octet-stream';
+}
+
+// Every file in the video output directory of a job, frames included
+export async function listArtifacts(videoOutputDir: string): Promise<ArtifactInfo[]> {
+    const artifacts: ArtifactInfo[] = [];
+    const walk = async (dir: string) => {
+        for (const entry of await fs.promises.readdir(dir, { withFileTypes: true })) {
+            const entryPath = path.join(dir, entry.name);
+            if (entry.isDirectory()) {
+                await walk(entryPath);
+            } else if (entry.isFile()) {
+                const relativePath = path.relative(videoOutputDir, entryPath).split(path.sep).join('/');
+                artifacts.push({ path: relativePath, kind: getArtifactKind(entry.name), bytes: (await fs.promises.stat(entryPath)).size });
+            }
+        }
+    };
+    if (fs.existsSync(videoOutputDir)) {
+        await walk(videoOutputDir);
+    }
+    return artifacts.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * Absolute path of an artifact named in a URL
+ * @returns null if the path leaves the video output directory or is not a file
+ */
+export function resolveArtifact(videoOutputDir: string, relativePath: string): string | null {
+    const filePath = path.resolve(videoOutputDir, relativePath);
+    const relative = path.relative(videoOutputDir, filePath);
+    if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) {
+        return null;
+    }
+    return fs.existsSync(filePath) && fs.statSync(filePath).isFile() ? filePath : null;
+}
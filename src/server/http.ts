@@ -0,0 +1,50 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import { pipeline } from 'stream/promises';
+import { getContentType } from './artifacts';
+
+// Answered with its status and { "error": message }
+export class ApiError extends Error {
+    constructor(readonly status: number, message: string) {
+        super(message);
+        this.name = 'ApiError';
+    }
+}
+
+/**
+ * Reads a JSON request body
+ * @throws ApiError 413 if the body exceeds maxBytes, 400 if it is not a JSON object
+ */
+export async function readJson(req: http.IncomingMessage, maxBytes: number): Promise<{ [key: string]: unknown }> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+        size += chunk.length;
+        if (size > maxBytes) {
+            throw new ApiError(413, `Request body exceeds ${maxBytes} bytes`);
+        }
+        chunks.push(chunk);
+    }
+    let body: unknown;
+    try {
+        body = JSON.parse(Buffer.concat(chunks).toString('utf-8') || '{}');
+    } catch (error: any) {
+        throw new ApiError(400, `Invalid JSON: ${error.message}`);
+    }
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+        throw new ApiError(400, 'Expected a JSON object');
+    }
+    return body as { [key: string]: unknown };
+}
+
+export function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+    const content = JSON.stringify(body, null, 2);
+    res.writeHead(status, { 'Content-Type': 'application/json', 'Content-Length': Buffer.byteLength(content) });
+    res.end(content);
+}
+
+export async function sendFile(res: http.ServerResponse, filePath: string): Promise<void> {
+    const stat = await fs.promises.stat(filePath);
+    res.writeHead(200, { 'Content-Type': getContentType(filePath), 'Content-Length': stat.size });
+    await pipeline(fs.createReadStream(filePath), res);
+}
@@ -0,0 +1,15 @@
+export {
+    JobStatus,
+    MediaRecord,
+    JobSpec,
+    JobRecord,
+    ArtifactKind,
+    ArtifactInfo,
+    ServerOptions,
+    DEFAULT_SERVER_OPTIONS
+} from './types';
+export { JobStore, isValidId } from './store';
+export { JobRunner, JobRunnerOptions } from './runner';
+export { ApiError } from './http';
+export { listArtifacts, resolveArtifact } from './artifacts';
+export { createApiServer, parseJobSpec } from './routes';
@@ -0,0 +1,250 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import * as path from 'path';
+import { SUPPORTED_MEDIA_FORMATS } from '../utils';
+import { TranscriptionServiceType } from '../transcription';
+import { AnalysisManager } from '../analysis';
+import { SUBTITLE_FORMATS, SubtitleFormat } from '../subtitles';
+import { getDefaultTranscribers } from '../cli';
+import { getMissingEnvVars } from '../pipeline';
+import { JobStore } from './store';
+import { JobRunner } from './runner';
+import { ApiError, readJson, sendFile, sendJson } from './http';
+import { listArtifacts, resolveArtifact } from './artifacts';
+import { DEFAULT_SERVER_OPTIONS, JobRecord, JobSpec, MediaRecord, ServerOptions } from './types';
+
+interface Route {
+    method: string;
+    pattern: RegExp;
+    handle: (req: http.IncomingMessage, res: http.ServerResponse, params: string[], url: URL) => Promise<void>;
+}
+
+function checkMediaFormat(name: string): void {
+    if (!SUPPORTED_MEDIA_FORMATS.includes(path.extname(name).toLowerCase())) {
+        throw new ApiError(400, `Unsupported file format: ${name}. Supported formats: ${SUPPORTED_MEDIA_FORMATS.join(', ')}`);
+    }
+}
+
+function readList(body: { [key: string]: unknown }, field: string, available: string[]): string[] | undefined {
+    const value = body[field];
+    if (value === undefined) {
+        return undefined;
+    }
+    if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+        throw new ApiError(400, `${field} must be a list of names`);
+    }
+    const unknown = value.filter(item => !available.includes(item));
+    if (unknown.length > 0) {
+        throw new ApiError(400, `Unknown ${field}: ${unknown.join(', ')}. Available: ${available.join(', ')}`);
+    }
+    return value;
+}
+
+function readBoolean(body: { [key: string]: unknown }, field: string): boolean {
+    const value = body[field];
+    if (value !== undefined && typeof value !== 'boolean') {
+        throw new ApiError(400, `${field} must be true or false`);
+    }
+    return !!value;
+}
+
+function readPositiveInteger(body: { [key: string]: unknown }, field: string): number | undefined {
+    const value = body[field];
+    if (value !== undefined && (typeof value !== 'number' || !Number.isInteger(value) || value < 1)) {
+        throw new ApiError(400, `${field} must be a positive integer`);
+    }
+    return value as number | undefined;
+}
+
+/**
+ * Validates the body of POST /jobs; unset fields get the defaults of the run command
+ * @throws ApiError 400 for unknown services, invalid values and services without their API keys
+ */
+export function parseJobSpec(body: { [key: string]: unknown }, media: MediaRecord): JobSpec {
+    const transcribers = (readList(body, 'transcribers', Object.values(TranscriptionServiceType)) as TranscriptionServiceType[] | undefined)
+        || getDefaultTranscribers();
+    if (transcribers.length === 0) {
+        throw new ApiError(400, 'A job needs at least one transcriber');
+    }
+    const analyzers = readList(body, 'analyzers', AnalysisManager.getProviderNames()) || AnalysisManager.getProviderNames();
+
+    const missingEnvVars = getMissingEnvVars(transcribers, analyzers);
+    if (missingEnvVars.length > 0) {
+        throw new ApiError(400, `Missing environment variables on the server: ${missingEnvVars.join(', ')}. Choose other transcribers or analyzers`);
+    }
+
+    const speakers = readPositiveInteger(body, 'speakers');
+    return {
+        media: media.id,
+        transcribers,
+        analyzers,
+        includeImages: readBoolean(body, 'images'),
+        maxFrames: readPositiveInteger(body, 'maxFrames'),
+        diarize: readBoolean(body, 'diarize') || speakers !== undefined,
+        speakers,
+        consensus: readBoolean(body, 'consensus'),
+        subtitleFormats: (readList(body, 'subtitles', SUBTITLE_FORMATS) as SubtitleFormat[] | undefined) || SUBTITLE_FORMATS
+    };
+}
+
+/**
+ * The HTTP API over the store and the runner:
+ * media uploads and registrations, jobs with their step progress, and the files they produced
+ */
+export function createApiServer(store: JobStore, runner: JobRunner, options: Partial<ServerOptions> = {}): http.Server {
+    const { maxBodyBytes, maxUploadBytes } = { ...DEFAULT_SERVER_OPTIONS, ...options };
+
+    const getMedia = async (id: string): Promise<MediaRecord> => {
+        const media = await store.getMedia(id);
+        if (!media) {
+            throw new ApiError(404, `No media ${id}`);
+        }
+        return media;
+    };
+    const getJob = async (id: string): Promise<JobRecord> => {
+        const job = await store.getJob(id);
+        if (!job) {
+            throw new ApiError(404, `No job ${id}`);
+        }
+        // The record only has the steps of finished runs
+        return { ...job, steps: runner.getSteps(id) || job.steps };
+    };
+
+    const routes: Route[] = [
+        {
+            method: 'GET',
+            pattern: /^\/media$/,
+            handle: async (req, res) => sendJson(res, 200, await store.listMedia())
+        },
+        {
+            // A JSON body { "path": ... } registers a file on the server; any other body is uploaded as ?name=
+            method: 'POST',
+            pattern: /^\/media$/,
+            handle: async (req, res, params, url) => {
+                if ((req.headers['content-type'] || '').startsWith('application/json')) {
+                    const body = await readJson(req, maxBodyBytes);
+                    if (typeof body.path !== 'string' || !body.path) {
+                        throw new ApiError(400, 'Expected { "path": "<media file on the server>" }');
+                    }
+                    const filePath = path.resolve(body.path);
+                    checkMediaFormat(filePath);
+                    if (!fs.existsSync(filePath) || !fs.statSync(filePath).isFile()) {
+                        throw new ApiError(400, `File not found: ${filePath}`);
+                    }
+                    sendJson(res, 201, await store.registerFile(filePath));
+                    return;
+                }
+                const name = url.searchParams.get('name');
+                if (!name) {
+                    throw new ApiError(400, 'Uploads need the file name, e.g. POST /media?name=lecture.mp4');
+                }
+                checkMediaFormat(name);
+                if (req.headers['content-length'] === '0') {
+                    throw new ApiError(400, 'The uploaded file is empty');
+                }
+                // Rejected before any of it is read when the size is announced; the store also counts while streaming
+                if (Number(req.headers['content-length']) > maxUploadBytes) {
+                    throw new ApiError(413, `Uploads are limited to ${Math.round(maxUploadBytes / (1024 * 1024))} MB`);
+                }
+                sendJson(res, 201, await store.saveUpload(name, req, maxUploadBytes));
+            }
+        },
+        {
+            method: 'GET',
+            pattern: /^\/media\/([^/]+)$/,
+            handle: async (req, res, [id]) => sendJson(res, 200, await getMedia(id))
+        },
+        {
+            method: 'GET',
+            pattern: /^\/jobs$/,
+            handle: async (req, res) => {
+                const jobs = await store.listJobs();
+                sendJson(res, 200, jobs.map(job => ({ ...job, steps: runner.getSteps(job.id) || job.steps })));
+            }
+        },
+        {
+            method: 'POST',
+            pattern: /^\/jobs$/,
+            handle: async (req, res) => {
+                if (runner.isStopped()) {
+                    throw new ApiError(503, 'The job runner has stopped; restart the server to run jobs');
+                }
+                const body = await readJson(req, maxBodyBytes);
+                if (typeof body.media !== 'string') {
+                    throw new ApiError(400, 'Expected the media ID in "media"');
+                }
+                const media = await getMedia(body.media);
+                const job = await store.createJob(parseJobSpec(body, media), media);
+                runner.notify();
+                sendJson(res, 201, job);
+            }
+        },
+        {
+            method: 'GET',
+            pattern: /^\/jobs\/([^/]+)$/,
+            handle: async (req, res, [id]) => sendJson(res, 200, await getJob(id))
+        },
+        {
+            method: 'DELETE',
+            pattern: /^\/jobs\/([^/]+)$/,
+            handle: async (req, res, [id]) => {
+                const job = await runner.cancel(id);
+                if (!job) {
+                    throw new ApiError(404, `No job ${id}`);
+                }
+                if (job.status !== 'queued' && job.status !== 'running' && job.status !== 'cancelled') {
+                    throw new ApiError(409, `Job ${id} is already ${job.status}`);
+                }
+                // A running job stays running until its requests in flight are aborted
+                sendJson(res, 202, await getJob(id));
+            }
+        },
+        {
+            method: 'GET',
+            pattern: /^\/jobs\/([^/]+)\/artifacts$/,
+            handle: async (req, res, [id]) => sendJson(res, 200, await listArtifacts(store.getVideoDirectory(await getJob(id))))
+        },
+        {
+            method: 'GET',
+            pattern: /^\/jobs\/([^/]+)\/artifacts\/(.+)$/,
+            handle: async (req, res, [id, artifact]) => {
+                const filePath = resolveArtifact(store.getVideoDirectory(await getJob(id)), artifact);
+                if (!filePath) {
+                    throw new ApiError(404, `No artifact ${artifact} in job ${id}`);
+                }
+                await sendFile(res, filePath);
+            }
+        }
+    ];
+
+    return http.createServer(async (req, res) => {
+        const url = new URL(req.url || '/', 'http://localhost');
+        try {
+            const pathname = decodeURIComponent(url.pathname).replace(/\/+$/, '') || '/';
+            const matching = routes.filter(route => route.pattern.test(pathname));
+            if (matching.length === 0) {
+                throw new ApiError(404, `Not found: ${pathname}`);
+            }
+            const route = matching.find(candidate => candidate.method === req.method);
+            if (!route) {
+                res.setHeader('Allow', matching.map(candidate => candidate.method).join(', '));
+                throw new ApiError(405, `${req.method} is not allowed on ${pathname}`);
+            }
+            await route.handle(req, res, pathname.match(route.pattern)!.slice(1), url);
+        } catch (error: any) {
+            const status = error instanceof ApiError ? error.status : error instanceof URIError ? 400 : 500;
+            if (status === 500) {
+                console.error('\x1b[31m%s\x1b[0m', `Error handling ${req.method} ${url.pathname}: ${error.message}`);
+            }
+            if (res.headersSent) {
+                res.destroy();
+                return;
+            }
+            // Whatever is left of a rejected upload is not read, so the connection cannot be reused
+            if (!req.complete) {
+                res.setHeader('Connection', 'close');
+            }
+            sendJson(res, status, { error: error.message });
+        }
+    });
+}
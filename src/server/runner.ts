@@ -0,0 +1,227 @@
+import * as path from 'path';
+import { MAX_VIDEO_SIZE_MB } from '../utils';
+import { AIService } from '../aiService';
+import { VideoProcessor } from '../videoProcessor';
+import { ProgressReporter, Scheduler } from '../scheduler';
+import { PriceTable, USAGE_FILE, UsageLedger } from '../usage';
+import { MANIFEST_FILE, RunManifestRecorder, ToolInfo } from '../manifest';
+import { processMatrix } from '../pipeline';
+import { JobStore } from './store';
+import { JobRecord } from './types';
+
+export interface JobRunnerOptions {
+    aiService: AIService;
+    // Steps of a job run at once (--concurrency)
+    concurrency: number;
+    prices: PriceTable;
+    // USD per job run after which no new paid request starts (--max-cost)
+    maxCost?: number;
+    tool: ToolInfo;
+}
+
+interface RunningJob {
+    id: string;
+    video: string;
+    controller: AbortController;
+    progress: ProgressReporter;
+    cancelled: boolean;
+}
+
+// The matrix of a job, recorded in its manifests like the options of a CLI run
+function getJobSettings(job: JobRecord): { [name: string]: unknown } {
+    return {
+        media: job.media,
+        transcribers: job.transcribers,
+        analyzers: job.analyzers,
+        includeImages: job.includeImages,
+        maxFrames: job.maxFrames ?? null,
+        diarize: job.diarize,
+        speakers: job.speakers ?? null,
+        consensus: job.consensus,
+        subtitleFormats: job.subtitleFormats
+    };
+}
+
+/**
+ * Takes the queued jobs of the store one at a time, oldest first, and runs the matrix of each.
+ * A job interrupted by a restart is queued again; its completed steps are skipped as in a resumed CLI run.
+ */
+export class JobRunner {
+    private current: RunningJob | null = null;
+    private stopped = false;
+    // Set by notify(), so a job queued while the runner lists the jobs is not missed
+    private pending = false;
+    private wake: (() => void) | null = null;
+    // Queued jobs cancelled since start; skipped even if the runner listed them before they were saved as cancelled
+    private cancelled = new Set<string>();
+    private loop: Promise<void> | null = null;
+
+    constructor(private store: JobStore, private options: JobRunnerOptions) {}
+
+    async start(): Promise<void> {
+        for (const job of await this.store.listJobs()) {
+            if (job.status === 'running') {
+                console.log(`Job ${job.id} was interrupted, queueing it again`);
+                await this.store.saveJob({ ...job, status: 'queued' });
+            }
+        }
+        this.loop = this.run();
+    }
+
+    // Called when a job was queued, so an idle runner picks it up
+    notify(): void {
+        this.pending = true;
+        this.wake?.();
+    }
+
+    // True once stop() was called or the store failed: jobs queued from then on would not run
+    isStopped(): boolean {
+        return this.stopped;
+    }
+
+    // Statuses of the steps of the running job, or null if the job is not running
+    getSteps(id: string): { [step: string]: string } | null {
+        return this.current?.id === id ? this.current.progress.getSteps(this.current.video) : null;
+    }
+
+    /**
+     * Cancels a queued job, or the running one: its requests in flight are aborted
+     * @returns The job, or null if it does not exist
+     */
+    async cancel(id: string): Promise<JobRecord | null> {
+        const job = await this.store.getJob(id);
+        // Checked after reading the record: the runner may have taken the job in the meantime
+        if (this.current?.id === id) {
+            this.current.cancelled = true;
+            this.current.controller.abort();
+            return this.store.getJob(id);
+        }
+        if (job && job.status === 'queued') {
+            this.cancelled.add(id);
+            const cancelled: JobRecord = { ...job, status: 'cancelled', finishedAt: new Date().toISOString() };
+            await this.store.saveJob(cancelled);
+            return cancelled;
+        }
+        return job;
+    }
+
+    // Aborts the running job and leaves it queued for the next start
+    async stop(): Promise<void> {
+        this.stopped = true;
+        this.current?.controller.abort();
+        this.notify();
+        await this.loop;
+    }
+
+    // Never rejects: an error of the store is logged and stops the runner
+    private async run(): Promise<void> {
+        while (!this.stopped) {
+            this.pending = false;
+            let job: JobRecord | undefined;
+            try {
+                job = (await this.store.listJobs()).find(record => record.status === 'queued' && !this.cancelled.has(record.id));
+                if (job) {
+                    await this.runJob(job);
+                }
+            } catch (error: any) {
+                // Only the store can fail here; the job stays as it was and is tried again after a restart
+                console.error('\x1b[31m%s\x1b[0m', `Error in the job queue${job ? ` at job ${job.id}` : ''}: ${error.message}. No more jobs run until the server is restarted`);
+                this.stopped = true;
+            }
+            if (!job && !this.pending && !this.stopped) {
+                await new Promise<void>(resolve => {
+                    this.wake = resolve;
+                });
+                this.wake = null;
+            }
+        }
+    }
+
+    private async runJob(job: JobRecord): Promise<void> {
+        const { aiService, concurrency, prices, maxCost, tool } = this.options;
+        const progress = new ProgressReporter(1);
+        const current: RunningJob = { id: job.id, video: job.video, controller: new AbortController(), progress, cancelled: false };
+        this.current = current;
+
+        const runId = new Date().toISOString().replace(/[:.]/g, '-');
+        const jobDir = this.store.getJobDirectory(job.id);
+        await this.store.saveJob({ ...job, status: 'running', startedAt: new Date().toISOString(), finishedAt: undefined, error: undefined, steps: {} });
+        console.log(`\n===== Job ${job.id}: ${job.video} =====`);
+
+        const run = {
+            aiService,
+            scheduler: new Scheduler(concurrency, progress, current.controller.signal),
+            usage: new UsageLedger(prices, maxCost),
+            manifest: new RunManifestRecorder({ runId, command: 'serve', tool, settings: getJobSettings(job) }),
+            signal: current.controller.signal
+        };
+
+        let failure: string | undefined;
+        try {
+            const media = await this.store.getMedia(job.media);
+            if (!media) {
+                throw new Error(`Media ${job.media} no longer exists`);
+            }
+            const fileSizeInMB = media.bytes / (1024 * 1024);
+            if (fileSizeInMB > MAX_VIDEO_SIZE_MB) {
+                console.warn('\x1b[33m%s\x1b[0m', `Warning: Video file is large (${Math.round(fileSizeInMB)}MB). Maximum recommended size is ${MAX_VIDEO_SIZE_MB}MB`);
+                console.log('Processing anyway, but this might take longer...');
+            }
+            const videoProcessor = new VideoProcessor({
+                videoPath: media.path,
+                includeImages: job.includeImages,
+                outputDir: jobDir,
+                keyframes: job.maxFrames ? { maxFrames: job.maxFrames } : {},
+                // Jobs of the same upload would each hold a copy of up to maxUploadBytes
+                copyVideo: false
+            });
+            try {
+                await processMatrix(videoProcessor, run, {
+                    transcribers: job.transcribers,
+                    analyzers: job.analyzers,
+                    transcribe: true,
+                    analyze: job.analyzers.length > 0,
+                    resume: {},
+                    useCache: true,
+                    diarize: job.diarize,
+                    speakers: job.speakers,
+                    chunking: {},
+                    consensus: job.consensus,
+                    subtitleFormats: job.subtitleFormats,
+                    captionsPath: null
+                });
+            } finally {
+                await run.usage.save(path.join(videoProcessor.getOutputDirectory(), USAGE_FILE), job.video);
+                await run.manifest.saveVideo(job.video);
+            }
+        } catch (error: any) {
+            failure = error instanceof Error ? error.message : String(error);
+            console.error('\x1b[31m%s\x1b[0m', `Job ${job.id} failed: ${failure}`);
+        } finally {
+            this.current = null;
+        }
+
+        // Laid out as a CLI run with the job directory as its output directory
+        const runDir = path.join(jobDir, 'runs', runId);
+        await run.usage.save(path.join(runDir, USAGE_FILE));
+        const manifest = await run.manifest.save(path.join(runDir, MANIFEST_FILE));
+        const finalSteps = Object.fromEntries((manifest.videos[0]?.steps || []).map(entry => [entry.step, entry.status]));
+
+        if (current.controller.signal.aborted && !current.cancelled) {
+            await this.store.saveJob({ ...job, status: 'queued', steps: finalSteps });
+            console.log(`Job ${job.id} stopped, it continues after the next start`);
+            return;
+        }
+        // A job whose steps partly failed is completed: its steps tell which results exist
+        const status = current.cancelled ? 'cancelled' : failure ? 'failed' : 'completed';
+        await this.store.saveJob({
+            ...job,
+            status,
+            finishedAt: new Date().toISOString(),
+            error: failure || (run.usage.isOverBudget() ? 'Steps were skipped after the --max-cost limit was reached' : undefined),
+            steps: finalSteps,
+            cost: run.usage.getTotalCost()
+        });
+        console.log(`Job ${job.id} ${status}`);
+    }
+}
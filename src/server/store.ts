@@ -0,0 +1,153 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { ApiError } from './http';
+import { JobRecord, JobSpec, MediaRecord } from './types';
+
+// IDs are UUIDs; anything else in a URL must not reach the file system
+const ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+export function isValidId(id: string): boolean {
+    return ID_PATTERN.test(id);
+}
+
+/**
+ * Media and jobs of the server as JSON files, so the queue survives restarts:
+ * media/<id>.json (uploads in media/<id>/), jobs/<id>.json, and the output of each job in jobs/<id>/
+ */
+export class JobStore {
+    constructor(private rootDir: string) {}
+
+    getDirectory(): string {
+        return this.rootDir;
+    }
+
+    // Output directory of a job; its video output directory is <job dir>/<video name>
+    getJobDirectory(id: string): string {
+        return path.join(this.rootDir, 'jobs', id);
+    }
+
+    // Where VideoProcessor writes the results of a job
+    getVideoDirectory(job: JobRecord): string {
+        return path.join(this.getJobDirectory(job.id), path.basename(job.video, path.extname(job.video)));
+    }
+
+    /**
+     * Streams an upload to media/<id>/<name>; nothing is recorded if the upload breaks off
+     * @throws ApiError 413 as soon as the body exceeds maxBytes
+     */
+    async saveUpload(name: string, body: Readable, maxBytes = Infinity): Promise<MediaRecord> {
+        const id = randomUUID();
+        const mediaDir = path.join(this.rootDir, 'media', id);
+        const filePath = path.join(mediaDir, path.basename(name));
+        await fs.promises.mkdir(mediaDir, { recursive: true });
+        try {
+            await pipeline(body, async function* (source: AsyncIterable<Buffer>) {
+                let size = 0;
+                for await (const chunk of source) {
+                    size += chunk.length;
+                    if (size > maxBytes) {
+                        throw new ApiError(413, `Uploads are limited to ${Math.round(maxBytes / (1024 * 1024))} MB`);
+                    }
+                    yield chunk;
+                }
+            }, fs.createWriteStream(filePath));
+        } catch (error) {
+            await fs.promises.rm(mediaDir, { recursive: true, force: true });
+            throw error;
+        }
+        return this.addMedia(id, filePath, 'upload');
+    }
+
+    // Records a file on the server's disk without copying it
+    registerFile(filePath: string): Promise<MediaRecord> {
+        return this.addMedia(randomUUID(), filePath, 'path');
+    }
+
+    async getMedia(id: string): Promise<MediaRecord | null> {
+        return isValidId(id) ? this.read<MediaRecord>(path.join(this.rootDir, 'media', `${id}.json`)) : null;
+    }
+
+    listMedia(): Promise<MediaRecord[]> {
+        return this.list<MediaRecord>('media');
+    }
+
+    async createJob(spec: JobSpec, media: MediaRecord): Promise<JobRecord> {
+        const job: JobRecord = {
+            id: randomUUID(),
+            status: 'queued',
+            ...spec,
+            video: media.name,
+            createdAt: new Date().toISOString(),
+            steps: {}
+        };
+        await this.saveJob(job);
+        return job;
+    }
+
+    async getJob(id: string): Promise<JobRecord | null> {
+        return isValidId(id) ? this.read<JobRecord>(path.join(this.rootDir, 'jobs', `${id}.json`)) : null;
+    }
+
+    // Oldest first, which is the order the runner takes them in
+    listJobs(): Promise<JobRecord[]> {
+        return this.list<JobRecord>('jobs');
+    }
+
+    saveJob(job: JobRecord): Promise<void> {
+        return this.write(path.join(this.rootDir, 'jobs', `${job.id}.json`), job);
+    }
+
+    private async addMedia(id: string, filePath: string, source: MediaRecord['source']): Promise<MediaRecord> {
+        const stat = await fs.promises.stat(filePath);
+        const media: MediaRecord = {
+            id,
+            name: path.basename(filePath),
+            path: filePath,
+            source,
+            bytes: stat.size,
+            createdAt: new Date().toISOString()
+        };
+        await this.write(path.join(this.rootDir, 'media', `${id}.json`), media);
+        return media;
+    }
+
+    private async read<T>(filePath: string): Promise<T | null> {
+        if (!fs.existsSync(filePath)) {
+            return null;
+        }
+        try {
+            return JSON.parse(await fs.promises.readFile(filePath, 'utf-8'));
+        } catch (error: any) {
+            console.warn(`Ignoring unreadable record ${filePath}: ${error.message}`);
+            return null;
+        }
+    }
+
+    private async list<T extends { id: string; createdAt: string }>(folder: string): Promise<T[]> {
+        const dir = path.join(this.rootDir, folder);
+        if (!fs.existsSync(dir)) {
+            return [];
+        }
+        const records: T[] = [];
+        for (const file of await fs.promises.readdir(dir)) {
+            if (file.endsWith('.json')) {
+                const record = await this.read<T>(path.join(dir, file));
+                if (record) {
+                    records.push(record);
+                }
+            }
+        }
+        return records.sort((a, b) => a.createdAt.localeCompare(b.createdAt) || a.id.localeCompare(b.id));
+    }
+
+    private async write(filePath: string, value: unknown): Promise<void> {
+        await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+        // Write to a temporary file first so a crash never leaves a half-written record
+        const tempPath = `${filePath}.${process.pid}.${randomUUID()}.tmp`;
+        await fs.promises.writeFile(tempPath, JSON.stringify(value, null, 2), 'utf-8');
+        await fs.promises.rename(tempPath, filePath);
+    }
+}
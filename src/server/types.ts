@@ -0,0 +1,76 @@
+import { TranscriptionServiceType } from '../transcription';
+import { SubtitleFormat } from '../subtitles';
+
+// queued: waiting for the runner, also after a restart interrupted it; cancelled: by DELETE /jobs/<id>
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+// A video or audio file jobs can be created for
+export interface MediaRecord {
+    id: string;
+    // File name, which also names the output directory of its jobs
+    name: string;
+    // Uploaded files live in <server>/media/<id>/; registered files stay where they are
+    path: string;
+    source: 'upload' | 'path';
+    bytes: number;
+    createdAt: string;
+}
+
+// The transcriber and analyzer matrix of a job, as in the options of the run command
+export interface JobSpec {
+    media: string;
+    transcribers: TranscriptionServiceType[];
+    // Empty for transcriptions only
+    analyzers: string[];
+    includeImages: boolean;
+    maxFrames?: number;
+    diarize: boolean;
+    speakers?: number;
+    consensus: boolean;
+    subtitleFormats: SubtitleFormat[];
+}
+
+export interface JobRecord extends JobSpec {
+    id: string;
+    status: JobStatus;
+    // Name of the media file
+    video: string;
+    createdAt: string;
+    startedAt?: string;
+    finishedAt?: string;
+    error?: string;
+    /**
+     * Step key to status: queued, running, done or failed while the job runs,
+     * then completed, reused or failed as recorded in the manifest
+     */
+    steps: { [step: string]: string };
+    // USD spent by the last run of the job
+    cost?: number;
+}
+
+// What an artifact holds, so clients can pick files without knowing their names
+export type ArtifactKind = 'transcript' | 'subtitles' | 'lesson' | 'other';
+
+export interface ArtifactInfo {
+    // Relative to the video output directory of the job; used in the download URL
+    path: string;
+    kind: ArtifactKind;
+    bytes: number;
+}
+
+export interface ServerOptions {
+    port: number;
+    host: string;
+    // Largest JSON request body
+    maxBodyBytes: number;
+    // Largest media upload; files above MAX_VIDEO_SIZE_MB are accepted with the CLI's warning
+    maxUploadBytes: number;
+}
+
+export const DEFAULT_SERVER_OPTIONS: ServerOptions = {
+    port: 8080,
+    // Local only: the API has no authentication
+    host: '127.0.0.1',
+    maxBodyBytes: 1024 * 1024,
+    maxUploadBytes: 2 * 1024 * 1024 * 1024
+};
@@ -0,0 +1,121 @@
+import { Timestamp } from '../utils';
+import { CueOptions, DEFAULT_CUE_OPTIONS, SubtitleCue } from './types';
+
+// Greedy word wrap; a single word longer than the limit gets a line of its own
+export function wrapText(text: string, maxLineLength: number): string[] {
+    const lines: string[] = [];
+    let current = '';
+    for (const word of text.split(/\s+/).filter(word => word.length > 0)) {
+        if (current && current.length + 1 + word.length > maxLineLength) {
+            lines.push(current);
+            current = word;
+        } else {
+            current = current ? `${current} ${word}` : word;
+        }
+    }
+    if (current) {
+        lines.push(current);
+    }
+    return lines;
+}
+
+// Splits words into `count` groups of roughly equal character length
+function splitWords(words: string[], count: number): string[][] {
+    const total = words.reduce((sum, word) => sum + word.length + 1, 0);
+    const groups: string[][] = [];
+    let current: string[] = [];
+    let length = 0;
+    for (const word of words) {
+        const target = (total * (groups.length + 1)) / count;
+        if (current.length > 0 && groups.length < count - 1 && length + (word.length + 1) / 2 > target) {
+            groups.push(current);
+            current = [];
+        }
+        current.push(word);
+        length += word.length + 1;
+    }
+    groups.push(current);
+    return groups;
+}
+
+/**
+ * Sorts segments and removes overlaps.
+ * Gemini sometimes returns segments out of order or overlapping the next one.
+ */
+export function normalizeSegments(timestamps: Timestamp[]): Timestamp[] {
+    const segments = timestamps
+        .map(segment => ({
+            start: Math.max(0, segment.start),
+            end: Math.max(0, segment.start, segment.end),
+            text: segment.text.trim()
+        }))
+        .filter(segment => segment.text.length > 0)
+        .sort((a, b) => a.start - b.start || a.end - b.end);
+
+    for (let i = 1; i < segments.length; i++) {
+        const previous = segments[i - 1];
+        const segment = segments[i];
+        if (segment.start < previous.end) {
+            // Cut the earlier segment short; if that would leave it empty, push this one back instead
+            if (segment.start > previous.start) {
+                previous.end = segment.start;
+            } else {
+                segment.start = previous.end;
+                segment.end = Math.max(segment.end, segment.start);
+            }
+        }
+    }
+    return segments;
+}
+
+/**
+ * Turns transcript segments into display-ready cues within the line and duration limits.
+ * Long segments are split, and their time is shared out in proportion to the text length.
+ */
+export function buildCues(timestamps: Timestamp[], options: Partial<CueOptions> = {}): SubtitleCue[] {
+    const settings = { ...DEFAULT_CUE_OPTIONS, ...options };
+    const cues: SubtitleCue[] = [];
+
+    for (const segment of normalizeSegments(timestamps)) {
+        const words = segment.text.split(/\s+/);
+        const duration = segment.end - segment.start;
+
+        // Start with the minimum number of pieces and add more until every piece fits
+        let count = Math.max(
+            Math.ceil(wrapText(segment.text, settings.maxLineLength).length / settings.maxLines),
+            Math.ceil(duration / settings.maxCueDuration),
+            1
+        );
+        let groups = splitWords(words, count);
+        // Time is shared out by text length, so a long piece can still stay on screen too long
+        const tooLong = (pieces: string[][]) => {
+            const totalLength = pieces.reduce((sum, group) => sum + group.join(' ').length, 0);
+            return pieces.some(group => wrapText(group.join(' '), settings.maxLineLength).length > settings.maxLines
+                || (duration * group.join(' ').length) / totalLength > settings.maxCueDuration);
+        };
+        while (count < words.length && tooLong(groups)) {
+            count++;
+            groups = splitWords(words, count);
+        }
+
+        const totalLength = groups.reduce((sum, group) => sum + group.join(' ').length, 0);
+        let start = segment.start;
+        for (const group of groups) {
+            const text = group.join(' ');
+            const end = start + (duration * text.length) / totalLength;
+            cues.push({ start, end, lines: wrapText(text, settings.maxLineLength) });
+            start = end;
+        }
+    }
+
+    // Keep short cues on screen long enough to be read, without running into the next one
+    for (let i = 0; i < cues.length; i++) {
+        const cue = cues[i];
+        if (cue.end - cue.start < settings.minCueDuration) {
+            const limit = i + 1 < cues.length ? cues[i + 1].start : Infinity;
+            cue.end = Math.max(cue.end, Math.min(cue.start + settings.minCueDuration, limit));
+        }
+    }
+
+    return cues;
+}
@@ -0,0 +1,5 @@
+export { SubtitleFormat, SUBTITLE_FORMATS, SubtitleCue, CueOptions, DEFAULT_CUE_OPTIONS } from './types';
+export { buildCues, normalizeSegments, wrapText } from './cues';
+export { renderSubtitles, toSrt, toVtt, toTtml } from './writers';
+export { parseSubtitleFile, parseSrt, parseVtt } from './parsers';
+export { findSidecarSubtitles, HUMAN_TRANSCRIPTION_SOURCE, SIDECAR_SUBTITLE_FORMATS } from './sidecar';
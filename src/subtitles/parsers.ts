@@ -0,0 +1,98 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Timestamp } from '../utils';
+
+// "01:02:03,456", "01:02:03.456" or, in WebVTT, "02:03.456"
+const TIME_PATTERN = /^(?:(\d+):)?(\d{1,2}):(\d{1,2})[,.](\d{1,3})$/;
+
+function parseTime(value: string): number {
+    const match = value.trim().match(TIME_PATTERN);
+    if (!match) {
+        throw new Error(`Invalid subtitle timestamp "${value}"`);
+    }
+    const [, hours, minutes, seconds, fraction] = match;
+    return Number(hours || 0) * 3600 + Number(minutes) * 60 + Number(seconds) + Number(fraction.padEnd(3, '0')) / 1000;
+}
+
+// Drops formatting tags (<i>, <c.yellow>, <v Speaker>, {\an8}) and decodes the entities subtitle files use
+function cleanText(lines: string[]): string {
+    return lines
+        .join(' ')
+        .replace(/<[^>]*>/g, '')
+        .replace(/\{\\[^}]*\}/g, '')
+        .replace(/&nbsp;/g, ' ')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&amp;/g, '&')
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+// Splits the file into blank-line separated blocks
+function getBlocks(content: string): string[][] {
+    return content
+        .replace(/^\uFEFF/, '')
+        .replace(/\r\n?/g, '\n')
+        .split(/\n\s*\n/)
+        .map(block => block.split('\n').filter(line => line.trim().length > 0))
+        .filter(lines => lines.length > 0);
+}
+
+// Parses the cue blocks shared by both formats: an optional identifier line, the timing line, then text
+function parseCueBlocks(blocks: string[][]): Timestamp[] {
+    const timestamps: Timestamp[] = [];
+    for (const lines of blocks) {
+        const timingIndex = lines.findIndex(line => line.includes('-->'));
+        if (timingIndex === -1) {
+            continue;
+        }
+        const [startValue, rest] = lines[timingIndex].split('-->');
+        // WebVTT cue settings (align:start position:10%) follow the end time
+        const endValue = rest.trim().split(/\s+/)[0];
+        const text = cleanText(lines.slice(timingIndex + 1));
+        // WebVTT voice spans name the speaker: <v Jane Doe>Hello</v>
+        const voice = lines.slice(timingIndex + 1).join(' ').match(/<v(?:\.[^\s>]+)*\s+([^>]+)>/);
+        if (text) {
+            timestamps.push(voice
+                ? { start: parseTime(startValue), end: parseTime(endValue), text, speaker: voice[1].trim() }
+                : { start: parseTime(startValue), end: parseTime(endValue), text });
+        }
+    }
+    return timestamps;
+}
+
+export function parseSrt(content: string): Timestamp[] {
+    return parseCueBlocks(getBlocks(content));
+}
+
+export function parseVtt(content: string): Timestamp[] {
+    const blocks = getBlocks(content);
+    if (blocks.length === 0 || !blocks[0][0].startsWith('WEBVTT')) {
+        throw new Error('Not a WebVTT file: missing WEBVTT header');
+    }
+    // The header block and NOTE, STYLE and REGION blocks carry no cues
+    return parseCueBlocks(blocks.slice(1).filter(lines => !/^(NOTE|STYLE|REGION)\b/.test(lines[0])));
+}
+
+/**
+ * Reads an .srt or .vtt file into transcription segments
+ * @throws Error for other extensions, malformed timestamps or a file without cues
+ */
+export async function parseSubtitleFile(subtitlePath: string): Promise<Timestamp[]> {
+    const content = await fs.promises.readFile(subtitlePath, 'utf-8');
+    const extension = path.extname(subtitlePath).toLowerCase();
+
+    let timestamps: Timestamp[];
+    if (extension === '.srt') {
+        timestamps = parseSrt(content);
+    } else if (extension === '.vtt') {
+        timestamps = parseVtt(content);
+    } else {
+        throw new Error(`Unsupported subtitle format: ${subtitlePath}. Supported formats: .srt, .vtt`);
+    }
+
+    if (timestamps.length === 0) {
+        throw new Error(`No subtitle cues found in ${subtitlePath}`);
+    }
+    return timestamps;
+}
@@ -0,0 +1,38 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Transcription source name of imported captions, e.g. transcription_human.json
+export const HUMAN_TRANSCRIPTION_SOURCE = 'human';
+
+export const SIDECAR_SUBTITLE_FORMATS = ['.srt', '.vtt'];
+
+// Language tag between the video name and the extension, e.g. "en" or "pt-BR"
+const LANGUAGE_TAG = /^[a-z]{2,3}(-[A-Za-z0-9]+)?$/;
+
+/**
+ * Finds captions stored next to a video: lecture.srt or lecture.vtt,
+ * otherwise a language-tagged file such as lecture.en.srt
+ * @returns Path of the subtitle file, or null if there is none
+ */
+export function findSidecarSubtitles(videoPath: string): string | null {
+    const directory = path.dirname(videoPath);
+    const baseName = path.basename(videoPath, path.extname(videoPath));
+
+    for (const extension of SIDECAR_SUBTITLE_FORMATS) {
+        const candidate = path.join(directory, `${baseName}${extension}`);
+        if (fs.existsSync(candidate)) {
+            return candidate;
+        }
+    }
+
+    // Only a language tag may follow the name: lecture.part2.srt belongs to another video
+    const tagged = fs.readdirSync(directory)
+        .filter(file => {
+            const extension = path.extname(file);
+            return file.startsWith(`${baseName}.`)
+                && SIDECAR_SUBTITLE_FORMATS.includes(extension.toLowerCase())
+                && LANGUAGE_TAG.test(file.slice(baseName.length + 1, file.length - extension.length));
+        })
+        .sort();
+    return tagged.length > 0 ? path.join(directory, tagged[0]) : null;
+}
@@ -0,0 +1,27 @@
+export type SubtitleFormat = 'srt' | 'vtt' | 'ttml';
+
+export const SUBTITLE_FORMATS: SubtitleFormat[] = ['srt', 'vtt', 'ttml'];
+
+export interface SubtitleCue {
+    // Seconds
+    start: number;
+    end: number;
+    // Already wrapped, at most maxLines entries
+    lines: string[];
+}
+
+export interface CueOptions {
+    maxLineLength: number;
+    maxLines: number;
+    // Seconds
+    maxCueDuration: number;
+    minCueDuration: number;
+}
+
+// Common broadcast limits: two lines of 42 characters, shown for 1 to 7 seconds
+export const DEFAULT_CUE_OPTIONS: CueOptions = {
+    maxLineLength: 42,
+    maxLines: 2,
+    maxCueDuration: 7,
+    minCueDuration: 1
+};
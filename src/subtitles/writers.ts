@@ -0,0 +1,80 @@
+import { Transcript } from '../transcription/types';
+import { toTimestamps } from '../transcription/transcript';
+import { buildCues } from './cues';
+import { CueOptions, SubtitleCue, SubtitleFormat } from './types';
+
+// 75.4 -> "00:01:15.400"; SRT uses a comma before the milliseconds
+function formatTime(seconds: number, separator: string): string {
+    const totalMs = Math.round(Math.max(0, seconds) * 1000);
+    const ms = totalMs % 1000;
+    const totalSeconds = Math.floor(totalMs / 1000);
+    const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+    return `${pad(Math.floor(totalSeconds / 3600))}:${pad(Math.floor(totalSeconds / 60) % 60)}:${pad(totalSeconds % 60)}${separator}${pad(ms, 3)}`;
+}
+
+// Names some services report instead of a language code ("english" from Whisper)
+const LANGUAGE_NAMES: { [name: string]: string } = {
+    english: 'en', russian: 'ru', ukrainian: 'uk', german: 'de', french: 'fr', spanish: 'es', italian: 'it',
+    portuguese: 'pt', polish: 'pl', dutch: 'nl', turkish: 'tr', chinese: 'zh', japanese: 'ja', korean: 'ko'
+};
+
+// Language of a transcript as a tag for xml:lang; 'en' when the service did not report one we understand
+function languageTag(language: string | undefined): string {
+    const value = (language || '').trim();
+    if (/^[a-z]{2,3}(-[a-z0-9]{2,8})*$/i.test(value)) {
+        return value;
+    }
+    return LANGUAGE_NAMES[value.toLowerCase()] || 'en';
+}
+
+function escapeMarkup(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+export function toSrt(cues: SubtitleCue[]): string {
+    return cues
+        .map((cue, index) => `${index + 1}\n${formatTime(cue.start, ',')} --> ${formatTime(cue.end, ',')}\n${cue.lines.join('\n')}\n`)
+        .join('\n');
+}
+
+export function toVtt(cues: SubtitleCue[]): string {
+    const body = cues
+        .map(cue => `${formatTime(cue.start, '.')} --> ${formatTime(cue.end, '.')}\n${cue.lines.map(escapeMarkup).join('\n')}\n`)
+        .join('\n');
+    return `WEBVTT\n\n${body}`;
+}
+
+export function toTtml(cues: SubtitleCue[], language = 'en'): string {
+    const paragraphs = cues
+        .map(cue => `      <p begin="${formatTime(cue.start, '.')}" end="${formatTime(cue.end, '.')}">${cue.lines.map(escapeMarkup).join('<br/>')}</p>`)
+        .join('\n');
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        `<tt xmlns="http://www.w3.org/ns/ttml" xml:lang="${escapeMarkup(language)}">`,
+        '  <body>',
+        '    <div>',
+        paragraphs,
+        '    </div>',
+        '  </body>',
+        '</tt>',
+        ''
+    ].join('\n');
+}
+
+/**
+ * Renders a transcription as a subtitle file
+ * @param transcript Transcription with segments in any order; its language goes into TTML
+ * @param format Output format
+ * @param options Line and duration limits
+ */
+export function renderSubtitles(transcript: Transcript, format: SubtitleFormat, options: Partial<CueOptions> = {}): string {
+    const cues = buildCues(toTimestamps(transcript), options);
+    switch (format) {
+        case 'srt':
+            return toSrt(cues);
+        case 'vtt':
+            return toVtt(cues);
+        case 'ttml':
+            return toTtml(cues, languageTag(transcript.language));
+    }
+}
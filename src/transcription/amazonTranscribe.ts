@@ -1,8 +1,10 @@
 import * as fs from 'fs';
 import path from 'path';
 import { randomUUID } from 'crypto';
-import { Timestamp, retry } from '../utils';
-import { TranscriptionService } from './types';
+import { getMediaDuration } from '../utils';
+import { FatalError, TRANSCRIPTION_RETRY_POLICY, retry, sleep } from '../retry';
+import { Transcript, TranscriptionContext, TranscriptionService, TranscriptSegment, TranscriptWord, withinLimits } from './types';
+import { segmentWords } from './segmenter';
 import { S3Client, PutObjectCommand, GetObjectCommand, DeleteObjectCommand, HeadBucketCommand } from '@aws-sdk/client-s3';
 import { TranscribeClient, StartTranscriptionJobCommand, GetTranscriptionJobCommand } from '@aws-sdk/client-transcribe';
 
@@ -23,14 +25,29 @@ const transcribeClient = new TranscribeClient({
     }
 });
 
+// Amazon requires an upper bound on the number of speakers, between 2 and 30
+const DEFAULT_MAX_SPEAKERS = 10;
+
+// How often the job status is checked; the retry deadline bounds the total wait
+const POLL_INTERVAL_MS = 5000;
+
 export class AmazonTranscribeService implements TranscriptionService {
-    async transcribe(audioPath: string): Promise<Timestamp[]> {
-        return retry(async () => {
-            return await this.transcribeWithAmazon(audioPath);
+    readonly supportsDiarization = true;
+
+    async transcribe(audioPath: string, context: TranscriptionContext = {}): Promise<Transcript> {
+        return retry(signal => withinLimits(context, () => this.transcribeWithAmazon(audioPath, context, signal)), {
+            ...TRANSCRIPTION_RETRY_POLICY,
+            signal: context.signal,
+            label: 'Amazon Transcribe transcription',
+            onRetry: context.onRetry
         });
     }
 
-    private async transcribeWithAmazon(audioPath: string): Promise<Timestamp[]> {
+    getOptions(): Record<string, unknown> {
+        return { identifyLanguage: true };
+    }
+
+    private async transcribeWithAmazon(audioPath: string, context: TranscriptionContext, signal: AbortSignal): Promise<Transcript> {
         console.log('Using Amazon Transcribe for transcription...');
         
         // Upload file to S3 (required for Amazon Transcribe)
@@ -44,9 +61,10 @@ export class AmazonTranscribeService implements TranscriptionService {
         
         // Ensure S3 bucket exists
         try {
-            await s3Client.send(new HeadBucketCommand({ Bucket: bucketName }));
+            await s3Client.send(new HeadBucketCommand({ Bucket: bucketName }), { abortSignal: signal });
         } catch (error: any) {
-            throw new Error(`S3 bucket error: ${error.message}`);
+            // Kept as the cause, so a missing bucket is not retried but a throttled request is
+            throw Object.assign(new Error(`S3 bucket error: ${error.message}`), { cause: error });
         }
         
         try {
@@ -56,7 +74,7 @@ export class AmazonTranscribeService implements TranscriptionService {
                 Bucket: bucketName,
                 Key: s3Key,
                 Body: fs.createReadStream(audioPath)
-            }));
+            }), { abortSignal: signal });
             uploadedToS3 = true;
             filesCreated.push(s3Key);
             
@@ -69,39 +87,52 @@ export class AmazonTranscribeService implements TranscriptionService {
                     MediaFileUri: `s3://${bucketName}/${s3Key}`
                 },
                 OutputBucketName: bucketName,
-                OutputKey: outputKey
-            }));
+                OutputKey: outputKey,
+                Settings: context.diarize ? {
+                    ShowSpeakerLabels: true,
+                    MaxSpeakerLabels: Math.min(30, Math.max(2, context.speakers || DEFAULT_MAX_SPEAKERS))
+                } : undefined
+            }), { abortSignal: signal });
             
             // Poll for job completion
             console.log('Waiting for transcription to complete...');
             let completed = false;
             let transcript = null;
+            let languageCode: string | undefined;
 
             while (!completed) {
-                const jobStatus = await transcribeClient.send(new GetTranscriptionJobCommand({
+                // A failed status check is retried on its own, so it does not start another job
+                const jobStatus = await retry(pollSignal => transcribeClient.send(new GetTranscriptionJobCommand({
                     TranscriptionJobName: jobName
-                }));
+                }), { abortSignal: pollSignal }), { signal, deadlineMs: 0, label: 'Amazon Transcribe status check', onRetry: context.onRetry });
 
                 if (['COMPLETED', 'FAILED'].includes(jobStatus.TranscriptionJob?.TranscriptionJobStatus || '')) {
                     completed = true;
                     if (jobStatus.TranscriptionJob?.TranscriptionJobStatus === 'COMPLETED') {
                         // Download transcript from S3
                         console.log('Transcription complete, downloading transcript...');
+                        languageCode = jobStatus.TranscriptionJob.LanguageCode;
+                        // Jobs are billed by the second, at least 15 seconds each
+                        const duration = await getMediaDuration(audioPath);
+                        if (duration !== null) {
+                            context.usage?.record({ provider: 'amazon', audioSeconds: Math.max(15, duration) });
+                        }
                         filesCreated.push(outputKey);
                         const response = await s3Client.send(new GetObjectCommand({
                             Bucket: bucketName,
                             Key: outputKey
-                        }));
+                        }), { abortSignal: signal });
 
                         // Convert stream to string
                         const body = await this.streamToString(response.Body);
                         transcript = JSON.parse(body);
                     } else {
-                        throw new Error('Transcription job failed');
+                        // Amazon rejected the media or the settings; the same job would fail again
+                        throw new FatalError(`Transcription job failed: ${jobStatus.TranscriptionJob?.FailureReason || 'no reason given'}`);
                     }
                 } else {
-                    console.log(`Transcription in progress (status: ${jobStatus.TranscriptionJob?.TranscriptionJobStatus}), waiting 5 seconds...`);
-                    await new Promise(resolve => setTimeout(resolve, 5000));
+                    console.log(`Transcription in progress (status: ${jobStatus.TranscriptionJob?.TranscriptionJobStatus}), waiting ${POLL_INTERVAL_MS / 1000} seconds...`);
+                    await sleep(POLL_INTERVAL_MS, signal);
                 }
             }
 
@@ -109,14 +140,17 @@ export class AmazonTranscribeService implements TranscriptionService {
                 throw new Error('Invalid transcript format received from Amazon Transcribe');
             }
             
-            // Convert Amazon Transcribe format to our Timestamp format
-            const timestamps = this.convertAmazonTranscriptToTimestamps(transcript);
+            // Convert Amazon Transcribe format to our transcript format
+            const segments = this.convertAmazonTranscriptToSegments(transcript);
             
             // Cleanup S3 files
             console.log('Cleaning up S3 files...');
             await this.cleanupS3Files(bucketName, filesCreated);
             
-            return timestamps;
+            return {
+                language: languageCode || transcript.results.language_code,
+                segments
+            };
         } catch (error) {
             // If an error occurs, still try to delete uploaded files
             if (uploadedToS3 && filesCreated.length > 0) {
@@ -169,87 +203,35 @@ export class AmazonTranscribeService implements TranscriptionService {
         }
     }
 
-    // Helper function to convert Amazon Transcribe format to our Timestamp format
-    private convertAmazonTranscriptToTimestamps(transcript: any): Timestamp[] {
-        const items = transcript.results.items;
-        const segments: Timestamp[] = [];
-        let currentSegment: Timestamp = {
-            start: 0,
-            end: 0,
-            text: ''
-        };
-
-        let sentenceStart = true;
-        let currentWords: string[] = [];
-        let currentStartTime = 0;
-        let currentEndTime = 0;
-
-        // Group words into sentences
-        items.forEach((item: any, index: number) => {
-            if (item.type === 'pronunciation') {
-                const startTime = parseFloat(item.start_time);
-                const endTime = parseFloat(item.end_time);
-                
-                // Set start time for new segment
-                if (sentenceStart) {
-                    currentStartTime = startTime;
-                    sentenceStart = false;
-                }
+    // Helper function to convert Amazon Transcribe items to words, cut into segments by the shared segmenter
+    private convertAmazonTranscriptToSegments(transcript: any): TranscriptSegment[] {
+        const words: TranscriptWord[] = [];
 
-                // Update end time with latest word
-                currentEndTime = endTime;
-                
-                // Add word to current sentence
-                currentWords.push(item.alternatives[0].content);
-            } else if (item.type === 'punctuation') {
-                // Add punctuation to the last word
-                if (currentWords.length > 0) {
-                    currentWords[currentWords.length - 1] += item.alternatives[0].content;
-                }
-                
-                // If the punctuation is a period, question mark, or exclamation mark, finish the segment
-                if (['.', '?', '!'].includes(item.alternatives[0].content)) {
-                    currentSegment = {
-                        start: currentStartTime,
-                        end: currentEndTime,
-                        text: currentWords.join(' ')
-                    };
-                    
-                    segments.push(currentSegment);
-                    
-                    // Reset for next segment
-                    currentWords = [];
-                    sentenceStart = true;
-                }
+        // Older outputs only list speakers in results.speaker_labels, keyed by the word start time
+        const speakersByStart = new Map<string, string>();
+        for (const speakerSegment of transcript.results.speaker_labels?.segments || []) {
+            for (const speakerItem of speakerSegment.items || []) {
+                speakersByStart.set(speakerItem.start_time, speakerItem.speaker_label);
             }
-            
-            // If we've accumulated 15+ words without punctuation, create a segment anyway
-            if (currentWords.length >= 15 && !sentenceStart) {
-                currentSegment = {
-                    start: currentStartTime,
-                    end: currentEndTime,
-                    text: currentWords.join(' ')
-                };
-                
-                segments.push(currentSegment);
-                
-                // Reset for next segment
-                currentWords = [];
-                sentenceStart = true;
-            }
-            
-            // Add final segment if there are any words left
-            if (index === items.length - 1 && currentWords.length > 0) {
-                currentSegment = {
-                    start: currentStartTime,
-                    end: currentEndTime,
-                    text: currentWords.join(' ')
-                };
-                
-                segments.push(currentSegment);
+        }
+
+        for (const item of transcript.results.items) {
+            const alternative = item.alternatives[0];
+            if (item.type === 'pronunciation') {
+                words.push({
+                    start: parseFloat(item.start_time),
+                    end: parseFloat(item.end_time),
+                    text: alternative.content,
+                    confidence: alternative.confidence !== undefined ? parseFloat(alternative.confidence) : undefined,
+                    // Only present when speaker labels were requested
+                    speaker: item.speaker_label || speakersByStart.get(item.start_time)
+                });
+            } else if (item.type === 'punctuation' && words.length > 0) {
+                // Add punctuation to the last word
+                words[words.length - 1].text += alternative.content;
             }
-        });
+        }
 
-        return segments;
+        return segmentWords(words);
     }
-} 
\ No newline at end of file
+}
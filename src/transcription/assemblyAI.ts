@@ -1,88 +1,90 @@
 import { AssemblyAI } from 'assemblyai';
-import { Timestamp, retry } from '../utils';
-import { TranscriptionService } from './types';
+import { FatalError, TRANSCRIPTION_RETRY_POLICY, abortable, retry, sleep } from '../retry';
+import { Transcript, TranscriptionContext, TranscriptionService, TranscriptWord, withinLimits } from './types';
+import { segmentWords } from './segmenter';
 
 // Initialize AssemblyAI client
 const assemblyai = new AssemblyAI({
     apiKey: process.env.ASSEMBLYAI_API_KEY || ''
 });
 
+// How often a submitted transcript is checked until it is completed
+const POLL_INTERVAL_MS = 3000;
+
 export class AssemblyAIService implements TranscriptionService {
-    async transcribe(audioPath: string): Promise<Timestamp[]> {
-        return retry(async () => {
-            return await this.transcribeWithAssemblyAI(audioPath);
+    readonly supportsDiarization = true;
+
+    async transcribe(audioPath: string, context: TranscriptionContext = {}): Promise<Transcript> {
+        return retry(signal => withinLimits(context, () => this.transcribeWithAssemblyAI(audioPath, context, signal)), {
+            ...TRANSCRIPTION_RETRY_POLICY,
+            signal: context.signal,
+            label: 'AssemblyAI transcription',
+            onRetry: context.onRetry
         });
     }
 
-    private async transcribeWithAssemblyAI(audioPath: string): Promise<Timestamp[]> {
+    getOptions(): Record<string, unknown> {
+        return { punctuate: true, formatText: true, disfluencies: false };
+    }
+
+    private async transcribeWithAssemblyAI(audioPath: string, context: TranscriptionContext, signal: AbortSignal): Promise<Transcript> {
         console.log('Using AssemblyAI for transcription...');
         
         // Начинаем транскрипцию через AssemblyAI (поддерживает локальные файлы)
-        const transcript = await assemblyai.transcripts.transcribe({
+        // The SDK takes no signal, so the upload and the polling are only stopped waiting for on abort
+        const submitted = await abortable(assemblyai.transcripts.submit({
             audio: audioPath,
             punctuate: true,   // Добавляем пунктуацию
             format_text: true, // Добавляем форматирование текста
-            disfluencies: false // Убираем слова-паразиты
-        });
-        
+            disfluencies: false, // Убираем слова-паразиты
+            speaker_labels: !!context.diarize,
+            speakers_expected: context.diarize ? context.speakers : undefined
+        }), signal);
+
+        let transcript = submitted;
+        while (transcript.status !== 'completed' && transcript.status !== 'error') {
+            await sleep(POLL_INTERVAL_MS, signal);
+            // A failed status check is retried on its own, so it does not submit the audio again
+            transcript = await retry(pollSignal => abortable(assemblyai.transcripts.get(submitted.id), pollSignal), {
+                signal,
+                deadlineMs: 0,
+                label: 'AssemblyAI status check',
+                onRetry: context.onRetry
+            });
+        }
+
+        // The audio was rejected (unsupported, no speech...), which another attempt does not change
         if (transcript.status !== 'completed') {
-            throw new Error(`AssemblyAI transcription failed with status: ${transcript.status}`);
+            throw new FatalError(`AssemblyAI transcription failed with status: ${transcript.status}${transcript.error ? ` (${transcript.error})` : ''}`);
         }
+        context.usage?.record({ provider: 'assemblyai', audioSeconds: transcript.audio_duration ?? undefined });
         
-        // Преобразуем формат AssemblyAI в наш формат Timestamp
+        const language = transcript.language_code || undefined;
+
+        // Преобразуем формат AssemblyAI в наш формат
         if (!transcript.words || transcript.words.length === 0) {
             // Если нет разбивки по словам, создаем один сегмент со всем текстом
-            return [{
-                start: 0,
-                end: transcript.audio_duration || 0,
-                text: transcript.text || ''
-            }];
-        }
-        
-        // Создаем сегменты из слов, группируя их по предложениям
-        // (примерно каждые 10-15 слов, или по знакам препинания)
-        const segments: Timestamp[] = [];
-        let currentSegment: Timestamp = {
-            start: 0,
-            end: 0,
-            text: ''
-        };
-        
-        let wordCount = 0;
-        let segmentWords: typeof transcript.words = [];
-        
-        // Группируем слова в сегменты
-        for (const word of transcript.words) {
-            segmentWords.push(word);
-            wordCount++;
-            
-            // Создаем новый сегмент каждые ~10 слов или на знаках препинания
-            const endsWithPunctuation = word.text?.match(/[.!?;]$/);
-            
-            if (wordCount >= 10 || endsWithPunctuation) {
-                if (segmentWords.length > 0) {
-                    currentSegment = {
-                        start: segmentWords[0].start || 0,
-                        end: segmentWords[segmentWords.length - 1].end || 0,
-                        text: segmentWords.map(w => w.text).join(' ')
-                    };
-                    segments.push(currentSegment);
-                    segmentWords = [];
-                    wordCount = 0;
-                }
-            }
-        }
-        
-        // Добавляем оставшиеся слова в последний сегмент
-        if (segmentWords.length > 0) {
-            currentSegment = {
-                start: segmentWords[0].start || 0,
-                end: segmentWords[segmentWords.length - 1].end || 0,
-                text: segmentWords.map(w => w.text).join(' ')
+            return {
+                language,
+                segments: [{
+                    start: 0,
+                    end: transcript.audio_duration || 0,
+                    text: transcript.text || '',
+                    confidence: transcript.confidence ?? undefined
+                }]
             };
-            segments.push(currentSegment);
         }
         
-        return segments;
+        // AssemblyAI reports word times in milliseconds
+        const words: TranscriptWord[] = transcript.words.map(word => ({
+            start: word.start / 1000,
+            end: word.end / 1000,
+            text: word.text,
+            confidence: word.confidence,
+            speaker: word.speaker || undefined
+        }));
+
+        // Segments come from the shared segmenter (sentences, pauses, length, speaker changes)
+        return { language, segments: segmentWords(words) };
     }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,125 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { hashValues } from '../utils';
+import { Transcript } from './types';
+import { fromTimestamps } from './transcript';
+
+export interface TranscriptionCacheEntry {
+    key: string;
+    audioHash: string;
+    service: string;
+    options: Record<string, unknown>;
+    createdAt: string;
+    // Provider metadata: where the audio came from and how long the call took
+    metadata: {
+        sourceFile: string;
+        durationMs: number;
+        segments: number;
+    };
+    transcript: Transcript;
+}
+
+export interface PruneOptions {
+    olderThanDays?: number;
+    services?: string[];
+}
+
+export const DEFAULT_CACHE_DIR = path.join(process.cwd(), 'cache', 'transcriptions');
+
+/**
+ * Content-addressed store of transcriptions, shared across videos and runs.
+ * The same audio transcribed by the same service with the same options is only paid for once,
+ * whatever the file is called.
+ */
+export class TranscriptionCache {
+    constructor(private cacheDir: string = process.env.TRANSCRIPTION_CACHE_DIR || DEFAULT_CACHE_DIR) {}
+
+    static computeKey(audioHash: string, service: string, options: Record<string, unknown>): string {
+        return hashValues(audioHash, service, options);
+    }
+
+    getDirectory(): string {
+        return this.cacheDir;
+    }
+
+    async get(key: string): Promise<TranscriptionCacheEntry | null> {
+        const entryPath = this.getEntryPath(key);
+        if (!fs.existsSync(entryPath)) {
+            return null;
+        }
+        try {
+            const entry = JSON.parse(await fs.promises.readFile(entryPath, 'utf-8'));
+            // Entries written before transcripts carried words and confidence only have plain timestamps
+            if (!entry.transcript && Array.isArray(entry.timestamps)) {
+                entry.transcript = fromTimestamps(entry.timestamps);
+                delete entry.timestamps;
+            }
+            return entry;
+        } catch (error: any) {
+            console.warn(`Ignoring unreadable cache entry ${entryPath}: ${error.message}`);
+            return null;
+        }
+    }
+
+    async set(entry: TranscriptionCacheEntry): Promise<void> {
+        await fs.promises.mkdir(this.cacheDir, { recursive: true });
+        // Write to a temporary file first so a crash never leaves a half-written entry
+        const entryPath = this.getEntryPath(entry.key);
+        // Unique per write: two videos with the same audio may store the same entry at once
+        const tempPath = `${entryPath}.${process.pid}.${randomUUID()}.tmp`;
+        await fs.promises.writeFile(tempPath, JSON.stringify(entry, null, 2), 'utf-8');
+        await fs.promises.rename(tempPath, entryPath);
+    }
+
+    async list(): Promise<TranscriptionCacheEntry[]> {
+        if (!fs.existsSync(this.cacheDir)) {
+            return [];
+        }
+        const entries: TranscriptionCacheEntry[] = [];
+        for (const file of fs.readdirSync(this.cacheDir)) {
+            if (file.endsWith('.json')) {
+                const entry = await this.get(path.basename(file, '.json'));
+                if (entry) {
+                    entries.push(entry);
+                }
+            }
+        }
+        return entries.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    }
+
+    /**
+     * Finds an entry by its full key or an unambiguous key prefix
+     * @throws Error if the prefix matches several entries
+     */
+    async find(keyPrefix: string): Promise<TranscriptionCacheEntry | null> {
+        const matches = (await this.list()).filter(entry => entry.key.startsWith(keyPrefix));
+        if (matches.length > 1) {
+            throw new Error(`Cache key prefix "${keyPrefix}" is ambiguous (${matches.length} entries)`);
+        }
+        return matches[0] || null;
+    }
+
+    /**
+     * Removes entries matching all given filters; without filters the whole cache is emptied
+     * @returns Removed entries
+     */
+    async prune(options: PruneOptions = {}): Promise<TranscriptionCacheEntry[]> {
+        const cutoff = options.olderThanDays !== undefined
+            ? Date.now() - options.olderThanDays * 24 * 60 * 60 * 1000
+            : undefined;
+
+        const removed = (await this.list()).filter(entry =>
+            (cutoff === undefined || new Date(entry.createdAt).getTime() < cutoff) &&
+            (!options.services || options.services.includes(entry.service)));
+
+        for (const entry of removed) {
+            await fs.promises.rm(this.getEntryPath(entry.key), { force: true });
+        }
+        return removed;
+    }
+
+    private getEntryPath(key: string): string {
+        return path.join(this.cacheDir, `${key}.json`);
+    }
+}
@@ -0,0 +1,298 @@
+import ffmpeg from 'fluent-ffmpeg';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { getMediaDuration, mapWithConcurrency } from '../utils';
+import { throwIfAborted } from '../retry';
+import { Transcript, TranscriptionContext, TranscriptionService, TranscriptSegment, TranscriptWord } from './types';
+import { normalizeWord } from './transcript';
+import { getSegmentWords } from './segmenter';
+
+export interface ChunkingOptions {
+    // Longest chunk in seconds; 0 leaves it to the limits of the service
+    maxDuration: number;
+    // Seconds each chunk extends into its neighbours, so no word is cut in half
+    overlap: number;
+    // Seconds before the planned cut in which a silence is looked for
+    silenceWindow: number;
+    // Volume in dB below which audio counts as silence
+    silenceThreshold: number;
+    // Shortest silence in seconds that can take a cut
+    minSilence: number;
+    // Chunks transcribed at the same time
+    concurrency: number;
+}
+
+export const DEFAULT_CHUNKING_OPTIONS: ChunkingOptions = {
+    maxDuration: 0,
+    overlap: 3,
+    silenceWindow: 60,
+    silenceThreshold: -35,
+    minSilence: 0.4,
+    concurrency: 1
+};
+
+// Chunks are planned this much below a size limit, since the bitrate of a piece varies
+const SIZE_LIMIT_MARGIN = 0.9;
+
+// The same word heard by two chunks is at most this many seconds apart (estimated word times are rough)
+const DUPLICATE_WORD_TOLERANCE = 1.5;
+
+export interface Silence {
+    start: number;
+    end: number;
+}
+
+export interface AudioChunk {
+    // Seconds in the full audio covered by the chunk file, overlap included
+    start: number;
+    end: number;
+    // The part of the audio whose words this chunk keeps when stitching
+    from: number;
+    to: number;
+}
+
+/**
+ * Longest chunk a service can take for this audio, from its duration and size limits
+ * and the configured maximum
+ * @returns null when the audio fits into one request
+ */
+export function getChunkDuration(
+    duration: number,
+    fileSizeMb: number,
+    service: TranscriptionService,
+    options: Partial<ChunkingOptions> = {}
+): number | null {
+    const limits = [options.maxDuration || Infinity, service.maxDuration || Infinity];
+    if (service.maxFileSizeMb && fileSizeMb > 0) {
+        limits.push(duration * (service.maxFileSizeMb * SIZE_LIMIT_MARGIN) / fileSizeMb);
+    }
+    const limit = Math.min(...limits);
+    return limit < duration ? Math.floor(limit) : null;
+}
+
+/**
+ * Cuts the audio into chunks of at most maxDuration seconds including their overlap.
+ * Each cut is moved to the middle of the latest silence within silenceWindow seconds before it;
+ * without one the audio is cut at the planned point.
+ */
+export function planChunks(duration: number, silences: Silence[], maxDuration: number, options: Partial<ChunkingOptions> = {}): AudioChunk[] {
+    const settings = { ...DEFAULT_CHUNKING_OPTIONS, ...options };
+    // A chunk reaches into the previous and the next one, so its own part is shorter
+    const overlap = Math.min(settings.overlap, maxDuration / 4);
+    const step = maxDuration - 2 * overlap;
+
+    const cuts: number[] = [];
+    let position = 0;
+    while (duration - position > maxDuration - overlap) {
+        const planned = position + step;
+        const silence = silences
+            .map(item => (item.start + item.end) / 2)
+            .filter(middle => middle > Math.max(position, planned - settings.silenceWindow) && middle <= planned)
+            .pop();
+        position = silence ?? planned;
+        cuts.push(position);
+    }
+
+    const bounds = [0, ...cuts, duration];
+    return bounds.slice(0, -1).map((from, i) => ({
+        start: Math.max(0, from - overlap),
+        end: Math.min(duration, bounds[i + 1] + overlap),
+        from,
+        to: bounds[i + 1]
+    }));
+}
+
+// Silences found by ffmpeg's silencedetect filter, in time order
+export function detectSilences(audioPath: string, options: Partial<ChunkingOptions> = {}): Promise<Silence[]> {
+    const settings = { ...DEFAULT_CHUNKING_OPTIONS, ...options };
+    return new Promise((resolve, reject) => {
+        const silences: Silence[] = [];
+        let start: number | null = null;
+        ffmpeg(audioPath)
+            .noVideo()
+            .audioFilters(`silencedetect=noise=${settings.silenceThreshold}dB:d=${settings.minSilence}`)
+            .format('null')
+            .on('stderr', (line: string) => {
+                const startMatch = line.match(/silence_start: (-?[\d.]+)/);
+                const endMatch = line.match(/silence_end: (-?[\d.]+)/);
+                if (startMatch) {
+                    start = Math.max(0, parseFloat(startMatch[1]));
+                } else if (endMatch && start !== null) {
+                    silences.push({ start, end: parseFloat(endMatch[1]) });
+                    start = null;
+                }
+            })
+            .on('end', () => resolve(silences))
+            .on('error', (err: Error) => reject(err))
+            .save(os.platform() === 'win32' ? 'NUL' : '/dev/null');
+    });
+}
+
+// Writes one chunk of the audio as MP3
+function extractChunk(audioPath: string, chunk: AudioChunk, outputPath: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+        ffmpeg(audioPath)
+            .setStartTime(chunk.start)
+            .setDuration(chunk.end - chunk.start)
+            .noVideo()
+            .toFormat('mp3')
+            .on('end', () => resolve(outputPath))
+            .on('error', (err: Error) => reject(err))
+            .save(outputPath);
+    });
+}
+
+// Moves a segment of a chunk to its place in the full audio
+function offsetSegment(segment: TranscriptSegment, offset: number): TranscriptSegment {
+    const moved: TranscriptSegment = { ...segment, start: segment.start + offset, end: segment.end + offset };
+    if (segment.words) {
+        moved.words = segment.words.map(word => ({ ...word, start: word.start + offset, end: word.end + offset }));
+    }
+    return moved;
+}
+
+interface ChunkWord {
+    word: TranscriptWord;
+    // Index of the segment the word belongs to
+    segment: number;
+}
+
+const middleOf = (word: TranscriptWord) => (word.start + word.end) / 2;
+
+/**
+ * Where one chunk hands over to the next: right after a word both heard in the overlap at about the same time,
+ * the one closest to the cut. Without such a word each side keeps the words whose middle lies on its side of the cut.
+ * @returns Words of the previous chunk to keep, and the first word of the next chunk to keep
+ */
+function findJoin(previous: ChunkWord[], next: ChunkWord[], previousChunk: AudioChunk, nextChunk: AudioChunk): { previousEnd: number; nextStart: number } {
+    const cut = nextChunk.from;
+    const inOverlap = (item: ChunkWord) => middleOf(item.word) >= nextChunk.start && middleOf(item.word) <= previousChunk.end;
+
+    let best: { previousEnd: number; nextStart: number; distance: number } | null = null;
+    previous.forEach((left, i) => {
+        if (!inOverlap(left)) {
+            return;
+        }
+        next.forEach((right, j) => {
+            if (inOverlap(right) &&
+                normalizeWord(left.word.text) === normalizeWord(right.word.text) &&
+                Math.abs(left.word.start - right.word.start) <= DUPLICATE_WORD_TOLERANCE) {
+                const distance = Math.abs(middleOf(left.word) - cut);
+                if (!best || distance < best.distance) {
+                    best = { previousEnd: i + 1, nextStart: j + 1, distance };
+                }
+            }
+        });
+    });
+    if (best) {
+        return best;
+    }
+
+    const previousEnd = previous.filter(item => middleOf(item.word) < cut).length;
+    const nextStart = next.findIndex(item => middleOf(item.word) >= cut);
+    return { previousEnd, nextStart: nextStart === -1 ? next.length : nextStart };
+}
+
+/**
+ * Joins the transcripts of the chunks into one. Neighbouring chunks heard the overlap twice;
+ * each word there is kept from one side only (see findJoin). Segments that lose some words
+ * are rebuilt from the rest.
+ */
+export function stitchChunks(results: { chunk: AudioChunk; transcript: Transcript }[]): Transcript {
+    const pieces = results.map(({ chunk, transcript }) => {
+        const segments = transcript.segments.map(segment => offsetSegment(segment, chunk.start));
+        const counts = segments.map(() => 0);
+        const words: ChunkWord[] = [];
+        segments.forEach((segment, index) => {
+            const segmentWords = getSegmentWords(segment);
+            counts[index] = segmentWords.length;
+            words.push(...segmentWords.map(word => ({ word, segment: index })));
+        });
+        return { chunk, segments, counts, words, keepFrom: 0, keepTo: words.length };
+    });
+
+    for (let i = 1; i < pieces.length; i++) {
+        const join = findJoin(pieces[i - 1].words, pieces[i].words, pieces[i - 1].chunk, pieces[i].chunk);
+        pieces[i - 1].keepTo = Math.max(pieces[i - 1].keepFrom, join.previousEnd);
+        pieces[i].keepFrom = join.nextStart;
+    }
+
+    const segments: TranscriptSegment[] = [];
+    for (const piece of pieces) {
+        const kept = new Map<number, TranscriptWord[]>();
+        for (const { word, segment } of piece.words.slice(piece.keepFrom, piece.keepTo)) {
+            kept.set(segment, [...(kept.get(segment) || []), word]);
+        }
+        piece.segments.forEach((segment, index) => {
+            const words = kept.get(index);
+            if (!words) {
+                return;
+            }
+            if (words.length === piece.counts[index]) {
+                segments.push(segment);
+                return;
+            }
+            const rebuilt: TranscriptSegment = {
+                ...segment,
+                start: words[0].start,
+                end: words[words.length - 1].end,
+                text: words.map(word => word.text).join(' ')
+            };
+            // Reported words line up one to one with the text tokens; estimated ones are not kept
+            if (segment.words && segment.words.length === piece.counts[index]) {
+                rebuilt.words = words;
+            } else {
+                delete rebuilt.words;
+            }
+            segments.push(rebuilt);
+        });
+    }
+
+    return {
+        language: results.map(result => result.transcript.language).find(language => language !== undefined),
+        segments
+    };
+}
+
+/**
+ * Transcribes audio that is too long or too large for one request in overlapping chunks
+ * cut at silences, and stitches the results
+ * @param chunkDuration Longest chunk in seconds, see getChunkDuration
+ */
+export async function transcribeInChunks(
+    audioPath: string,
+    service: TranscriptionService,
+    context: TranscriptionContext,
+    chunkDuration: number,
+    options: Partial<ChunkingOptions> = {}
+): Promise<Transcript> {
+    const settings = { ...DEFAULT_CHUNKING_OPTIONS, ...options };
+    const duration = await getMediaDuration(audioPath);
+    if (duration === null) {
+        throw new Error(`Could not read the duration of ${audioPath}, cannot split it into chunks`);
+    }
+
+    const silences = await detectSilences(audioPath, settings);
+    const chunks = planChunks(duration, silences, chunkDuration, settings);
+    console.log(`Transcribing ${Math.round(duration)}s of audio in ${chunks.length} chunks of up to ${chunkDuration}s...`);
+    if (context.diarize) {
+        console.warn('Speaker labels are assigned per chunk and may not match across chunks');
+    }
+
+    const chunkDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'transcription-chunks-'));
+    try {
+        // The chunks are audio; a video source would bring back the full length
+        const chunkContext: TranscriptionContext = { ...context, source: undefined };
+        const results = await mapWithConcurrency(chunks, settings.concurrency, async (chunk, i) => {
+            // After a cancel the remaining chunks are not even cut
+            throwIfAborted(context.signal);
+            const chunkPath = await extractChunk(audioPath, chunk, path.join(chunkDir, `chunk-${i}.mp3`));
+            console.log(`Transcribing chunk ${i + 1}/${chunks.length} (${chunk.start.toFixed(1)}s-${chunk.end.toFixed(1)}s)...`);
+            return { chunk, transcript: await service.transcribe(chunkPath, chunkContext) };
+        });
+        return stitchChunks(results);
+    } finally {
+        await fs.promises.rm(chunkDir, { recursive: true, force: true });
+    }
+}
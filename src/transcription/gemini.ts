@@ -1,63 +1,141 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import { Timestamp, retry } from '../utils';
-import { TranscriptionService } from './types';
+import { getMediaDuration } from '../utils';
+import { FatalError, TRANSCRIPTION_RETRY_POLICY, retry } from '../retry';
+import { Transcript, TranscriptionContext, TranscriptionService, TranscriptSegment, withinLimits } from './types';
+import { GeminiFile, GeminiFileClient, HttpClient } from './geminiFiles';
 import { GoogleGenerativeAI, Part } from '@google/generative-ai';
-import ffmpeg from 'fluent-ffmpeg';
-import * as os from 'os';
-import * as crypto from 'crypto';
+
+// Use gemini-2.0-flash which supports audio files
+const GEMINI_TRANSCRIPTION_MODEL = 'gemini-2.0-flash';
+
+// Inline requests are limited to 20 MB, and base64 makes the media a third larger
+const GEMINI_INLINE_LIMIT_MB = 14;
+
+// Largest file the file API accepts
+const GEMINI_FILE_LIMIT_MB = 2048;
+
+// Longer media is transcribed in chunks: the transcript of one request has to fit the model's output tokens
+const GEMINI_MAX_DURATION_SECONDS = 20 * 60;
+
+// Tokens Gemini counts per second of sound
+const GEMINI_AUDIO_TOKENS_PER_SECOND = 32;
+
+export interface GeminiTranscriptionOptions {
+    // API root for the model and the file API, e.g. a local stand-in server (default: GEMINI_API_BASE_URL)
+    baseUrl?: string;
+    // HTTP layer of the file API
+    http?: HttpClient;
+    // Media up to this size is sent inline, larger media is uploaded first
+    inlineLimitMb: number;
+    // How often an uploaded file is checked until Gemini has processed it
+    pollIntervalMs?: number;
+}
 
 export class GeminiTranscriptionService implements TranscriptionService {
-    async transcribe(audioPath: string): Promise<Timestamp[]> {
-        return retry(async () => {
-            // Find the video path by looking in the parent directory of the audio file
-            const outputDir = path.dirname(audioPath);
-            const videoFiles = fs.readdirSync(outputDir).filter(file => {
-                const ext = path.extname(file).toLowerCase();
-                return ['.mp4', '.avi', '.mov', '.mkv', '.webm'].includes(ext);
-            });
-
-            if (videoFiles.length === 0) {
-                console.log('No video file found in output directory, using audio file instead.');
-                return this.transcribeWithGemini(audioPath, true);
+    readonly supportsDiarization = true;
+    readonly maxFileSizeMb = GEMINI_FILE_LIMIT_MB;
+    readonly maxDuration = GEMINI_MAX_DURATION_SECONDS;
+    private options: GeminiTranscriptionOptions;
+
+    constructor(options: Partial<GeminiTranscriptionOptions> = {}) {
+        this.options = {
+            ...options,
+            baseUrl: options.baseUrl || process.env.GEMINI_API_BASE_URL,
+            inlineLimitMb: options.inlineLimitMb ?? GEMINI_INLINE_LIMIT_MB
+        };
+    }
+
+    /**
+     * Transcribes the original video when the caller passes one, so Gemini can also use the picture;
+     * audio inputs, calls without a source (such as chunks of long media) and videos too large for one request use the extracted audio
+     */
+    async transcribe(audioPath: string, context: TranscriptionContext = {}): Promise<Transcript> {
+        const { source } = context;
+        const useVideo = !!source && source.kind === 'video' &&
+            fs.statSync(source.path).size / (1024 * 1024) <= GEMINI_FILE_LIMIT_MB;
+        if (source && source.kind === 'video' && !useVideo) {
+            console.log(`Video is larger than ${GEMINI_FILE_LIMIT_MB} MB, transcribing the audio instead`);
+        }
+        return retry(signal => withinLimits(context, () => {
+            if (source && useVideo) {
+                console.log(`Using video file: ${source.path}`);
+                return this.transcribeWithGemini(source.path, false, context, signal);
             }
+            return this.transcribeWithGemini(audioPath, true, context, signal);
+        }), { ...TRANSCRIPTION_RETRY_POLICY, signal: context.signal, label: 'Gemini transcription', onRetry: context.onRetry });
+    }
 
-            const videoPath = path.join(outputDir, videoFiles[0]);
-            console.log(`Found video file: ${videoPath}`);
-            return this.transcribeWithGemini(videoPath, false);
-        });
+    getOptions(): Record<string, unknown> {
+        return { model: GEMINI_TRANSCRIPTION_MODEL };
+    }
+
+    getPrompt(context: TranscriptionContext = {}): string {
+        return this.buildPrompt('<audio or video>', '<duration>', context);
+    }
+
+    // Duration in seconds, or a placeholder for getPrompt
+    private buildPrompt(media: string, duration: number | string, context: TranscriptionContext): string {
+        return `
+            Please transcribe this ${media} file with precise timestamps.
+            make the subtitles more detailed and more accurate.
+            The ${media} duration is approximately ${duration} seconds.
+            
+            Please format the transcription with timestamps in the following JSON format:
+            {
+                "language": "en",
+                "segments": [
+                    {
+                        "start": 0.0,
+                        "end": 2.5,
+                        "text": "Hello, this is the beginning of the transcript."${context.diarize ? ',\n                        "speaker": "A"' : ''}
+                    },
+                    {
+                        "start": 2.5,
+                        "end": 5.0,
+                        "text": "This is the next segment with more speech."${context.diarize ? ',\n                        "speaker": "B"' : ''}
+                    }
+                ]
+            }
+            
+            Make sure to include:
+            1. Start time in seconds for each segment
+            2. End time in seconds for each segment
+            3. Transcribed text for each segment
+            4. The ISO 639-1 code of the spoken language
+            ${context.diarize ? `5. A speaker label (A, B, C...) for each segment; start a new segment whenever the speaker changes${context.speakers ? ` (there are about ${context.speakers} speakers)` : ''}` : ''}
+            
+            Make each segment one sentence or short phrase, never longer than about 10 seconds.
+            `;
     }
 
-    private async transcribeWithGemini(filePath: string, isAudio: boolean): Promise<Timestamp[]> {
+    private async transcribeWithGemini(filePath: string, isAudio: boolean, context: TranscriptionContext, signal: AbortSignal): Promise<Transcript> {
         console.log(`Using Google Gemini for transcription with ${isAudio ? 'audio' : 'video'} file...`);
 
         // Initialize Google AI
         const apiKey = process.env.GOOGLE_API_KEY;
         if (!apiKey) {
-            throw new Error('GOOGLE_API_KEY environment variable is not set');
+            throw new FatalError('GOOGLE_API_KEY environment variable is not set');
         }
 
         const genAI = new GoogleGenerativeAI(apiKey);
 
-        // Use gemini-2.0-flash which supports audio files
-        const model = genAI.getGenerativeModel({ model: 'gemini-2.0-flash' });
+        const model = genAI.getGenerativeModel(
+            { model: GEMINI_TRANSCRIPTION_MODEL },
+            this.options.baseUrl ? { baseUrl: this.options.baseUrl } : undefined
+        );
 
-        // Create a temporary file path for upload
-        const tempDir = os.tmpdir();
-        const randomId = crypto.randomBytes(16).toString('hex');
-        const fileExt = path.extname(filePath);
-        const tempFilePath = path.join(tempDir, `media-${randomId}${fileExt}`);
+        // Set when the media went through the file API, so it can be deleted afterwards
+        let uploaded: GeminiFile | null = null;
+        const files = new GeminiFileClient(apiKey, {
+            baseUrl: this.options.baseUrl,
+            http: this.options.http,
+            pollIntervalMs: this.options.pollIntervalMs
+        });
 
         try {
             // Get media duration with ffmpeg
-            const duration = await this.getMediaDuration(filePath);
-
-            // Copy the file to a temporary location
-            console.log(`Copying ${isAudio ? 'audio' : 'video'} file to temporary location: ${tempFilePath}`);
-            await fs.promises.copyFile(filePath, tempFilePath);
-
-            // Read the temporary file and convert to base64
-            const fileData = await fs.promises.readFile(tempFilePath);
+            const duration = Math.round((await getMediaDuration(filePath)) ?? 60);
 
             // Determine the correct MIME type
             let mimeType = isAudio ? 'audio/mpeg' : 'video/mp4';
@@ -73,60 +151,53 @@ export class GeminiTranscriptionService implements TranscriptionService {
                 }
             }
 
-            // Create FileData for Gemini API
-            const mediaData = {
-                data: fileData.toString('base64'),
-                mimeType: mimeType
-            };
+            // Small media goes inline as base64; larger media is uploaded and referenced, so it is never read into memory
+            let mediaPart: Part;
+            const sizeMb = (await fs.promises.stat(filePath)).size / (1024 * 1024);
+            if (sizeMb <= this.options.inlineLimitMb) {
+                const fileData = await fs.promises.readFile(filePath);
+                mediaPart = { inlineData: { data: fileData.toString('base64'), mimeType } };
+            } else {
+                console.log(`Uploading ${Math.round(sizeMb)} MB ${isAudio ? 'audio' : 'video'} file to the Gemini file API...`);
+                uploaded = await files.upload(filePath, mimeType, signal);
+                const active = await files.waitUntilActive(uploaded, signal);
+                mediaPart = { fileData: { fileUri: active.uri, mimeType: active.mimeType || mimeType } };
+            }
 
             // Create prompt for transcription
-            const prompt = `
-            Please transcribe this video file with precise timestamps.
-            make the subtitles more detailed and more accurate.
-            The video duration is approximately ${duration} seconds.
-            
-            Please format the transcription with timestamps in the following JSON format:
-            [
-                {
-                    "start": 0.0,
-                    "end": 2.5,
-                    "text": "Hello, this is the beginning of the transcript."
-                },
-                {
-                    "start": 2.5,
-                    "end": 5.0,
-                    "text": "This is the next segment with more speech."
-                }
-            ]
-            
-            Make sure to include:
-            1. Start time in seconds for each word
-            2. End time in seconds for each word
-            3. Transcribed text for each word
-            
-            Divide the text into logical words.
-            `;
+            const prompt = this.buildPrompt(isAudio ? 'audio' : 'video', duration, context);
 
             // Create multimodal content parts
             const parts: Part[] = [
                 { text: prompt },
-                { inlineData: mediaData }
+                mediaPart
             ];
 
             console.log(`Sending ${isAudio ? 'audio' : 'video'} file to Gemini...`);
-            const result = await model.generateContent({ contents: [{ role: 'user', parts }] });
+            const result = await model.generateContent({ contents: [{ role: 'user', parts }] }, { signal });
+            // The media is billed as prompt tokens; the sound track at the audio price
+            const usage = result.response.usageMetadata;
+            if (usage) {
+                context.usage?.record({
+                    provider: 'gemini',
+                    model: GEMINI_TRANSCRIPTION_MODEL,
+                    inputTokens: usage.promptTokenCount,
+                    outputTokens: usage.candidatesTokenCount,
+                    audioInputTokens: Math.min(usage.promptTokenCount, duration * GEMINI_AUDIO_TOKENS_PER_SECOND)
+                });
+            }
             const response = await result.response;
             const text = response.text();
 
-            // Try to extract JSON array from response
-            let jsonMatch = text.match(/\[[\s\S]*\]/);
+            // Try to extract the JSON object, or a bare segment array, from the response
+            let jsonMatch = text.match(/\{[\s\S]*"segments"[\s\S]*\}/) || text.match(/\[[\s\S]*\]/);
             if (!jsonMatch) {
                 // If JSON extraction fails, create timestamps manually
                 console.warn('Could not extract valid JSON from Gemini response, creating timestamps manually');
 
                 // Generate basic text for transcription
                 const segmentLength = 10; // Segment length in seconds
-                const segments: Timestamp[] = [];
+                const segments: TranscriptSegment[] = [];
                 let plainText = text.replace(/```json[\s\S]*?```|```[\s\S]*?```/g, '').trim(); // Remove code blocks
 
                 // Split text into paragraphs
@@ -145,11 +216,12 @@ export class GeminiTranscriptionService implements TranscriptionService {
                 }
 
                 console.log(`Created ${segments.length} segments manually`);
-                return segments;
+                return { segments };
             }
 
             try {
-                const timestamps = JSON.parse(jsonMatch[0]);
+                const parsed = JSON.parse(jsonMatch[0]);
+                const timestamps = Array.isArray(parsed) ? parsed : parsed.segments;
 
                 // Validate the format
                 if (!Array.isArray(timestamps) || !timestamps.every(item =>
@@ -160,45 +232,33 @@ export class GeminiTranscriptionService implements TranscriptionService {
                 }
 
                 console.log(`Successfully transcribed ${isAudio ? 'audio' : 'video'} with Gemini (${timestamps.length} segments)`);
-                return timestamps;
+                return {
+                    language: typeof parsed.language === 'string' ? parsed.language : undefined,
+                    segments: timestamps.map((item: any) => ({
+                        start: item.start,
+                        end: item.end,
+                        text: item.text,
+                        speaker: context.diarize && typeof item.speaker === 'string' ? item.speaker : undefined
+                    }))
+                };
             } catch (parseError) {
                 console.error('Error parsing Gemini response:', parseError);
                 throw new Error('Failed to parse Gemini transcription response');
             }
         } catch (error: any) {
             console.error(`Error in Gemini ${isAudio ? 'audio' : 'video'} transcription:`, error);
-            throw new Error(`Gemini transcription failed: ${error.message}`);
+            // The cause keeps the status, so the retry policy can tell a rate limit from a bad request
+            throw Object.assign(new Error(`Gemini transcription failed: ${error.message}`), { cause: error });
         } finally {
-            // Clean up the temporary file regardless of success or failure
-            try {
-                if (fs.existsSync(tempFilePath)) {
-                    await fs.promises.unlink(tempFilePath);
-                    console.log(`Removed temporary file: ${tempFilePath}`);
+            // Uploaded files would otherwise stay in the project for 48 hours
+            if (uploaded) {
+                try {
+                    await files.delete(uploaded.name);
+                    console.log(`Deleted uploaded file ${uploaded.name}`);
+                } catch (cleanupError) {
+                    console.warn(`Failed to delete uploaded file ${uploaded.name}:`, cleanupError);
                 }
-            } catch (cleanupError) {
-                console.warn('Failed to remove temporary file:', cleanupError);
             }
         }
     }
-
-    /**
-     * Gets the duration of the media file in seconds
-     */
-    private async getMediaDuration(filePath: string): Promise<number> {
-        return new Promise((resolve, reject) => {
-            ffmpeg.ffprobe(filePath, (err, metadata) => {
-                if (err) {
-                    reject(err);
-                    return;
-                }
-
-                if (metadata && metadata.format && metadata.format.duration) {
-                    resolve(Math.round(metadata.format.duration));
-                } else {
-                    // If we couldn't get the duration, return an approximate estimate
-                    resolve(60); // 1 minute by default
-                }
-            });
-        });
-    }
-} 
\ No newline at end of file
+}
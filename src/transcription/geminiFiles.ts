@@ -0,0 +1,176 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { FatalError, HttpError, sleep } from '../retry';
+
+export const GEMINI_DEFAULT_BASE_URL = 'https://generativelanguage.googleapis.com';
+
+export interface HttpRequest {
+    method: 'GET' | 'POST' | 'DELETE';
+    url: string;
+    headers?: Record<string, string>;
+    // Streams are sent as they are read, so large files never sit in memory
+    body?: string | Readable;
+    signal?: AbortSignal;
+}
+
+export interface HttpResponse {
+    status: number;
+    // Header names in lower case
+    headers: Record<string, string>;
+    body: string;
+}
+
+/**
+ * The few HTTP calls of the file API go through this interface,
+ * so tests can answer them without a server or point them at a local stand-in
+ */
+export interface HttpClient {
+    request(request: HttpRequest): Promise<HttpResponse>;
+}
+
+// HttpClient on top of the fetch built into Node
+export const fetchHttpClient: HttpClient = {
+    async request({ method, url, headers, body, signal }) {
+        const init: RequestInit & { duplex?: 'half' } = { method, headers, signal };
+        if (typeof body === 'string') {
+            init.body = body;
+        } else if (body) {
+            init.body = Readable.toWeb(body) as ReadableStream;
+            // Required by Node for streamed request bodies
+            init.duplex = 'half';
+        }
+        const response = await fetch(url, init);
+        const responseHeaders: Record<string, string> = {};
+        response.headers.forEach((value, name) => {
+            responseHeaders[name.toLowerCase()] = value;
+        });
+        return { status: response.status, headers: responseHeaders, body: await response.text() };
+    }
+};
+
+export type GeminiFileState = 'STATE_UNSPECIFIED' | 'PROCESSING' | 'ACTIVE' | 'FAILED';
+
+// The parts of a file resource the transcription needs
+export interface GeminiFile {
+    // "files/abc123"
+    name: string;
+    uri: string;
+    mimeType: string;
+    state: GeminiFileState;
+}
+
+export interface GeminiFileClientOptions {
+    // API root, e.g. a local stand-in server (default: GEMINI_API_BASE_URL or the public endpoint)
+    baseUrl?: string;
+    http?: HttpClient;
+    // How often the processing state is checked
+    pollIntervalMs?: number;
+    // How long a file may stay in PROCESSING
+    activeTimeoutMs?: number;
+}
+
+/**
+ * Client for the Gemini file API: resumable upload from a stream, waiting for processing, deletion.
+ * Uploaded files are referenced by URI in generateContent instead of being sent inline.
+ */
+export class GeminiFileClient {
+    private baseUrl: string;
+    private http: HttpClient;
+    private pollIntervalMs: number;
+    private activeTimeoutMs: number;
+
+    constructor(private apiKey: string, options: GeminiFileClientOptions = {}) {
+        this.baseUrl = (options.baseUrl || process.env.GEMINI_API_BASE_URL || GEMINI_DEFAULT_BASE_URL).replace(/\/+$/, '');
+        this.http = options.http || fetchHttpClient;
+        this.pollIntervalMs = options.pollIntervalMs ?? 2000;
+        this.activeTimeoutMs = options.activeTimeoutMs ?? 10 * 60 * 1000;
+    }
+
+    /**
+     * Uploads a file with the resumable protocol: one request announces the file and returns
+     * an upload URL, a second one streams the content to it
+     */
+    async upload(filePath: string, mimeType: string, signal?: AbortSignal): Promise<GeminiFile> {
+        const size = (await fs.promises.stat(filePath)).size;
+        const start = await this.http.request({
+            method: 'POST',
+            url: `${this.baseUrl}/upload/v1beta/files`,
+            headers: {
+                'x-goog-api-key': this.apiKey,
+                'X-Goog-Upload-Protocol': 'resumable',
+                'X-Goog-Upload-Command': 'start',
+                'X-Goog-Upload-Header-Content-Length': String(size),
+                'X-Goog-Upload-Header-Content-Type': mimeType,
+                'Content-Type': 'application/json'
+            },
+            body: JSON.stringify({ file: { display_name: path.basename(filePath) } }),
+            signal
+        });
+        this.check(start, 'start upload');
+        const uploadUrl = start.headers['x-goog-upload-url'];
+        if (!uploadUrl) {
+            throw new Error('Gemini file API returned no upload URL');
+        }
+
+        const upload = await this.http.request({
+            method: 'POST',
+            url: uploadUrl,
+            headers: {
+                'Content-Length': String(size),
+                'X-Goog-Upload-Offset': '0',
+                'X-Goog-Upload-Command': 'upload, finalize'
+            },
+            body: fs.createReadStream(filePath),
+            signal
+        });
+        this.check(upload, 'upload file');
+        return JSON.parse(upload.body).file;
+    }
+
+    async get(name: string, signal?: AbortSignal): Promise<GeminiFile> {
+        const response = await this.http.request({
+            method: 'GET',
+            url: `${this.baseUrl}/v1beta/${name}`,
+            headers: { 'x-goog-api-key': this.apiKey },
+            signal
+        });
+        this.check(response, `get ${name}`);
+        return JSON.parse(response.body);
+    }
+
+    /**
+     * Polls until Gemini has processed the file; media can only be referenced once it is ACTIVE
+     * @throws Error when processing fails or takes longer than activeTimeoutMs
+     */
+    async waitUntilActive(file: GeminiFile, signal?: AbortSignal): Promise<GeminiFile> {
+        const deadline = Date.now() + this.activeTimeoutMs;
+        let current = file;
+        while (current.state !== 'ACTIVE') {
+            if (current.state === 'FAILED') {
+                throw new FatalError(`Gemini could not process ${current.name}`);
+            }
+            if (Date.now() >= deadline) {
+                throw new Error(`${current.name} was not processed within ${Math.round(this.activeTimeoutMs / 1000)}s`);
+            }
+            await sleep(this.pollIntervalMs, signal);
+            current = await this.get(current.name, signal);
+        }
+        return current;
+    }
+
+    async delete(name: string): Promise<void> {
+        const response = await this.http.request({
+            method: 'DELETE',
+            url: `${this.baseUrl}/v1beta/${name}`,
+            headers: { 'x-goog-api-key': this.apiKey }
+        });
+        this.check(response, `delete ${name}`);
+    }
+
+    private check(response: HttpResponse, action: string): void {
+        if (response.status < 200 || response.status >= 300) {
+            throw new HttpError(`Gemini file API failed to ${action}: HTTP ${response.status} ${response.body.slice(0, 200)}`, response.status, response.headers);
+        }
+    }
+}
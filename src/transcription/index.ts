@@ -1,15 +1,44 @@
-import { Timestamp } from '../utils';
+import * as fs from 'fs';
+import * as path from 'path';
+import { hashFile, getMediaDuration } from '../utils';
+import { RateLimitManager } from '../scheduler';
 import { OpenAIWhisperService } from './openaiWhisper';
 import { AmazonTranscribeService } from './amazonTranscribe';
 import { AssemblyAIService } from './assemblyAI';
 import { GeminiTranscriptionService } from './gemini';
-import { TranscriptionService, TranscriptionServiceType } from './types';
+import { LocalWhisperService } from './localWhisper';
+import { TranscriptionCache } from './cache';
+import { SegmenterOptions, segmentTranscript } from './segmenter';
+import { QualityReport, RepairOptions, repairTranscript } from './quality';
+import { ChunkingOptions, DEFAULT_CHUNKING_OPTIONS, getChunkDuration, transcribeInChunks } from './chunking';
+import { Transcript, TranscriptionContext, TranscriptionService, TranscriptionServiceType } from './types';
 
 // Создаем экземпляры сервисов
 const openaiWhisperService = new OpenAIWhisperService();
 const amazonTranscribeService = new AmazonTranscribeService();
 const assemblyAIService = new AssemblyAIService();
 const geminiTranscriptionService = new GeminiTranscriptionService();
+const localWhisperService = new LocalWhisperService();
+
+const transcriptionCache = new TranscriptionCache();
+
+export interface TranscribeOptions extends TranscriptionContext {
+    // Look up and store results in the transcription cache (default: on unless TRANSCRIPTION_CACHE=off)
+    useCache?: boolean;
+    // Ignore a cached result and call the service again; the new result replaces the cached one
+    refresh?: boolean;
+    // Segmentation rules applied to every service's output (default: DEFAULT_SEGMENTER_OPTIONS)
+    segmentation?: Partial<SegmenterOptions>;
+    // Splitting of audio that is too long or too large for one request (default: DEFAULT_CHUNKING_OPTIONS)
+    chunking?: Partial<ChunkingOptions>;
+    // Thresholds of the sanity check; the media duration is read with ffprobe
+    quality?: Partial<Omit<RepairOptions, 'mediaDuration'>>;
+}
+
+export interface TranscriptionResult {
+    transcript: Transcript;
+    quality: QualityReport;
+}
 
 // Фасад для всех сервисов транскрипции
 export class TranscriptionManager {
@@ -17,29 +46,215 @@ export class TranscriptionManager {
      * Транскрибирует аудио с использованием указанного сервиса
      * @param audioPath Путь к аудио файлу
      * @param service Сервис транскрипции
-     * @returns Promise<Timestamp[]> Массив временных меток с текстом
+     * @param options Настройки кэша, диаризации и сегментации
+     * @returns Promise<Transcript> Сегменты с текстом, словами, уверенностью и спикерами (toTimestamps даёт прежний Timestamp[])
      */
     static async transcribe(
         audioPath: string,
-        service: TranscriptionServiceType = TranscriptionServiceType.OPENAI_WHISPER
-    ): Promise<Timestamp[]> {
+        service: TranscriptionServiceType = TranscriptionServiceType.OPENAI_WHISPER,
+        options: TranscribeOptions = {}
+    ): Promise<Transcript> {
+        return (await TranscriptionManager.transcribeWithReport(audioPath, service, options)).transcript;
+    }
+
+    /**
+     * Like transcribe, but also returns the report of the sanity check that repaired the service output
+     * (times past the end of the audio, overlaps, repeated loops, silence gaps)
+     */
+    static async transcribeWithReport(
+        audioPath: string,
+        service: TranscriptionServiceType = TranscriptionServiceType.OPENAI_WHISPER,
+        options: TranscribeOptions = {}
+    ): Promise<TranscriptionResult> {
+        // The cache keeps what the service returned, so changed repair or segmentation rules never need a new transcription
+        const raw = await TranscriptionManager.transcribeRaw(audioPath, service, options);
+        const mediaDuration = await getMediaDuration(audioPath);
+        if (mediaDuration === null) {
+            console.warn(`Could not read the duration of ${audioPath}, segment times are not clamped`);
+        }
+
+        const { transcript, report } = repairTranscript(raw, { ...options.quality, mediaDuration });
+        const repaired = report.issues.filter(issue => issue.action !== 'flagged').length;
+        const flagged = report.issues.length - repaired;
+        if (report.issues.length > 0) {
+            const counts = Object.entries(report.issueCounts).map(([type, count]) => `${type}: ${count}`).join(', ');
+            console.log(`Quality check of ${service}: ${repaired} repaired, ${flagged} flagged (${counts})`);
+        }
+
+        return { transcript: segmentTranscript(transcript, options.segmentation), quality: report };
+    }
+
+    private static async transcribeRaw(
+        audioPath: string,
+        service: TranscriptionServiceType,
+        options: TranscribeOptions
+    ): Promise<Transcript> {
+        const transcriptionService = TranscriptionManager.getService(service);
+        const diarize = !!options.diarize && !!transcriptionService.supportsDiarization;
+        if (options.diarize && !diarize) {
+            console.warn(`${service} does not support speaker diarization, transcribing without speaker labels`);
+        }
+        const context: TranscriptionContext = {
+            source: options.source,
+            diarize,
+            speakers: diarize ? options.speakers : undefined,
+            signal: options.signal,
+            usage: options.usage,
+            onRetry: options.onRetry,
+            // Every attempt of every request, each chunk and retry included, waits for the rate limit
+            // of the service and is refused over --max-cost; backoff waits hold no slot
+            limit: attempt => RateLimitManager.run(service, () => {
+                options.usage?.checkBudget();
+                return attempt();
+            })
+        };
+        const chunkDuration = await TranscriptionManager.getChunkDuration(audioPath, transcriptionService, options.chunking);
+        const run = () => chunkDuration
+            ? transcribeInChunks(audioPath, transcriptionService, context, chunkDuration, options.chunking)
+            : transcriptionService.transcribe(audioPath, context);
+
+        const useCache = options.useCache ?? process.env.TRANSCRIPTION_CACHE !== 'off';
+        if (!useCache) {
+            return run();
+        }
+
+        const audioHash = await hashFile(audioPath);
+        // Diarized results are cached separately; plain results keep their existing keys
+        const serviceOptions = {
+            ...(transcriptionService.getOptions ? transcriptionService.getOptions() : {}),
+            ...(diarize ? { diarization: { speakers: options.speakers ?? null } } : {}),
+            // Stitched results differ slightly from a single request, and chunks depend on where they are cut
+            ...(chunkDuration ? { chunking: { maxDuration: chunkDuration, overlap: options.chunking?.overlap ?? DEFAULT_CHUNKING_OPTIONS.overlap } } : {})
+        };
+        const key = TranscriptionCache.computeKey(audioHash, service, serviceOptions);
+
+        if (!options.refresh) {
+            const cached = await transcriptionCache.get(key);
+            if (cached) {
+                console.log(`Using cached ${service} transcription (${key.slice(0, 12)}, created ${cached.createdAt})`);
+                return cached.transcript;
+            }
+        }
+
+        const startedAt = Date.now();
+        const transcript = await run();
+
+        try {
+            await transcriptionCache.set({
+                key,
+                audioHash,
+                service,
+                options: serviceOptions,
+                createdAt: new Date().toISOString(),
+                metadata: {
+                    sourceFile: path.resolve(audioPath),
+                    durationMs: Date.now() - startedAt,
+                    segments: transcript.segments.length
+                },
+                transcript
+            });
+        } catch (error: any) {
+            // A cache that cannot be written must not lose a transcription that was paid for
+            console.warn(`Could not cache ${service} transcription: ${error.message}`);
+        }
+
+        return transcript;
+    }
+
+    // Chunk length for this audio and service, or null when it fits into one request
+    private static async getChunkDuration(
+        audioPath: string,
+        service: TranscriptionService,
+        chunking: Partial<ChunkingOptions> = {}
+    ): Promise<number | null> {
+        if (!service.maxFileSizeMb && !service.maxDuration && !chunking.maxDuration) {
+            return null;
+        }
+        const duration = await getMediaDuration(audioPath);
+        if (duration === null) {
+            return null;
+        }
+        const sizeMb = (await fs.promises.stat(audioPath)).size / (1024 * 1024);
+        return getChunkDuration(duration, sizeMb, service, chunking);
+    }
+
+    static getService(service: TranscriptionServiceType): TranscriptionService {
         switch (service) {
             case TranscriptionServiceType.AMAZON_TRANSCRIBE:
-                return amazonTranscribeService.transcribe(audioPath);
+                return amazonTranscribeService;
             case TranscriptionServiceType.ASSEMBLY_AI:
-                return assemblyAIService.transcribe(audioPath);
+                return assemblyAIService;
             case TranscriptionServiceType.GEMINI:
-                return geminiTranscriptionService.transcribe(audioPath);
+                return geminiTranscriptionService;
+            case TranscriptionServiceType.LOCAL_WHISPER:
+                return localWhisperService;
             case TranscriptionServiceType.OPENAI_WHISPER:
             default:
-                return openaiWhisperService.transcribe(audioPath);
+                return openaiWhisperService;
         }
     }
+
+    static getCache(): TranscriptionCache {
+        return transcriptionCache;
+    }
 }
 
 // Экспортируем все для обратной совместимости
-export { TranscriptionServiceType, TranscriptionService } from './types';
+export {
+    TranscriptionServiceType,
+    TranscriptionService,
+    MediaKind,
+    MediaSource,
+    TranscriptionContext,
+    Transcript,
+    TranscriptSegment,
+    TranscriptWord,
+    withinLimits
+} from './types';
+export { toTimestamps, fromTimestamps, averageConfidence, attachWords, normalizeWord } from './transcript';
+export {
+    SegmentationStrategy,
+    SEGMENTATION_STRATEGIES,
+    SegmenterOptions,
+    DEFAULT_SEGMENTER_OPTIONS,
+    parseSegmentationSpec,
+    segmentWords,
+    segmentTranscript,
+    getSegmentWords
+} from './segmenter';
+export {
+    ChunkingOptions,
+    DEFAULT_CHUNKING_OPTIONS,
+    Silence,
+    AudioChunk,
+    getChunkDuration,
+    planChunks,
+    detectSilences,
+    stitchChunks,
+    transcribeInChunks
+} from './chunking';
+export {
+    QualityIssueType,
+    QualityIssue,
+    QualityReport,
+    RepairOptions,
+    DEFAULT_REPAIR_OPTIONS,
+    repairTranscript
+} from './quality';
 export { OpenAIWhisperService } from './openaiWhisper';
 export { AmazonTranscribeService } from './amazonTranscribe';
 export { AssemblyAIService } from './assemblyAI';
-export { GeminiTranscriptionService } from './gemini'; 
\ No newline at end of file
+export { GeminiTranscriptionService, GeminiTranscriptionOptions } from './gemini';
+export {
+    GeminiFileClient,
+    GeminiFileClientOptions,
+    GeminiFile,
+    GeminiFileState,
+    HttpClient,
+    HttpRequest,
+    HttpResponse,
+    fetchHttpClient,
+    GEMINI_DEFAULT_BASE_URL
+} from './geminiFiles';
+export { LocalWhisperService, LocalWhisperOptions, LocalWhisperBackend } from './localWhisper';
+export { TranscriptionCache, TranscriptionCacheEntry, PruneOptions } from './cache';
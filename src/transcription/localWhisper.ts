@@ -0,0 +1,211 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import * as crypto from 'crypto';
+import ffmpeg from 'fluent-ffmpeg';
+import { execFileAsync } from '../utils';
+import { Transcript, TranscriptionContext, TranscriptionService, withinLimits } from './types';
+import { averageConfidence } from './transcript';
+
+export type LocalWhisperBackend = 'whisper.cpp' | 'faster-whisper';
+
+export interface LocalWhisperOptions {
+    backend: LocalWhisperBackend;
+    // Path to the CLI binary (whisper-cli for whisper.cpp, whisper-ctranslate2 for faster-whisper)
+    binaryPath: string;
+    // ggml model file for whisper.cpp, model name or CTranslate2 model directory for faster-whisper
+    modelPath: string;
+    // Language code, or 'auto' to let the model detect it
+    language: string;
+    threads?: number;
+}
+
+// Output of whisper.cpp with -oj
+interface WhisperCppOutput {
+    result?: { language?: string };
+    transcription?: {
+        offsets: { from: number; to: number };
+        text: string;
+        // Sub-word tokens with their probability
+        tokens?: { text: string; p: number }[];
+    }[];
+}
+
+// Output of faster-whisper CLIs with --output_format json (same layout as openai-whisper)
+interface FasterWhisperOutput {
+    language?: string;
+    segments?: {
+        start: number;
+        end: number;
+        text: string;
+        avg_logprob?: number;
+        no_speech_prob?: number;
+        // Only with --word_timestamps True
+        words?: { start: number; end: number; word: string; probability?: number }[];
+    }[];
+}
+
+export function parseWhisperCppOutput(output: WhisperCppOutput): Transcript {
+    const segments = (output.transcription || [])
+        .map(segment => ({
+            start: segment.offsets.from / 1000,
+            end: segment.offsets.to / 1000,
+            text: segment.text.trim(),
+            // Special tokens such as [_BEG_] carry no information about the speech
+            confidence: averageConfidence((segment.tokens || [])
+                .filter(token => !token.text.startsWith('['))
+                .map(token => ({ confidence: token.p })))
+        }))
+        .filter(segment => segment.text.length > 0);
+    return { language: output.result?.language, segments };
+}
+
+export function parseFasterWhisperOutput(output: FasterWhisperOutput): Transcript {
+    const segments = (output.segments || [])
+        .map(segment => ({
+            start: segment.start,
+            end: segment.end,
+            text: segment.text.trim(),
+            confidence: segment.avg_logprob !== undefined ? Math.exp(segment.avg_logprob) : undefined,
+            noSpeechProbability: segment.no_speech_prob,
+            words: segment.words?.map(word => ({
+                start: word.start,
+                end: word.end,
+                text: word.word.trim(),
+                confidence: word.probability
+            }))
+        }))
+        .filter(segment => segment.text.length > 0);
+    return { language: output.language, segments };
+}
+
+/**
+ * Runs a locally installed whisper.cpp or faster-whisper CLI, so the audio never leaves the machine.
+ */
+export class LocalWhisperService implements TranscriptionService {
+    private options: LocalWhisperOptions;
+
+    constructor(options: Partial<LocalWhisperOptions> = {}) {
+        const backend = options.backend || (process.env.LOCAL_WHISPER_BACKEND as LocalWhisperBackend) || 'whisper.cpp';
+        this.options = {
+            backend,
+            binaryPath: options.binaryPath || process.env.LOCAL_WHISPER_BINARY || (backend === 'whisper.cpp' ? 'whisper-cli' : 'whisper-ctranslate2'),
+            modelPath: options.modelPath || process.env.LOCAL_WHISPER_MODEL || '',
+            language: options.language || process.env.LOCAL_WHISPER_LANGUAGE || 'auto',
+            threads: options.threads ?? (process.env.LOCAL_WHISPER_THREADS ? parseInt(process.env.LOCAL_WHISPER_THREADS, 10) : undefined)
+        };
+    }
+
+    getOptions(): Record<string, unknown> {
+        return {
+            backend: this.options.backend,
+            model: path.basename(this.options.modelPath),
+            language: this.options.language
+        };
+    }
+
+    // No retry here: a local failure (missing binary or model) does not go away on its own
+    async transcribe(audioPath: string, context: TranscriptionContext = {}): Promise<Transcript> {
+        if (!this.options.modelPath) {
+            throw new Error('LOCAL_WHISPER_MODEL is not set (path to the whisper model)');
+        }
+
+        console.log(`Using local ${this.options.backend} for transcription...`);
+
+        return withinLimits(context, () => this.transcribeLocally(audioPath, context));
+    }
+
+    private async transcribeLocally(audioPath: string, context: TranscriptionContext): Promise<Transcript> {
+        const workDir = path.join(os.tmpdir(), `whisper-${crypto.randomBytes(8).toString('hex')}`);
+        await fs.promises.mkdir(workDir, { recursive: true });
+
+        try {
+            const transcript = this.options.backend === 'faster-whisper'
+                ? await this.runFasterWhisper(audioPath, workDir, context.signal)
+                : await this.runWhisperCpp(audioPath, workDir, context.signal);
+
+            console.log(`Local transcription completed (${transcript.segments.length} segments)`);
+            return transcript;
+        } finally {
+            await fs.promises.rm(workDir, { recursive: true, force: true });
+        }
+    }
+
+    private async runWhisperCpp(audioPath: string, workDir: string, signal?: AbortSignal): Promise<Transcript> {
+        // whisper.cpp only reads 16 kHz mono WAV
+        const wavPath = path.join(workDir, 'audio.wav');
+        await this.convertToWav(audioPath, wavPath, signal);
+
+        const outputBase = path.join(workDir, 'transcript');
+        const args = [
+            '-m', this.options.modelPath,
+            '-f', wavPath,
+            '-l', this.options.language,
+            '-oj',
+            '-of', outputBase
+        ];
+        if (this.options.threads) {
+            args.push('-t', String(this.options.threads));
+        }
+
+        await this.run(args, signal);
+        const output = JSON.parse(await fs.promises.readFile(`${outputBase}.json`, 'utf-8'));
+        return parseWhisperCppOutput(output);
+    }
+
+    private async runFasterWhisper(audioPath: string, workDir: string, signal?: AbortSignal): Promise<Transcript> {
+        const args = [
+            audioPath,
+            '--model', this.options.modelPath,
+            '--output_format', 'json',
+            '--output_dir', workDir
+        ];
+        if (this.options.language !== 'auto') {
+            args.push('--language', this.options.language);
+        }
+        if (this.options.threads) {
+            args.push('--threads', String(this.options.threads));
+        }
+
+        await this.run(args, signal);
+        const outputPath = path.join(workDir, `${path.basename(audioPath, path.extname(audioPath))}.json`);
+        const output = JSON.parse(await fs.promises.readFile(outputPath, 'utf-8'));
+        return parseFasterWhisperOutput(output);
+    }
+
+    private async run(args: string[], signal?: AbortSignal): Promise<void> {
+        try {
+            // Transcripts of long recordings produce a lot of console output; an abort kills the process
+            await execFileAsync(this.options.binaryPath, args, { maxBuffer: 64 * 1024 * 1024, signal });
+        } catch (error: any) {
+            if (error.name === 'AbortError') {
+                throw error;
+            }
+            if (error.code === 'ENOENT') {
+                throw new Error(`Local whisper binary not found: ${this.options.binaryPath} (set LOCAL_WHISPER_BINARY)`);
+            }
+            throw new Error(`Local whisper failed: ${error.stderr || error.message}`);
+        }
+    }
+
+    private convertToWav(inputPath: string, outputPath: string, signal?: AbortSignal): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const command = ffmpeg(inputPath)
+                .audioFrequency(16000)
+                .audioChannels(1)
+                .audioCodec('pcm_s16le')
+                .toFormat('wav')
+                .on('end', () => {
+                    signal?.removeEventListener('abort', onAbort);
+                    resolve();
+                })
+                .on('error', (err: Error) => {
+                    signal?.removeEventListener('abort', onAbort);
+                    reject(signal?.aborted ? signal.reason : err);
+                });
+            const onAbort = () => command.kill('SIGKILL');
+            signal?.addEventListener('abort', onAbort, { once: true });
+            command.save(outputPath);
+        });
+    }
+}
@@ -1,32 +1,67 @@
 import * as fs from 'fs';
 import OpenAI from 'openai';
-import { Timestamp, retry } from '../utils';
-import { TranscriptionService } from './types';
-
-// Initialize OpenAI client
-const openai = new OpenAI({
-    apiKey: process.env.OPENAI_API_KEY
-});
+import { TRANSCRIPTION_RETRY_POLICY, retry } from '../retry';
+import { Transcript, TranscriptionContext, TranscriptionService, withinLimits } from './types';
+import { attachWords } from './transcript';
 
 export class OpenAIWhisperService implements TranscriptionService {
-    async transcribe(audioPath: string): Promise<Timestamp[]> {
-        return retry(async () => {
-            return await this.transcribeWithOpenAI(audioPath);
+    // The Whisper API rejects uploads above 25 MB
+    readonly maxFileSizeMb = 25;
+    private client: OpenAI | null = null;
+
+    async transcribe(audioPath: string, context: TranscriptionContext = {}): Promise<Transcript> {
+        return retry(signal => withinLimits(context, () => this.transcribeWithOpenAI(audioPath, context, signal)), {
+            ...TRANSCRIPTION_RETRY_POLICY,
+            signal: context.signal,
+            label: 'OpenAI Whisper transcription',
+            onRetry: context.onRetry
         });
     }
 
-    private async transcribeWithOpenAI(audioPath: string): Promise<Timestamp[]> {
+    getOptions(): Record<string, unknown> {
+        return { model: 'whisper-1', responseFormat: 'verbose_json', granularities: ['word', 'segment'] };
+    }
+
+    // Created on first use: the SDK throws without an API key, even if Whisper is never selected
+    private getClient(): OpenAI {
+        if (!this.client) {
+            this.client = new OpenAI({
+                apiKey: process.env.OPENAI_API_KEY,
+                // Retries follow the policy of transcribe, not the SDK's own
+                maxRetries: 0
+            });
+        }
+        return this.client;
+    }
+
+    private async transcribeWithOpenAI(audioPath: string, context: TranscriptionContext, signal: AbortSignal): Promise<Transcript> {
         console.log('Using OpenAI Whisper for transcription...');
-        const transcription = await openai.audio.transcriptions.create({
+        const transcription = await this.getClient().audio.transcriptions.create({
             file: fs.createReadStream(audioPath),
             model: "whisper-1",
-            response_format: "verbose_json"
-        });
+            response_format: "verbose_json",
+            timestamp_granularities: ['word', 'segment']
+        }, { signal });
+        // Whisper is billed per minute of audio
+        context.usage?.record({ provider: 'openai', model: 'whisper-1', audioSeconds: transcription.duration });
 
-        return (transcription.segments || []).map(segment => ({
+        const segments = (transcription.segments || []).map(segment => ({
             start: segment.start,
             end: segment.end,
-            text: segment.text
+            text: segment.text,
+            // avg_logprob is a mean token log-probability; exp() turns it into a 0-1 score
+            confidence: Math.exp(segment.avg_logprob),
+            noSpeechProbability: segment.no_speech_prob
         }));
+        const words = (transcription.words || []).map(word => ({
+            start: word.start,
+            end: word.end,
+            text: word.word
+        }));
+
+        return {
+            language: transcription.language,
+            segments: attachWords(segments, words)
+        };
     }
 } 
\ No newline at end of file
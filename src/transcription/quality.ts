@@ -0,0 +1,263 @@
+import { Transcript, TranscriptSegment } from './types';
+
+export type QualityIssueType =
+    | 'invalid-time'
+    | 'empty-text'
+    | 'out-of-order'
+    | 'past-duration'
+    | 'repeated-loop'
+    | 'overlap'
+    | 'zero-length'
+    | 'silence-gap';
+
+export interface QualityIssue {
+    type: QualityIssueType;
+    // Time range the issue was found at
+    start: number;
+    end: number;
+    text?: string;
+    // What the repairer did; flagged issues are only reported
+    action: 'dropped' | 'clamped' | 'sorted' | 'collapsed' | 'merged' | 'trimmed' | 'extended' | 'flagged';
+}
+
+export interface QualityReport {
+    // ffprobe duration of the transcribed audio
+    mediaDuration: number | null;
+    segmentsBefore: number;
+    segmentsAfter: number;
+    // Share of the media duration covered by segments after repair, 0-1
+    coverage: number | null;
+    issueCounts: { [type: string]: number };
+    issues: QualityIssue[];
+}
+
+export interface RepairOptions {
+    mediaDuration: number | null;
+    // Seconds without any segment that are reported as a silence gap
+    silenceGap: number;
+    // A line, a block of up to three lines or a short phrase repeated this many times in a row is a loop
+    loopRepeats: number;
+}
+
+export const DEFAULT_REPAIR_OPTIONS: RepairOptions = {
+    mediaDuration: null,
+    silenceGap: 20,
+    loopRepeats: 3
+};
+
+// Longest repeated block of segments, and longest repeated phrase inside a segment, that loop detection looks for
+const MAX_LOOP_SEGMENTS = 3;
+const MAX_LOOP_WORDS = 6;
+// Single words are repeated in real speech ("no, no, no"), so only much longer runs of one word are a loop
+const MIN_SINGLE_WORD_REPEATS = 8;
+
+// Comparable form of a text: lower case, no punctuation, single spaces
+function normalizeText(text: string): string {
+    return text
+        .toLowerCase()
+        .replace(/[.,!?;:"'«»“”„…()\[\]\-–—]/g, ' ')
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+// Drops words that no longer fall inside the segment after its end moved
+function clampWords(segment: TranscriptSegment): void {
+    if (segment.words) {
+        segment.words = segment.words.filter(word => word.start < segment.end);
+    }
+}
+
+// Collapses a phrase of up to MAX_LOOP_WORDS words repeated `repeats` or more times in a row
+// (a single word MIN_SINGLE_WORD_REPEATS or more times)
+function collapseRepeatedPhrase(text: string, repeats: number): string | null {
+    const tokens = text.split(/\s+/).filter(token => token.length > 0);
+    const normalized = tokens.map(normalizeText);
+    for (let size = 1; size <= MAX_LOOP_WORDS; size++) {
+        const minRepeats = size === 1 ? Math.max(repeats, MIN_SINGLE_WORD_REPEATS) : repeats;
+        for (let i = 0; i + size * minRepeats <= tokens.length; i++) {
+            let count = 1;
+            while (i + size * (count + 1) <= tokens.length &&
+                normalized.slice(i + size * count, i + size * (count + 1)).join(' ') === normalized.slice(i, i + size).join(' ')) {
+                count++;
+            }
+            if (count >= minRepeats && normalized.slice(i, i + size).join('').length > 0) {
+                const collapsed = [...tokens.slice(0, i + size), ...tokens.slice(i + size * count)].join(' ');
+                return collapseRepeatedPhrase(collapsed, repeats) ?? collapsed;
+            }
+        }
+    }
+    return null;
+}
+
+/**
+ * Checks a transcript for the problems LLM and Whisper transcriptions typically have and repairs them:
+ * unusable or out-of-order segments, times past the end of the media, hallucinated loops,
+ * overlaps and zero-length segments. Silence gaps are only reported.
+ */
+export function repairTranscript(
+    transcript: Transcript,
+    options: Partial<RepairOptions> = {}
+): { transcript: Transcript; report: QualityReport } {
+    const settings = { ...DEFAULT_REPAIR_OPTIONS, ...options };
+    const duration = settings.mediaDuration;
+    const issues: QualityIssue[] = [];
+    const report = (type: QualityIssueType, segment: { start: number; end: number; text?: string }, action: QualityIssue['action']) => {
+        issues.push({ type, start: segment.start, end: segment.end, text: segment.text, action });
+    };
+
+    // Unusable segments
+    let segments: TranscriptSegment[] = [];
+    for (const original of transcript.segments) {
+        const segment: TranscriptSegment = { ...original, text: (original.text || '').trim() };
+        if (!Number.isFinite(segment.start) || !Number.isFinite(segment.end)) {
+            report('invalid-time', { start: 0, end: 0, text: segment.text }, 'dropped');
+            continue;
+        }
+        if (!segment.text) {
+            report('empty-text', segment, 'dropped');
+            continue;
+        }
+        if (segment.start < 0) {
+            report('invalid-time', segment, 'clamped');
+            segment.start = 0;
+        }
+        // Reversed times are treated as a zero-length segment at the start time
+        segment.end = Math.max(segment.end, segment.start);
+        segments.push(segment);
+    }
+
+    // Non-monotonic times
+    segments.forEach((segment, i) => {
+        if (i > 0 && segment.start < segments[i - 1].start) {
+            report('out-of-order', segment, 'sorted');
+        }
+    });
+    segments = segments
+        .map((segment, index) => ({ segment, index }))
+        .sort((a, b) => a.segment.start - b.segment.start || a.index - b.index)
+        .map(item => item.segment);
+
+    // Times past the end of the media
+    if (duration !== null) {
+        segments = segments.filter(segment => {
+            if (segment.start >= duration) {
+                report('past-duration', segment, 'dropped');
+                return false;
+            }
+            if (segment.end > duration) {
+                report('past-duration', segment, 'clamped');
+                segment.end = duration;
+                clampWords(segment);
+            }
+            return true;
+        });
+    }
+
+    // Hallucinated loops: the same line or block of lines over and over
+    const texts = segments.map(segment => normalizeText(segment.text));
+    const kept: TranscriptSegment[] = [];
+    for (let i = 0; i < segments.length;) {
+        let skipped = false;
+        for (let size = 1; size <= MAX_LOOP_SEGMENTS && !skipped; size++) {
+            const block = texts.slice(i, i + size).join('\n');
+            let count = 1;
+            while (i + size * (count + 1) <= segments.length && texts.slice(i + size * count, i + size * (count + 1)).join('\n') === block) {
+                count++;
+            }
+            if (count >= settings.loopRepeats) {
+                kept.push(...segments.slice(i, i + size));
+                const dropped = segments.slice(i + size, i + size * count);
+                report('repeated-loop', { start: dropped[0].start, end: dropped[dropped.length - 1].end, text: segments[i].text }, 'dropped');
+                i += size * count;
+                skipped = true;
+            }
+        }
+        if (!skipped) {
+            kept.push(segments[i]);
+            i++;
+        }
+    }
+    segments = kept;
+
+    // ...and the same phrase over and over inside one segment
+    for (const segment of segments) {
+        const collapsed = collapseRepeatedPhrase(segment.text, settings.loopRepeats);
+        if (collapsed !== null) {
+            report('repeated-loop', segment, 'collapsed');
+            segment.text = collapsed;
+            // The word list no longer matches the text
+            delete segment.words;
+        }
+    }
+
+    // Overlaps: duplicates are dropped, mostly overlapping segments merged, small overlaps trimmed
+    const merged: TranscriptSegment[] = [];
+    for (const segment of segments) {
+        const previous = merged[merged.length - 1];
+        if (!previous || segment.start >= previous.end) {
+            merged.push(segment);
+            continue;
+        }
+
+        const overlap = Math.min(previous.end, segment.end) - segment.start;
+        const shorter = Math.min(previous.end - previous.start, segment.end - segment.start);
+        if (normalizeText(segment.text) === normalizeText(previous.text)) {
+            report('overlap', segment, 'dropped');
+            previous.end = Math.max(previous.end, segment.end);
+        } else if (shorter <= 0 || overlap / shorter >= 0.5) {
+            report('overlap', segment, 'merged');
+            previous.end = Math.max(previous.end, segment.end);
+            previous.text = `${previous.text} ${segment.text}`;
+            previous.words = previous.words && segment.words ? [...previous.words, ...segment.words] : undefined;
+            if (!previous.words) {
+                delete previous.words;
+            }
+        } else {
+            report('overlap', segment, 'trimmed');
+            previous.end = segment.start;
+            clampWords(previous);
+            merged.push(segment);
+        }
+    }
+    segments = merged;
+
+    // Zero-length segments get an estimated duration, without running into the next segment
+    segments.forEach((segment, i) => {
+        if (segment.end - segment.start <= 0) {
+            const words = segment.text.split(/\s+/).length;
+            const limit = Math.min(i + 1 < segments.length ? segments[i + 1].start : Infinity, duration ?? Infinity);
+            segment.end = Math.min(segment.start + Math.max(0.5, words * 0.4), limit);
+            report('zero-length', segment, segment.end > segment.start ? 'extended' : 'flagged');
+        }
+    });
+
+    // Long stretches without speech, including before the first and after the last segment
+    let cursor = 0;
+    for (const segment of segments) {
+        if (segment.start - cursor >= settings.silenceGap) {
+            report('silence-gap', { start: cursor, end: segment.start }, 'flagged');
+        }
+        cursor = Math.max(cursor, segment.end);
+    }
+    if (duration !== null && duration - cursor >= settings.silenceGap) {
+        report('silence-gap', { start: cursor, end: duration }, 'flagged');
+    }
+
+    const covered = segments.reduce((sum, segment) => sum + (segment.end - segment.start), 0);
+    const issueCounts: { [type: string]: number } = {};
+    for (const issue of issues) {
+        issueCounts[issue.type] = (issueCounts[issue.type] || 0) + 1;
+    }
+
+    return {
+        transcript: { ...transcript, segments },
+        report: {
+            mediaDuration: duration,
+            segmentsBefore: transcript.segments.length,
+            segmentsAfter: segments.length,
+            coverage: duration ? Math.min(1, covered / duration) : null,
+            issueCounts,
+            issues
+        }
+    };
+}
@@ -0,0 +1,201 @@
+import { Transcript, TranscriptSegment, TranscriptWord } from './types';
+import { averageConfidence } from './transcript';
+
+export type SegmentationStrategy = 'sentence' | 'max-duration' | 'max-characters' | 'pause' | 'speaker';
+
+export const SEGMENTATION_STRATEGIES: SegmentationStrategy[] = ['sentence', 'max-duration', 'max-characters', 'pause', 'speaker'];
+
+export interface SegmenterOptions {
+    // Active boundary rules; a segment ends as soon as any of them fires
+    strategies: SegmentationStrategy[];
+    // Seconds, for max-duration
+    maxDuration: number;
+    // For max-characters
+    maxCharacters: number;
+    // Seconds of silence between two words, for pause
+    pauseGap: number;
+}
+
+export const DEFAULT_SEGMENTER_OPTIONS: SegmenterOptions = {
+    strategies: SEGMENTATION_STRATEGIES,
+    maxDuration: 10,
+    maxCharacters: 120,
+    pauseGap: 1
+};
+
+// Sentence-final punctuation, optionally followed by closing quotes or brackets
+const SENTENCE_END = /[.!?…。！？]["'»”)\]]*$/;
+
+// The options key each strategy value is written to in a segmentation spec
+const STRATEGY_VALUES: { [strategy: string]: keyof SegmenterOptions } = {
+    'max-duration': 'maxDuration',
+    'max-characters': 'maxCharacters',
+    'pause': 'pauseGap'
+};
+
+/**
+ * Parses a spec like "sentence,speaker,max-duration=8,pause=0.7" into options.
+ * Listed strategies replace the default list; values not given keep their defaults.
+ * @throws Error for unknown strategies and invalid values
+ */
+export function parseSegmentationSpec(spec: string): SegmenterOptions {
+    const options: SegmenterOptions = { ...DEFAULT_SEGMENTER_OPTIONS, strategies: [] };
+    for (const item of spec.split(',').map(part => part.trim()).filter(part => part.length > 0)) {
+        const [name, value] = item.split('=');
+        if (!SEGMENTATION_STRATEGIES.includes(name as SegmentationStrategy)) {
+            throw new Error(`Unknown segmentation strategy "${name}". Available: ${SEGMENTATION_STRATEGIES.join(', ')}`);
+        }
+        if (value !== undefined) {
+            const key = STRATEGY_VALUES[name];
+            const number = Number(value);
+            if (!key || !Number.isFinite(number) || number <= 0) {
+                throw new Error(`Invalid value for segmentation strategy "${item}"`);
+            }
+            (options[key] as number) = number;
+        }
+        options.strategies.push(name as SegmentationStrategy);
+    }
+    if (options.strategies.length === 0) {
+        throw new Error('Segmentation spec lists no strategy');
+    }
+    return options;
+}
+
+// True when the next word has to start a new segment
+function isBoundary(current: TranscriptWord[], word: TranscriptWord, options: SegmenterOptions): boolean {
+    const last = current[current.length - 1];
+    const has = (strategy: SegmentationStrategy) => options.strategies.includes(strategy);
+
+    if (has('sentence') && SENTENCE_END.test(last.text)) {
+        return true;
+    }
+    if (has('speaker') && word.speaker !== last.speaker) {
+        return true;
+    }
+    if (has('pause') && word.start - last.end >= options.pauseGap) {
+        return true;
+    }
+    if (has('max-duration') && word.end - current[0].start > options.maxDuration) {
+        return true;
+    }
+    if (has('max-characters')) {
+        const length = current.reduce((sum, item) => sum + item.text.length + 1, 0) + word.text.length;
+        if (length > options.maxCharacters) {
+            return true;
+        }
+    }
+    return false;
+}
+
+/**
+ * Groups words into segments with the configured boundary rules
+ * @param words Words in time order
+ */
+export function segmentWords(words: TranscriptWord[], options: Partial<SegmenterOptions> = {}): TranscriptSegment[] {
+    const settings = { ...DEFAULT_SEGMENTER_OPTIONS, ...options };
+    const groups: TranscriptWord[][] = [];
+    for (const word of words) {
+        const current = groups[groups.length - 1];
+        if (current && !isBoundary(current, word, settings)) {
+            current.push(word);
+        } else {
+            groups.push([word]);
+        }
+    }
+
+    return groups.map(group => {
+        const segment: TranscriptSegment = {
+            start: group[0].start,
+            end: group[group.length - 1].end,
+            text: group.map(word => word.text).join(' '),
+            words: group
+        };
+        const confidence = averageConfidence(group);
+        if (confidence !== undefined) {
+            segment.confidence = confidence;
+        }
+        if (group[0].speaker !== undefined) {
+            segment.speaker = group[0].speaker;
+        }
+        return segment;
+    });
+}
+
+// Spreads a segment's time over its words in proportion to their length
+function estimateWords(segment: TranscriptSegment): TranscriptWord[] {
+    const texts = segment.text.split(/\s+/).filter(text => text.length > 0);
+    const totalLength = texts.reduce((sum, text) => sum + text.length, 0);
+    const duration = Math.max(0, segment.end - segment.start);
+    const round = (seconds: number) => Math.round(seconds * 1000) / 1000;
+    let offset = 0;
+    return texts.map(text => {
+        const start = round(segment.start + (duration * offset) / totalLength);
+        offset += text.length;
+        const end = round(segment.start + (duration * offset) / totalLength);
+        return { start, end, text, confidence: segment.confidence, speaker: segment.speaker };
+    });
+}
+
+/**
+ * Word timings of a segment, with the punctuated tokens of the segment text as word texts
+ * (Whisper reports words without punctuation). Null when the words do not line up with the text.
+ */
+function matchWords(segment: TranscriptSegment): TranscriptWord[] | null {
+    const tokens = segment.text.split(/\s+/).filter(text => text.length > 0);
+    if (!segment.words || segment.words.length === 0 || segment.words.length !== tokens.length) {
+        return null;
+    }
+    return segment.words.map((word, i) => ({ ...word, text: tokens[i] }));
+}
+
+/**
+ * Word timings of a segment: the reported words where they line up with the text, estimated ones otherwise
+ */
+export function getSegmentWords(segment: TranscriptSegment): TranscriptWord[] {
+    return matchWords(segment) || estimateWords(segment);
+}
+
+/**
+ * Re-segments a transcript from its words, so every service is cut by the same rules.
+ * Segments without usable word timings (Gemini, whisper.cpp) get estimated ones;
+ * estimated words are used for cutting only and are not kept in the result.
+ */
+export function segmentTranscript(transcript: Transcript, options: Partial<SegmenterOptions> = {}): Transcript {
+    const origins = new Map<TranscriptWord, TranscriptSegment>();
+    const estimated = new Set<TranscriptWord>();
+    const words: TranscriptWord[] = [];
+
+    for (const segment of transcript.segments) {
+        const realWords = matchWords(segment);
+        for (const word of realWords || estimateWords(segment)) {
+            origins.set(word, segment);
+            if (!realWords) {
+                estimated.add(word);
+            }
+            words.push(word);
+        }
+    }
+
+    const segments = segmentWords(words, options).map(segment => {
+        const sources = Array.from(new Set(segment.words!.map(word => origins.get(word)!)));
+        const noSpeech = sources
+            .map(source => source.noSpeechProbability)
+            .filter((probability): probability is number => probability !== undefined);
+        if (noSpeech.length > 0) {
+            segment.noSpeechProbability = Math.max(...noSpeech);
+        }
+        // Whisper scores segments but not words
+        if (segment.confidence === undefined) {
+            const confidence = averageConfidence(sources);
+            if (confidence !== undefined) {
+                segment.confidence = confidence;
+            }
+        }
+        if (segment.words!.some(word => estimated.has(word))) {
+            delete segment.words;
+        }
+        return segment;
+    });
+
+    return { ...transcript, segments };
+}
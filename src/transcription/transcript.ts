@@ -0,0 +1,53 @@
+import { Timestamp } from '../utils';
+import { Transcript, TranscriptSegment, TranscriptWord } from './types';
+
+/**
+ * Projects a transcript onto plain Timestamp segments.
+ * Prompts, subtitles and the transcription_<service>.json files only need start, end, text and the speaker.
+ */
+export function toTimestamps(transcript: Transcript): Timestamp[] {
+    return transcript.segments.map(segment => segment.speaker !== undefined
+        ? { start: segment.start, end: segment.end, text: segment.text, speaker: segment.speaker }
+        : { start: segment.start, end: segment.end, text: segment.text });
+}
+
+// Wraps segments of a source without extra data (captions, older saved files)
+export function fromTimestamps(timestamps: Timestamp[], language?: string): Transcript {
+    return {
+        language,
+        segments: timestamps.map(({ start, end, text, speaker }) => speaker !== undefined ? { start, end, text, speaker } : { start, end, text })
+    };
+}
+
+// Lower case without surrounding punctuation, so "Hello," and "hello" count as the same word
+export function normalizeWord(text: string): string {
+    return text
+        .toLowerCase()
+        .replace(/^[.,!?;:"'«»“”„…()\[\]\-–—]+|[.,!?;:"'«»“”„…()\[\]\-–—]+$/g, '');
+}
+
+// Mean confidence of the scored items, or undefined if none has a score
+export function averageConfidence(items: { confidence?: number }[]): number | undefined {
+    const scores = items
+        .map(item => item.confidence)
+        .filter((confidence): confidence is number => typeof confidence === 'number' && !isNaN(confidence));
+    return scores.length > 0 ? scores.reduce((sum, score) => sum + score, 0) / scores.length : undefined;
+}
+
+/**
+ * Distributes separately reported words over the segments: each word goes to the last segment
+ * that starts at or before it (Whisper returns words and segments as two independent lists)
+ */
+export function attachWords(segments: TranscriptSegment[], words: TranscriptWord[]): TranscriptSegment[] {
+    const grouped: TranscriptWord[][] = segments.map(() => []);
+    let index = 0;
+    for (const word of [...words].sort((a, b) => a.start - b.start)) {
+        while (index + 1 < segments.length && segments[index + 1].start <= word.start) {
+            index++;
+        }
+        if (segments.length > 0) {
+            grouped[index].push(word);
+        }
+    }
+    return segments.map((segment, i) => grouped[i].length > 0 ? { ...segment, words: grouped[i] } : segment);
+}
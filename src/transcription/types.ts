@@ -1,12 +1,86 @@
 import { Timestamp } from '../utils';
+import { UsageRecorder } from '../usage';
 
 export enum TranscriptionServiceType {
     OPENAI_WHISPER = 'openai',
     AMAZON_TRANSCRIBE = 'amazon',
     ASSEMBLY_AI = 'assemblyai',
-    GEMINI = 'gemini'
+    GEMINI = 'gemini',
+    LOCAL_WHISPER = 'local-whisper'
+}
+
+export type MediaKind = 'audio' | 'video';
+
+// The original input behind the extracted audio, for services that can use more than the sound track
+export interface MediaSource {
+    path: string;
+    kind: MediaKind;
+}
+
+export interface TranscriptWord {
+    // Seconds
+    start: number;
+    end: number;
+    text: string;
+    // 0-1, as reported by the service
+    confidence?: number;
+    speaker?: string;
+}
+
+// A Timestamp plus whatever else the service reported about it
+export interface TranscriptSegment extends Timestamp {
+    words?: TranscriptWord[];
+    // 0-1; services that only score words get the mean word confidence
+    confidence?: number;
+    // Whisper's probability that the segment contains no speech at all
+    noSpeechProbability?: number;
+}
+
+export interface Transcript {
+    // Language detected or used by the service, in the service's own notation ("en-US", "english"...)
+    language?: string;
+    segments: TranscriptSegment[];
+}
+
+// Per-call settings, as opposed to the service configuration reported by getOptions
+export interface TranscriptionContext {
+    // Original input; Gemini transcribes a video from its picture and sound
+    source?: MediaSource;
+    // Label speakers and start a new segment at every speaker change
+    diarize?: boolean;
+    // Expected number of speakers, if known
+    speakers?: number;
+    // Cancels the request, its retries and any polling; not part of the cache key
+    signal?: AbortSignal;
+    // Receives the billed audio or tokens of each request
+    usage?: UsageRecorder;
+    // Called for every retried request, status checks included
+    onRetry?: (error: unknown) => void;
+    // Wraps every attempt of a request, so retries also wait for the provider's rate limit and stop at --max-cost
+    limit?: <T>(attempt: () => Promise<T>) => Promise<T>;
+}
+
+// One attempt of a request within the limits of the context; services call it inside their retry loop
+export function withinLimits<T>(context: TranscriptionContext, attempt: () => Promise<T>): Promise<T> {
+    return context.limit ? context.limit(attempt) : attempt();
 }
 
 export interface TranscriptionService {
-    transcribe(audioPath: string): Promise<Timestamp[]>;
+    // Services without it ignore TranscriptionContext.diarize
+    readonly supportsDiarization?: boolean;
+    // Request limits; longer or larger audio is transcribed in chunks (see chunking.ts)
+    readonly maxFileSizeMb?: number;
+    // Seconds
+    readonly maxDuration?: number;
+    transcribe(audioPath: string, context?: TranscriptionContext): Promise<Transcript>;
+    /**
+     * Settings that change the result (model, language, vocabulary...).
+     * They are part of the cache key, so a changed setting never returns a stale transcription.
+     */
+    getOptions?(): Record<string, unknown>;
+    /**
+     * Instructions sent with the media, for services that transcribe through a language model.
+     * Values of the particular media (kind, duration) are left as placeholders.
+     */
+    getPrompt?(context?: TranscriptionContext): string;
 } 
\ No newline at end of file
@@ -0,0 +1,105 @@
+import { computeCost } from './prices';
+import { PriceTable, Usage } from './types';
+
+// Rough sizes for a prediction before anything is sent; real runs record what the providers report
+// Speech is about 150 words a minute, plus the [start - end] times of the formatted transcript
+const TRANSCRIPT_TOKENS_PER_MINUTE = 300;
+// System prompt, schema and instructions of one lesson request
+const PROMPT_TOKENS = 1500;
+const LESSON_OUTPUT_TOKENS = 2500;
+// Cards of one section of a long transcript, and their size in the reduce pass
+const SECTION_OUTPUT_TOKENS = 1200;
+// Gemini counts 32 tokens per second of audio and 258 per second of video frames
+const GEMINI_AUDIO_TOKENS_PER_SECOND = 32;
+const GEMINI_VIDEO_TOKENS_PER_SECOND = 258;
+// The JSON segments of a model transcription are about twice the plain transcript
+const MODEL_TRANSCRIPT_OVERHEAD = 2;
+
+export interface EstimateTranscriber {
+    service: string;
+    // Model behind services priced by tokens (Gemini)
+    model?: string;
+}
+
+export interface EstimateAnalyzer {
+    provider: string;
+    model: string;
+    // Transcripts above this many tokens are analyzed in sections
+    sectionTokens: number;
+    // Tokens of the frames sent with each request
+    imageTokens: number;
+}
+
+export interface EstimatePlan {
+    // Seconds of media
+    duration: number;
+    // Gemini transcribes the picture of videos as well
+    isVideo: boolean;
+    transcribers: EstimateTranscriber[];
+    // Transcriptions each analyzer gets: transcribers, captions, consensus
+    transcriptions: string[];
+    analyzers: EstimateAnalyzer[];
+}
+
+export interface EstimateLine {
+    step: string;
+    usage: Usage;
+    cost: number | null;
+}
+
+function estimateTranscription(transcriber: EstimateTranscriber, plan: EstimatePlan, prices: PriceTable): Usage {
+    if (prices.transcription[transcriber.service] !== undefined || !transcriber.model) {
+        return { provider: transcriber.service, audioSeconds: plan.duration };
+    }
+    const transcriptTokens = plan.duration / 60 * TRANSCRIPT_TOKENS_PER_MINUTE;
+    const audioTokens = plan.duration * GEMINI_AUDIO_TOKENS_PER_SECOND;
+    const videoTokens = plan.isVideo ? plan.duration * GEMINI_VIDEO_TOKENS_PER_SECOND : 0;
+    return {
+        provider: transcriber.service,
+        model: transcriber.model,
+        inputTokens: Math.round(audioTokens + videoTokens),
+        // Video input is priced as text, the sound track as audio
+        audioInputTokens: Math.round(audioTokens),
+        outputTokens: Math.round(transcriptTokens * MODEL_TRANSCRIPT_OVERHEAD)
+    };
+}
+
+// Requests of one lesson: the whole transcript at once, or a map pass over sections and a reduce pass
+function estimateAnalysis(analyzer: EstimateAnalyzer, plan: EstimatePlan): Usage {
+    const transcriptTokens = plan.duration / 60 * TRANSCRIPT_TOKENS_PER_MINUTE;
+    if (transcriptTokens <= analyzer.sectionTokens) {
+        return {
+            provider: analyzer.provider,
+            model: analyzer.model,
+            inputTokens: Math.round(PROMPT_TOKENS + transcriptTokens + analyzer.imageTokens),
+            outputTokens: LESSON_OUTPUT_TOKENS
+        };
+    }
+    const sections = Math.ceil(transcriptTokens / analyzer.sectionTokens);
+    return {
+        provider: analyzer.provider,
+        model: analyzer.model,
+        inputTokens: Math.round(sections * PROMPT_TOKENS + transcriptTokens + analyzer.imageTokens
+            + PROMPT_TOKENS + sections * SECTION_OUTPUT_TOKENS),
+        outputTokens: sections * SECTION_OUTPUT_TOKENS + LESSON_OUTPUT_TOKENS
+    };
+}
+
+/**
+ * Predicts the calls of one video from its duration, as if no step had run yet
+ * and every answer passed validation on the first attempt
+ */
+export function estimateVideo(plan: EstimatePlan, prices: PriceTable): EstimateLine[] {
+    const lines: EstimateLine[] = [];
+    for (const transcriber of plan.transcribers) {
+        const usage = estimateTranscription(transcriber, plan, prices);
+        lines.push({ step: `transcription:${transcriber.service}`, usage, cost: computeCost(usage, prices) });
+    }
+    for (const analyzer of plan.analyzers) {
+        const usage = estimateAnalysis(analyzer, plan);
+        for (const service of plan.transcriptions) {
+            lines.push({ step: `analysis:${analyzer.provider}:${service}`, usage, cost: computeCost(usage, prices) });
+        }
+    }
+    return lines;
+}
@@ -0,0 +1,14 @@
+export {
+    Usage,
+    UsageRecord,
+    UsageRecorder,
+    UsageSummary,
+    ProviderUsage,
+    ModelPrice,
+    PriceTable,
+    DEFAULT_PRICE_TABLE,
+    USAGE_FILE
+} from './types';
+export { loadPriceTable, computeCost, formatCost } from './prices';
+export { UsageLedger, BudgetExceededError } from './ledger';
+export { EstimatePlan, EstimateTranscriber, EstimateAnalyzer, EstimateLine, estimateVideo } from './estimate';
@@ -0,0 +1,108 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { FatalError } from '../retry';
+import { computeCost, formatCost } from './prices';
+import { DEFAULT_PRICE_TABLE, PriceTable, Usage, UsageRecord, UsageRecorder, UsageSummary } from './types';
+
+// The run has spent its --max-cost; not retried, since every further call would fail the same way
+export class BudgetExceededError extends FatalError {
+    constructor(spent: number, maxCost: number) {
+        super(`Cost limit reached: ${formatCost(spent)} spent of ${formatCost(maxCost)} (--max-cost)`);
+        this.name = 'BudgetExceededError';
+    }
+}
+
+function summarize(records: UsageRecord[]): UsageSummary {
+    const summary: UsageSummary = { calls: 0, cost: 0, byProvider: {}, unpriced: [] };
+    for (const record of records) {
+        const provider = summary.byProvider[record.provider] ||
+            (summary.byProvider[record.provider] = { calls: 0, inputTokens: 0, outputTokens: 0, audioSeconds: 0, cost: 0 });
+        summary.calls++;
+        provider.calls++;
+        provider.inputTokens += record.inputTokens || 0;
+        provider.outputTokens += record.outputTokens || 0;
+        provider.audioSeconds += record.audioSeconds || 0;
+        if (record.cost === null) {
+            const name = record.model || record.provider;
+            if (!summary.unpriced.includes(name)) {
+                summary.unpriced.push(name);
+            }
+        } else {
+            provider.cost += record.cost;
+            summary.cost += record.cost;
+        }
+    }
+    return summary;
+}
+
+/**
+ * Usage and cost of every provider call of a run. Calls answered from a cache cost nothing and are not recorded.
+ * Once maxCost is spent, checkBudget fails, so no new paid call starts; calls in flight still finish.
+ */
+export class UsageLedger {
+    private records: UsageRecord[] = [];
+    private warned = new Set<string>();
+
+    constructor(private prices: PriceTable = DEFAULT_PRICE_TABLE, private maxCost?: number) {}
+
+    record(video: string, step: string, usage: Usage): UsageRecord {
+        const record: UsageRecord = { ...usage, video, step, cost: computeCost(usage, this.prices) };
+        this.records.push(record);
+
+        const name = usage.model || usage.provider;
+        if (record.cost === null && !this.warned.has(name)) {
+            this.warned.add(name);
+            console.warn(`No price for ${name}; its calls are not counted in the cost (add it with --prices)`);
+        }
+        if (this.maxCost !== undefined && this.getTotalCost() >= this.maxCost && !this.warned.has('budget')) {
+            this.warned.add('budget');
+            console.warn('\x1b[33m%s\x1b[0m', `Cost limit of ${formatCost(this.maxCost)} reached, no new paid requests are started`);
+        }
+        return record;
+    }
+
+    checkBudget(): void {
+        const spent = this.getTotalCost();
+        if (this.maxCost !== undefined && spent >= this.maxCost) {
+            throw new BudgetExceededError(spent, this.maxCost);
+        }
+    }
+
+    isOverBudget(): boolean {
+        return this.maxCost !== undefined && this.getTotalCost() >= this.maxCost;
+    }
+
+    // Recorder for the calls of one step
+    forStep(video: string, step: string): UsageRecorder {
+        return {
+            record: usage => {
+                this.record(video, step, usage);
+            },
+            checkBudget: () => this.checkBudget()
+        };
+    }
+
+    getTotalCost(): number {
+        return this.records.reduce((sum, record) => sum + (record.cost || 0), 0);
+    }
+
+    // Totals of the whole run, or of one video
+    summarize(video?: string): UsageSummary {
+        return summarize(video === undefined ? this.records : this.records.filter(record => record.video === video));
+    }
+
+    /**
+     * Writes the totals and the calls of one video, or of the whole run with a total per video
+     */
+    async save(filePath: string, video?: string): Promise<void> {
+        const records = video === undefined ? this.records : this.records.filter(record => record.video === video);
+        const videos = Array.from(new Set(this.records.map(record => record.video)));
+        const content = {
+            ...summarize(records),
+            ...(video === undefined ? { maxCost: this.maxCost ?? null, byVideo: Object.fromEntries(videos.map(name => [name, this.summarize(name)])) } : {}),
+            records
+        };
+        await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.promises.writeFile(filePath, JSON.stringify(content, null, 2), 'utf-8');
+    }
+}
@@ -0,0 +1,58 @@
+import * as fs from 'fs';
+import { DEFAULT_PRICE_TABLE, PriceTable, Usage } from './types';
+
+/**
+ * Reads a JSON price table and lays it over the defaults, so it only needs the prices that differ:
+ * { "models": { "gpt-4o-mini": { "input": 0.15, "output": 0.6 } }, "transcription": { "amazon": 0.015 } }
+ */
+export async function loadPriceTable(filePath: string): Promise<PriceTable> {
+    const value = JSON.parse(await fs.promises.readFile(filePath, 'utf-8'));
+    if (typeof value !== 'object' || value === null) {
+        throw new Error(`${filePath} must contain a JSON object with "models" and/or "transcription"`);
+    }
+    for (const [model, price] of Object.entries<any>(value.models || {})) {
+        if (typeof price?.input !== 'number' || typeof price?.output !== 'number') {
+            throw new Error(`${filePath}: models.${model} needs numeric "input" and "output" prices per million tokens`);
+        }
+    }
+    for (const [service, price] of Object.entries(value.transcription || {})) {
+        if (typeof price !== 'number') {
+            throw new Error(`${filePath}: transcription.${service} must be a price per minute`);
+        }
+    }
+    return {
+        models: { ...DEFAULT_PRICE_TABLE.models, ...value.models },
+        transcription: { ...DEFAULT_PRICE_TABLE.transcription, ...value.transcription }
+    };
+}
+
+/**
+ * Cost of one call in USD: tokens at the model's price plus audio at the service's price per minute
+ * @returns null when a needed price is missing
+ */
+export function computeCost(usage: Usage, prices: PriceTable): number | null {
+    let cost = 0;
+    if (usage.inputTokens !== undefined || usage.outputTokens !== undefined) {
+        const price = usage.model !== undefined ? prices.models[usage.model] : undefined;
+        if (!price) {
+            return null;
+        }
+        const audioTokens = price.audioInput !== undefined ? usage.audioInputTokens || 0 : 0;
+        cost += ((usage.inputTokens || 0) - audioTokens) * price.input / 1e6
+            + audioTokens * (price.audioInput || 0) / 1e6
+            + (usage.outputTokens || 0) * price.output / 1e6;
+    }
+    if (usage.audioSeconds !== undefined) {
+        const perMinute = prices.transcription[usage.provider];
+        if (perMinute === undefined) {
+            return null;
+        }
+        cost += usage.audioSeconds / 60 * perMinute;
+    }
+    return cost;
+}
+
+// "$0.0123" for small amounts, "$12.34" for large ones
+export function formatCost(cost: number): string {
+    return `$${cost < 1 ? cost.toFixed(4) : cost.toFixed(2)}`;
+}
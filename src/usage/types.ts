@@ -0,0 +1,80 @@
+// Usage of a video (in its output directory) or of a run (in <output>/runs/<run>/)
+export const USAGE_FILE = 'usage.json';
+
+// What one provider call used, as reported by the provider
+export interface Usage {
+    // Transcription service or analysis provider, e.g. "amazon" or "anthropic"
+    provider: string;
+    model?: string;
+    inputTokens?: number;
+    outputTokens?: number;
+    // Part of inputTokens that was audio, for models that price it separately
+    audioInputTokens?: number;
+    // Billed audio, for services priced per minute
+    audioSeconds?: number;
+}
+
+export interface UsageRecord extends Usage {
+    video: string;
+    // Step key, e.g. transcription:openai
+    step: string;
+    // USD; null when the price table has no price for the model or service
+    cost: number | null;
+}
+
+// USD per million tokens
+export interface ModelPrice {
+    input: number;
+    output: number;
+    // Audio input, when it costs more than text
+    audioInput?: number;
+}
+
+export interface PriceTable {
+    // By model name, as in AnalysisProvider.model
+    models: { [model: string]: ModelPrice };
+    // USD per minute of audio, by transcription service
+    transcription: { [service: string]: number };
+}
+
+export interface ProviderUsage {
+    calls: number;
+    inputTokens: number;
+    outputTokens: number;
+    audioSeconds: number;
+    cost: number;
+}
+
+export interface UsageSummary {
+    calls: number;
+    // USD, without the unpriced calls
+    cost: number;
+    byProvider: { [provider: string]: ProviderUsage };
+    // Models and services used without a price
+    unpriced: string[];
+}
+
+// Receives the usage of the provider calls of one step, and stops new calls over budget
+export interface UsageRecorder {
+    record(usage: Usage): void;
+    // @throws BudgetExceededError once the run has spent its --max-cost
+    checkBudget(): void;
+}
+
+/**
+ * List prices in USD at the time of writing; --prices <file> overrides them.
+ * Gemini transcribes through the model, so it is priced by tokens, not per minute.
+ */
+export const DEFAULT_PRICE_TABLE: PriceTable = {
+    models: {
+        'gpt-4o-2024-11-20': { input: 2.5, output: 10 },
+        'claude-3-5-sonnet-20240620': { input: 3, output: 15 },
+        'gemini-2.0-flash': { input: 0.1, output: 0.4, audioInput: 0.7 }
+    },
+    transcription: {
+        openai: 0.006,
+        amazon: 0.024,
+        assemblyai: 0.0062,
+        'local-whisper': 0
+    }
+};
@@ -1,36 +1,52 @@
-import { exec } from 'child_process';
+import { exec, execFile } from 'child_process';
 import { promisify } from 'util';
 import * as fs from 'fs';
 import * as path from 'path';
+import * as crypto from 'crypto';
+import ffmpeg from 'fluent-ffmpeg';
 
 export const execAsync = promisify(exec);
+export const execFileAsync = promisify(execFile);
 
 export interface Timestamp {
     start: number;
     end: number;
     text: string;
+    // Speaker label, only when the transcript was diarized
+    speaker?: string;
 }
 
-export async function retry<T>(
-    operation: () => Promise<T>,
-    maxRetries: number = 3,
-    delayMs: number = 1000
-): Promise<T> {
-    let lastError: Error;
-    
-    for (let i = 0; i < maxRetries; i++) {
-        try {
-            return await operation();
-        } catch (error: any) {
-            lastError = error;
-            if (i < maxRetries - 1) {
-                console.log(`Retry ${i + 1}/${maxRetries} - Waiting ${delayMs}ms before next attempt...`);
-                await new Promise(resolve => setTimeout(resolve, delayMs));
-            }
+/**
+ * Runs the worker for every item with at most `limit` workers in flight.
+ * Results keep the order of the items.
+ */
+export async function mapWithConcurrency<T, R>(
+    items: T[],
+    limit: number,
+    worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let next = 0;
+
+    const runners = Array.from({ length: Math.min(Math.max(1, limit), items.length) }, async () => {
+        while (next < items.length) {
+            const index = next++;
+            results[index] = await worker(items[index], index);
         }
-    }
-    
-    throw lastError!;
+    });
+
+    await Promise.all(runners);
+    return results;
+}
+
+// Duration in seconds as reported by ffprobe, or null if it cannot be read
+export function getMediaDuration(filePath: string): Promise<number | null> {
+    return new Promise(resolve => {
+        ffmpeg.ffprobe(filePath, (err, metadata) => {
+            const duration = metadata?.format?.duration;
+            resolve(err || !duration ? null : duration);
+        });
+    });
 }
 
 export async function checkFFmpeg(): Promise<boolean> {
@@ -96,10 +112,45 @@ export function removeExistingDirectory(dir: string): void {
     }
 }
 
-export async function imageToBase64(imagePath: string): Promise<string> {
-    const imageBuffer = await fs.promises.readFile(imagePath);
-    return imageBuffer.toString('base64');
+/**
+ * Positive integer from an environment variable
+ * @returns undefined when the variable is unset, or with a warning when it is not a positive integer
+ */
+export function readPositiveIntegerEnv(name: string): number | undefined {
+    const value = process.env[name];
+    if (value === undefined || value.trim() === '') {
+        return undefined;
+    }
+    const number = Number(value);
+    if (!Number.isInteger(number) || number < 1) {
+        console.warn('\x1b[33m%s\x1b[0m', `Ignoring ${name}="${value}": expected a positive integer, using the default`);
+        return undefined;
+    }
+    return number;
+}
+
+// SHA-256 of a file's content, streamed so large videos are not read into memory
+export function hashFile(filePath: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const hash = crypto.createHash('sha256');
+        fs.createReadStream(filePath)
+            .on('data', chunk => hash.update(chunk))
+            .on('error', reject)
+            .on('end', () => resolve(hash.digest('hex')));
+    });
+}
+
+// SHA-256 of a list of values, used to fingerprint step inputs and options
+export function hashValues(...values: unknown[]): string {
+    return crypto.createHash('sha256').update(JSON.stringify(values)).digest('hex');
 }
 
 export const SUPPORTED_VIDEO_FORMATS = ['.mp4', '.avi', '.mov', '.mkv', '.webm'];
+export const SUPPORTED_AUDIO_FORMATS = ['.mp3', '.wav', '.m4a', '.ogg', '.flac'];
+export const SUPPORTED_MEDIA_FORMATS = [...SUPPORTED_VIDEO_FORMATS, ...SUPPORTED_AUDIO_FORMATS];
+
+// Audio inputs have no frames to extract; decided by extension, since audio files may embed cover art as a video stream
+export function isAudioFile(filePath: string): boolean {
+    return SUPPORTED_AUDIO_FORMATS.includes(path.extname(filePath).toLowerCase());
+}
 export const MAX_VIDEO_SIZE_MB = 500; // 500MB 
\ No newline at end of file
@@ -1,12 +1,25 @@
 import ffmpeg from 'fluent-ffmpeg';
 import * as fs from 'fs';
 import * as path from 'path';
-import { Timestamp, removeExistingDirectory } from './utils';
-import { TranscriptionServiceType } from './transcription';
+import { Timestamp, removeExistingDirectory, isAudioFile } from './utils';
+import { MediaSource, QualityReport, Transcript, TranscriptionServiceType, fromTimestamps, toTimestamps } from './transcription';
+import { Lesson, LessonResult } from './lesson';
+import { SubtitleFormat, renderSubtitles } from './subtitles';
+import { ComparisonReport } from './comparison';
+import { Keyframe, KeyframeOptions, extractKeyframes, loadKeyframes } from './frames';
 
 export interface ProcessOptions {
+    // Video or audio file
     videoPath: string;
     includeImages: boolean;
+    // Root output directory (default: ./output)
+    outputDir?: string;
+    // Remove the existing video output directory and start over (--force)
+    clean?: boolean;
+    // Scene detection, deduplication and frame limit (default: DEFAULT_KEYFRAME_OPTIONS)
+    keyframes?: Partial<KeyframeOptions>;
+    // Copy the input next to the results (default: true); the server already keeps every upload in its media store
+    copyVideo?: boolean;
 }
 
 export class VideoProcessor {
@@ -15,12 +28,21 @@ export class VideoProcessor {
     private videoName: string;
     private videoOutputDir: string;
     private includeImages: boolean;
+    private clean: boolean;
+    private audioOnly: boolean;
+    private keyframeOptions: Partial<KeyframeOptions>;
+    private copyVideo: boolean;
 
     constructor(options: ProcessOptions) {
         this.videoPath = options.videoPath;
-        this.includeImages = options.includeImages;
+        this.audioOnly = isAudioFile(options.videoPath);
+        // An audio file has no frames, so it is always processed in audio-only mode
+        this.includeImages = options.includeImages && !this.audioOnly;
+        this.clean = !!options.clean;
+        this.keyframeOptions = options.keyframes || {};
+        this.copyVideo = options.copyVideo ?? true;
         this.videoName = path.basename(options.videoPath, path.extname(options.videoPath));
-        this.outputDir = path.join(process.cwd(), 'output');
+        this.outputDir = options.outputDir || path.join(process.cwd(), 'output');
         this.videoOutputDir = path.join(this.outputDir, this.videoName);
 
         this.setupDirectories();
@@ -33,11 +55,13 @@ export class VideoProcessor {
         // Create main output directory if it doesn't exist
         if (!fs.existsSync(this.outputDir)) {
             console.log(`Creating main output directory: ${this.outputDir}`);
-            fs.mkdirSync(this.outputDir);
+            fs.mkdirSync(this.outputDir, { recursive: true });
         }
 
-        // Remove existing video output directory if it exists
-        removeExistingDirectory(this.videoOutputDir);
+        // Results of earlier runs are kept so completed steps can be skipped
+        if (this.clean) {
+            removeExistingDirectory(this.videoOutputDir);
+        }
 
         // Create video output directory if it doesn't exist
         if (!fs.existsSync(this.videoOutputDir)) {
@@ -50,13 +74,19 @@ export class VideoProcessor {
         }
         
         // Copy the original video file to the output directory
-        this.copyOriginalVideo();
+        if (this.copyVideo) {
+            this.copyOriginalVideo();
+        }
     }
 
     private copyOriginalVideo(): void {
         try {
             const videoFileName = path.basename(this.videoPath);
             const outputVideoPath = path.join(this.videoOutputDir, videoFileName);
+
+            if (fs.existsSync(outputVideoPath) && fs.statSync(outputVideoPath).size === fs.statSync(this.videoPath).size) {
+                return;
+            }
             
             console.log(`Copying original video to output directory: ${outputVideoPath}`);
             fs.copyFileSync(this.videoPath, outputVideoPath);
@@ -67,10 +97,15 @@ export class VideoProcessor {
         }
     }
 
+    /**
+     * Writes audio.mp3: the sound track of a video, or a normalized copy of an audio input
+     * (any codec and sample rate becomes MP3, embedded cover art is dropped)
+     */
     public extractAudio(): Promise<string> {
         const audioPath = path.join(this.videoOutputDir, 'audio.mp3');
         return new Promise((resolve, reject) => {
             ffmpeg(this.videoPath)
+                .noVideo()
                 .toFormat('mp3')
                 .on('end', () => resolve(audioPath))
                 .on('error', (err: Error) => reject(err))
@@ -78,87 +113,175 @@ export class VideoProcessor {
         });
     }
 
-    public extractFrames(): Promise<string[]> {
-        if (!this.includeImages) {
+    /**
+     * Extracts keyframes at scene changes instead of one frame per second, without near-duplicates
+     * and at most keyframes.maxFrames of them. Their timestamps are saved in frames/frames.json.
+     */
+    public extractFrames(): Promise<Keyframe[]> {
+        if (!this.includeImages || this.audioOnly) {
             return Promise.resolve([]);
         }
+        return extractKeyframes(this.videoPath, this.getFramesDirectory(), this.keyframeOptions);
+    }
 
-        const framesDir = path.join(this.videoOutputDir, 'frames');
-        if (!fs.existsSync(framesDir)) {
-            fs.mkdirSync(framesDir);
-        }
+    // Keyframes saved by an earlier run, or null if there are none
+    public loadFrames(): Promise<Keyframe[] | null> {
+        return loadKeyframes(this.getFramesDirectory());
+    }
 
-        return new Promise((resolve, reject) => {
-            const frames: string[] = [];
-            
-            // First, get video metadata
-            ffmpeg.ffprobe(this.videoPath, (err, metadata) => {
-                if (err) {
-                    reject(err);
-                    return;
-                }
-
-                const duration = metadata.format.duration || 0;
-                const videoStream = metadata.streams.find(s => s.codec_type === 'video');
-                
-                if (!videoStream) {
-                    reject(new Error('No video stream found'));
-                    return;
-                }
-
-                // Get video dimensions
-                const width = videoStream.width || 1280;
-                const height = videoStream.height || 720;
-
-                // Calculate dimensions maintaining aspect ratio with max width/height of 1280
-                let targetWidth = width;
-                let targetHeight = height;
-                const maxDimension = 1280;
-
-                if (width > height && width > maxDimension) {
-                    targetWidth = maxDimension;
-                    targetHeight = Math.round((height * maxDimension) / width);
-                } else if (height > maxDimension) {
-                    targetHeight = maxDimension;
-                    targetWidth = Math.round((width * maxDimension) / height);
-                }
-
-                console.log(`Video dimensions: ${width}x${height}`);
-                console.log(`Frame dimensions: ${targetWidth}x${targetHeight}`);
-
-                ffmpeg(this.videoPath)
-                    .on('end', () => resolve(frames))
-                    .on('error', (err: Error) => reject(err))
-                    .on('filenames', (filenames: string[]) => {
-                        frames.push(...filenames.map(filename => path.join(framesDir, filename)));
-                    })
-                    .screenshots({
-                        count: Math.ceil(duration),
-                        timemarks: Array.from({ length: Math.ceil(duration) }, (_, i) => i), // [0, 1, 2, ...]
-                        folder: framesDir,
-                        filename: 'frame-%i.jpg',
-                        size: `${targetWidth}x${targetHeight}`
-                    });
-            });
-        });
+    public getKeyframeOptions(): Partial<KeyframeOptions> {
+        return this.keyframeOptions;
     }
 
-    public async saveTranscription(timestamps: Timestamp[], serviceName?: string): Promise<void> {
-        const filename = serviceName 
-            ? `transcription_${serviceName}.json` 
-            : 'transcription.json';
-        const transcriptionPath = path.join(this.videoOutputDir, filename);
+    /**
+     * Saves transcription_<service>.json with plain timestamps, and transcription_<service>_detailed.json
+     * with everything the service reported (words, confidence, speakers, language)
+     * @returns Paths of both files
+     */
+    public async saveTranscription(transcript: Transcript, serviceName?: string): Promise<string[]> {
+        const baseName = serviceName 
+            ? `transcription_${serviceName}` 
+            : 'transcription';
+        const transcriptionPath = path.join(this.videoOutputDir, `${baseName}.json`);
+        const detailedPath = path.join(this.videoOutputDir, `${baseName}_detailed.json`);
         
         console.log(`Saving transcription from ${serviceName || 'default'} service...`);
-        await fs.promises.writeFile(transcriptionPath, JSON.stringify(timestamps, null, 2), 'utf-8');
+        await fs.promises.writeFile(transcriptionPath, JSON.stringify(toTimestamps(transcript), null, 2), 'utf-8');
+        await fs.promises.writeFile(detailedPath, JSON.stringify(transcript, null, 2), 'utf-8');
         console.log(`✅ Transcription successfully saved to ${transcriptionPath}`);
-        console.log(`   File contains ${timestamps.length} segments.`);
+        console.log(`   File contains ${transcript.segments.length} segments${transcript.language ? ` (language: ${transcript.language})` : ''}.`);
+        return [transcriptionPath, detailedPath];
     }
 
-    public async saveAnalysis(content: string, aiName: string): Promise<void> {
-        const filename = path.join(this.videoOutputDir, `analysis_${aiName}${this.includeImages ? '_with_images' : ''}.json`);
-        await fs.promises.writeFile(filename, content, 'utf-8');
+    /**
+     * Saves transcription_<service>_quality.json with what the sanity check found and repaired
+     * @returns Path of the report
+     */
+    public async saveQualityReport(report: QualityReport, serviceName: string): Promise<string> {
+        const reportPath = path.join(this.videoOutputDir, `transcription_${serviceName}_quality.json`);
+        await fs.promises.writeFile(reportPath, JSON.stringify(report, null, 2), 'utf-8');
+        return reportPath;
+    }
+
+    /**
+     * Saves comparison.json with the WER matrix and low-agreement ranges of all transcriptions
+     * @returns Path of the report
+     */
+    public async saveComparison(report: ComparisonReport): Promise<string> {
+        const reportPath = path.join(this.videoOutputDir, 'comparison.json');
+        await fs.promises.writeFile(reportPath, JSON.stringify(report, null, 2), 'utf-8');
+        console.log(`✅ Transcription comparison saved to ${reportPath}`);
+        return reportPath;
+    }
+
+    /**
+     * Writes transcription_<service>.<format> subtitle files next to the transcription JSON
+     * @returns Paths of the written files
+     */
+    public async saveSubtitles(transcript: Transcript, serviceName: string, formats: SubtitleFormat[]): Promise<string[]> {
+        const subtitlePaths: string[] = [];
+        for (const format of formats) {
+            const subtitlePath = path.join(this.videoOutputDir, `transcription_${serviceName}.${format}`);
+            await fs.promises.writeFile(subtitlePath, renderSubtitles(transcript, format), 'utf-8');
+            subtitlePaths.push(subtitlePath);
+        }
+        if (subtitlePaths.length > 0) {
+            console.log(`✅ Subtitles (${formats.join(', ')}) saved for ${serviceName}`);
+        }
+        return subtitlePaths;
+    }
+
+    /**
+     * Saves the lesson only if it passed validation.
+     * Rejected attempts are written to a separate *_failures.json file with their reasons,
+     * and the cards proposed per section of a long video to *_sections.json.
+     */
+    public async saveAnalysis(result: LessonResult, aiName: string): Promise<string> {
+        const baseName = `analysis_${aiName}${this.includeImages ? '_with_images' : ''}`;
+
+        const failedAttempts = result.attempts.filter(attempt => attempt.errors.length > 0);
+        const failuresPath = path.join(this.videoOutputDir, `${baseName}_failures.json`);
+        if (failedAttempts.length > 0) {
+            await fs.promises.writeFile(failuresPath, JSON.stringify({
+                provider: result.provider,
+                succeeded: result.lesson !== null,
+                failures: failedAttempts
+            }, null, 2), 'utf-8');
+            console.log(`Rejected lesson attempts saved to ${failuresPath}`);
+        } else {
+            // Rejections of an earlier run no longer describe this lesson
+            await fs.promises.rm(failuresPath, { force: true });
+        }
+
+        // Cards proposed per section of a long video, to see what the final lesson was picked from
+        if (result.sections) {
+            const sectionsPath = path.join(this.videoOutputDir, `${baseName}_sections.json`);
+            await fs.promises.writeFile(sectionsPath, JSON.stringify(result.sections, null, 2), 'utf-8');
+            console.log(`Section cards saved to ${sectionsPath}`);
+        }
+
+        if (!result.lesson) {
+            throw new Error(`No valid lesson from ${result.provider} after ${result.attempts.length} attempts`);
+        }
+
+        const filename = path.join(this.videoOutputDir, `${baseName}.json`);
+        await fs.promises.writeFile(filename, JSON.stringify(result.lesson, null, 2), 'utf-8');
         console.log(`Analysis saved to ${filename}`);
+        return filename;
+    }
+
+    /**
+     * Reads a transcription saved by an earlier run, preferring the detailed file
+     * @returns null if this service has no saved transcription
+     */
+    public async loadTranscription(serviceName: string): Promise<Transcript | null> {
+        const detailedPath = path.join(this.videoOutputDir, `transcription_${serviceName}_detailed.json`);
+        if (fs.existsSync(detailedPath)) {
+            return JSON.parse(await fs.promises.readFile(detailedPath, 'utf-8'));
+        }
+        const transcriptionPath = this.getTranscriptionPath(serviceName);
+        if (!fs.existsSync(transcriptionPath)) {
+            return null;
+        }
+        return fromTimestamps(JSON.parse(await fs.promises.readFile(transcriptionPath, 'utf-8')));
+    }
+
+    public getTranscriptionPath(serviceName: string): string {
+        return path.join(this.videoOutputDir, `transcription_${serviceName}.json`);
+    }
+
+    // Names of the services that have a transcription_<service>.json in the output directory
+    public getSavedTranscriptionServices(): string[] {
+        if (!fs.existsSync(this.videoOutputDir)) {
+            return [];
+        }
+        return fs.readdirSync(this.videoOutputDir)
+            .map(file => file.match(/^transcription_(.+)\.json$/))
+            .filter((match): match is RegExpMatchArray => match !== null && !/_(detailed|quality)$/.test(match[1]))
+            .map(match => match[1]);
+    }
+
+    // Validated lessons in the output directory, keyed by file name without analysis_ and .json
+    public async loadSavedLessons(): Promise<{ [name: string]: Lesson }> {
+        const lessons: { [name: string]: Lesson } = {};
+        if (!fs.existsSync(this.videoOutputDir)) {
+            return lessons;
+        }
+        for (const file of fs.readdirSync(this.videoOutputDir)) {
+            const match = file.match(/^analysis_(.+)\.json$/);
+            if (match && !/_(failures|sections)$/.test(match[1])) {
+                lessons[match[1]] = JSON.parse(await fs.promises.readFile(path.join(this.videoOutputDir, file), 'utf-8'));
+            }
+        }
+        return lessons;
+    }
+
+    public getVideoName(): string {
+        return this.videoName;
+    }
+
+    public getFramesDirectory(): string {
+        return path.join(this.videoOutputDir, 'frames');
     }
 
     public getOutputDirectory(): string {
@@ -169,6 +292,15 @@ export class VideoProcessor {
         return this.includeImages;
     }
 
+    public isAudioOnly(): boolean {
+        return this.audioOnly;
+    }
+
+    // The input as transcription services see it
+    public getMediaSource(): MediaSource {
+        return { path: this.videoPath, kind: this.audioOnly ? 'audio' : 'video' };
+    }
+
     public getVideoPath(): string {
         return this.videoPath;
     }
@@ -0,0 +1,51 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import { alignSequences, alignWords, countErrors, wordErrorRate } from '../src/comparison/align';
+import { ComparedWord } from '../src/comparison/types';
+
+// Words of about half a second, with a pause after every sentenceLength words
+function timedWords(words: string[], sentenceLength = 10): ComparedWord[] {
+    return words.map((text, i) => {
+        const start = i * 0.5 + Math.floor(i / sentenceLength) * 2;
+        return { text, normalized: text, start, end: start + 0.4 };
+    });
+}
+
+test('alignSequences reports each kind of edit', () => {
+    const steps = alignSequences(['a', 'b', 'c', 'd'], ['a', 'x', 'c', 'd', 'e'], (a, b) => a === b);
+    assert.deepStrictEqual(steps.map(step => step.operation), ['match', 'substitution', 'match', 'match', 'insertion']);
+    assert.deepStrictEqual(steps[4], { operation: 'insertion', reference: null, hypothesis: 4 });
+
+    const deletion = alignSequences(['a', 'b', 'c'], ['a', 'c'], (a, b) => a === b);
+    assert.deepStrictEqual(deletion.map(step => step.operation), ['match', 'deletion', 'match']);
+});
+
+test('wordErrorRate counts errors against the reference length', () => {
+    const errors = wordErrorRate('the cat sat on the mat'.split(' '), 'the cat on a mat today'.split(' '));
+    assert.deepStrictEqual(errors, { substitutions: 1, deletions: 1, insertions: 1, referenceWords: 6, wer: 3 / 6 });
+    assert.strictEqual(wordErrorRate([], []).wer, 0);
+    assert.strictEqual(wordErrorRate([], ['extra']).wer, 1);
+});
+
+test('alignWords in time windows finds the same errors as one full alignment', () => {
+    const reference = timedWords(Array.from({ length: 1000 }, (_, i) => `w${i}`));
+    // The same clock: a transcriber that misses a word leaves a gap
+    const hypothesis = reference
+        .map((word, i) => i % 97 === 0 ? { ...word, text: 'wrong', normalized: 'wrong' } : word)
+        .filter((_, i) => i % 131 !== 5);
+    const windowed = countErrors(alignWords(reference, hypothesis), reference.length);
+    const full = wordErrorRate(reference.map(word => word.normalized), hypothesis.map(word => word.normalized));
+    assert.deepStrictEqual(windowed, full);
+    assert.strictEqual(full.substitutions, 11);
+    assert.strictEqual(full.deletions, 8);
+});
+
+test('alignWords keeps every index of both sequences once and in order', () => {
+    const reference = timedWords('one two three four five six seven'.split(' '), 3);
+    const hypothesis = timedWords('one too three five six seven eight'.split(' '), 3);
+    const steps = alignWords(reference, hypothesis);
+    const referenceIndices = steps.map(step => step.reference).filter(index => index !== null);
+    const hypothesisIndices = steps.map(step => step.hypothesis).filter(index => index !== null);
+    assert.deepStrictEqual(referenceIndices, [0, 1, 2, 3, 4, 5, 6]);
+    assert.deepStrictEqual(hypothesisIndices, [0, 1, 2, 3, 4, 5, 6]);
+});
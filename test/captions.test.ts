@@ -0,0 +1,67 @@
+import { after, test } from 'node:test';
+import * as assert from 'node:assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { findSidecarSubtitles, parseSrt, parseSubtitleFile, parseVtt } from '../src/subtitles';
+
+const rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'captions-test-'));
+after(() => fs.rmSync(rootDir, { recursive: true, force: true }));
+
+// Creates the files in a directory of their own and returns its path
+function directory(name: string, files: { [name: string]: string }): string {
+    const dir = path.join(rootDir, name);
+    fs.mkdirSync(dir);
+    for (const [file, content] of Object.entries(files)) {
+        fs.writeFileSync(path.join(dir, file), content);
+    }
+    return dir;
+}
+
+test('parseSrt reads the cues and drops the formatting', () => {
+    const content = '\uFEFF1\r\n00:00:01,000 --> 00:00:02,500\r\n<i>Hello</i> &amp;\r\nwelcome\r\n\r\n2\r\n01:00:00,05 --> 01:00:03,000\r\n{\\an8}Top line\r\n';
+    assert.deepStrictEqual(parseSrt(content), [
+        { start: 1, end: 2.5, text: 'Hello & welcome' },
+        { start: 3600.05, end: 3603, text: 'Top line' }
+    ]);
+    assert.throws(() => parseSrt('1\n00:00:01 --> 00:00:02\nNo milliseconds\n'), /Invalid subtitle timestamp "00:00:01 "/);
+});
+
+test('parseVtt skips the header and notes, and reads short times, settings and speakers', () => {
+    const content = [
+        'WEBVTT - Lecture', '',
+        'NOTE written by hand', '',
+        'intro',
+        '00:01.000 --> 00:04.000 align:start position:10%',
+        '<v.loud Jane Doe>Good morning</v>', '',
+        '00:04.000 --> 00:06.000',
+        '<c.yellow>Let us begin</c>', ''
+    ].join('\n');
+    assert.deepStrictEqual(parseVtt(content), [
+        { start: 1, end: 4, text: 'Good morning', speaker: 'Jane Doe' },
+        { start: 4, end: 6, text: 'Let us begin' }
+    ]);
+    assert.throws(() => parseVtt('00:01.000 --> 00:02.000\nHi\n'), /missing WEBVTT header/);
+});
+
+test('parseSubtitleFile picks the parser by extension and rejects files without cues', async () => {
+    const dir = directory('files', {
+        'lecture.vtt': 'WEBVTT\n\n00:00.500 --> 00:01.000\nHi\n',
+        'empty.srt': '\n\n',
+        'lecture.ass': '[Script Info]'
+    });
+    assert.deepStrictEqual(await parseSubtitleFile(path.join(dir, 'lecture.vtt')), [{ start: 0.5, end: 1, text: 'Hi' }]);
+    await assert.rejects(parseSubtitleFile(path.join(dir, 'empty.srt')), /No subtitle cues found/);
+    await assert.rejects(parseSubtitleFile(path.join(dir, 'lecture.ass')), /Unsupported subtitle format/);
+});
+
+test('findSidecarSubtitles prefers the plain name, then a language tag, and ignores other videos', () => {
+    const plain = directory('plain', { 'lecture.mp4': '', 'lecture.vtt': '', 'lecture.en.srt': '' });
+    assert.strictEqual(findSidecarSubtitles(path.join(plain, 'lecture.mp4')), path.join(plain, 'lecture.vtt'));
+
+    const tagged = directory('tagged', { 'lecture.mp4': '', 'lecture.pt-BR.vtt': '', 'lecture.en.srt': '' });
+    assert.strictEqual(findSidecarSubtitles(path.join(tagged, 'lecture.mp4')), path.join(tagged, 'lecture.en.srt'));
+
+    const other = directory('other', { 'lecture.mp4': '', 'lecture.part2.srt': '', 'lecture2.srt': '', 'lecture.en.txt': '' });
+    assert.strictEqual(findSidecarSubtitles(path.join(other, 'lecture.mp4')), null);
+});
@@ -0,0 +1,54 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import { getChunkDuration, planChunks, stitchChunks } from '../src/transcription/chunking';
+import { GeminiTranscriptionService } from '../src/transcription/gemini';
+import { Transcript, TranscriptWord } from '../src/transcription/types';
+
+// One segment per word, with the times relative to the chunk
+function transcriptOf(words: [string, number, number][]): Transcript {
+    return {
+        segments: words.map(([text, start, end]) => {
+            const word: TranscriptWord = { text, start, end };
+            return { text, start, end, words: [word] };
+        })
+    };
+}
+
+test('planChunks leaves audio within the limit in one chunk', () => {
+    assert.deepStrictEqual(planChunks(500, [], 600), [{ start: 0, end: 500, from: 0, to: 500 }]);
+});
+
+test('planChunks cuts at the planned point without silences and overlaps the neighbours', () => {
+    const chunks = planChunks(1000, [], 400, { overlap: 3 });
+    assert.deepStrictEqual(chunks.map(chunk => [chunk.from, chunk.to]), [[0, 394], [394, 788], [788, 1000]]);
+    assert.deepStrictEqual(chunks.map(chunk => [chunk.start, chunk.end]), [[0, 397], [391, 791], [785, 1000]]);
+    assert.ok(chunks.every(chunk => chunk.end - chunk.start <= 400));
+});
+
+test('planChunks moves each cut into the latest silence before it', () => {
+    const silences = [{ start: 100, end: 102 }, { start: 350, end: 352 }, { start: 393, end: 397 }];
+    const chunks = planChunks(1000, silences, 400, { overlap: 3, silenceWindow: 60 });
+    // 395 lies after the planned cut at 394, so the cut goes into the pause at 351
+    assert.strictEqual(chunks[0].to, 351);
+    assert.strictEqual(chunks[1].from, 351);
+});
+
+test('stitchChunks keeps a word heard in the overlap once', () => {
+    const first = { start: 0, end: 13, from: 0, to: 10 };
+    const second = { start: 7, end: 20, from: 10, to: 20 };
+    const stitched = stitchChunks([
+        { chunk: first, transcript: transcriptOf([['one', 1, 2], ['two', 5, 6], ['three', 9.5, 10.5], ['four', 11, 12]]) },
+        { chunk: second, transcript: { language: 'en', ...transcriptOf([['three', 2.6, 3.4], ['four', 4, 5], ['five', 8, 9]]) } }
+    ]);
+    assert.deepStrictEqual(stitched.segments.map(segment => segment.text), ['one', 'two', 'three', 'four', 'five']);
+    // Shifted to their place in the recording
+    assert.deepStrictEqual(stitched.segments.map(segment => segment.start), [1, 5, 9.5, 11, 15]);
+    assert.strictEqual(stitched.language, 'en');
+});
+
+test('getChunkDuration splits long media for Gemini even when the file fits its upload limit', () => {
+    const gemini = new GeminiTranscriptionService();
+    assert.strictEqual(getChunkDuration(600, 10, gemini), null);
+    assert.strictEqual(getChunkDuration(2 * 60 * 60, 120, gemini), gemini.maxDuration);
+    assert.strictEqual(getChunkDuration(2 * 60 * 60, 120, gemini, { maxDuration: 300 }), 300);
+});
@@ -0,0 +1,102 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { FatalError } from '../src/retry';
+import { GeminiFileClient, GeminiFileState, HttpClient, HttpRequest, HttpResponse } from '../src/transcription/geminiFiles';
+
+const BASE_URL = 'http://gemini.test';
+const UPLOAD_URL = `${BASE_URL}/upload/session/1`;
+
+async function readBody(body: HttpRequest['body']): Promise<string> {
+    if (!(body instanceof Readable)) {
+        return body || '';
+    }
+    const chunks: Buffer[] = [];
+    for await (const chunk of body) {
+        chunks.push(chunk);
+    }
+    return Buffer.concat(chunks).toString('utf-8');
+}
+
+// Answers the file API like Gemini: the file stays PROCESSING for the given number of checks
+function createFakeHttp(processingChecks: number, finalState: GeminiFileState = 'ACTIVE') {
+    const requests: Array<HttpRequest & { content: string }> = [];
+    let checks = 0;
+    const file = (state: GeminiFileState) => ({ name: 'files/abc', uri: `${BASE_URL}/v1beta/files/abc`, mimeType: 'audio/mpeg', state });
+    const respond = (body: unknown, headers: Record<string, string> = {}): HttpResponse => ({ status: 200, headers, body: JSON.stringify(body) });
+
+    const http: HttpClient = {
+        async request(request) {
+            requests.push({ ...request, content: await readBody(request.body) });
+            if (request.method === 'POST' && request.url === `${BASE_URL}/upload/v1beta/files`) {
+                return respond({}, { 'x-goog-upload-url': UPLOAD_URL });
+            }
+            if (request.method === 'POST' && request.url === UPLOAD_URL) {
+                return respond({ file: file('PROCESSING') });
+            }
+            if (request.method === 'GET' && request.url === `${BASE_URL}/v1beta/files/abc`) {
+                checks++;
+                return respond(file(checks > processingChecks ? finalState : 'PROCESSING'));
+            }
+            if (request.method === 'DELETE' && request.url === `${BASE_URL}/v1beta/files/abc`) {
+                return respond({});
+            }
+            return { status: 404, headers: {}, body: 'not found' };
+        }
+    };
+    return { http, requests };
+}
+
+function writeTempFile(content: string): string {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'gemini-files-'));
+    const filePath = path.join(dir, 'audio.mp3');
+    fs.writeFileSync(filePath, content);
+    return filePath;
+}
+
+test('uploads a file, waits until it is ACTIVE and deletes it', async () => {
+    const { http, requests } = createFakeHttp(2);
+    const client = new GeminiFileClient('key', { baseUrl: BASE_URL, http, pollIntervalMs: 1 });
+    const filePath = writeTempFile('sound');
+    try {
+        const uploaded = await client.upload(filePath, 'audio/mpeg');
+        assert.strictEqual(uploaded.state, 'PROCESSING');
+        const active = await client.waitUntilActive(uploaded);
+        assert.strictEqual(active.state, 'ACTIVE');
+        await client.delete(active.name);
+    } finally {
+        fs.rmSync(path.dirname(filePath), { recursive: true, force: true });
+    }
+
+    assert.deepStrictEqual(requests.map(request => `${request.method} ${request.url}`), [
+        `POST ${BASE_URL}/upload/v1beta/files`,
+        `POST ${UPLOAD_URL}`,
+        `GET ${BASE_URL}/v1beta/files/abc`,
+        `GET ${BASE_URL}/v1beta/files/abc`,
+        `GET ${BASE_URL}/v1beta/files/abc`,
+        `DELETE ${BASE_URL}/v1beta/files/abc`
+    ]);
+    const [start, upload] = requests;
+    assert.strictEqual(start.headers?.['X-Goog-Upload-Command'], 'start');
+    assert.strictEqual(start.headers?.['X-Goog-Upload-Header-Content-Length'], '5');
+    assert.deepStrictEqual(JSON.parse(start.content), { file: { display_name: 'audio.mp3' } });
+    assert.strictEqual(upload.headers?.['X-Goog-Upload-Command'], 'upload, finalize');
+    assert.strictEqual(upload.content, 'sound');
+    assert.ok(requests.every(request => request.url === UPLOAD_URL || request.headers?.['x-goog-api-key'] === 'key'));
+});
+
+test('fails without retries when Gemini cannot process the file', async () => {
+    const { http } = createFakeHttp(1, 'FAILED');
+    const client = new GeminiFileClient('key', { baseUrl: BASE_URL, http, pollIntervalMs: 1 });
+    const file = { name: 'files/abc', uri: '', mimeType: 'audio/mpeg', state: 'PROCESSING' as const };
+    await assert.rejects(client.waitUntilActive(file), FatalError);
+});
+
+test('reports HTTP errors with their status', async () => {
+    const http: HttpClient = { request: async () => ({ status: 503, headers: {}, body: 'unavailable' }) };
+    const client = new GeminiFileClient('key', { baseUrl: BASE_URL, http });
+    await assert.rejects(client.delete('files/abc'), (error: any) => error.status === 503 && /delete files\/abc/.test(error.message));
+});
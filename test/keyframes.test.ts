@@ -0,0 +1,79 @@
+import { after, test } from 'node:test';
+import * as assert from 'node:assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import sharp from 'sharp';
+import { KEYFRAME_MANIFEST, Keyframe, hammingDistance, loadKeyframes, perceptualHash, selectKeyframes } from '../src/frames';
+
+const rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'keyframes-test-'));
+after(() => fs.rmSync(rootDir, { recursive: true, force: true }));
+
+// Grey image drawn pixel by pixel, saved as JPEG
+async function drawImage(name: string, width: number, height: number, shade: (x: number, y: number) => number): Promise<string> {
+    const pixels = Buffer.alloc(width * height);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            pixels[y * width + x] = Math.max(0, Math.min(255, Math.round(shade(x / width, y / height))));
+        }
+    }
+    const imagePath = path.join(rootDir, name);
+    await sharp(pixels, { raw: { width, height, channels: 1 } }).jpeg({ quality: 90 }).toFile(imagePath);
+    return imagePath;
+}
+
+const frame = (timestamp: number, hash: string): Keyframe => ({ path: `frame-${timestamp}.jpg`, timestamp, hash });
+
+test('hammingDistance counts the differing bits of two hashes', () => {
+    assert.strictEqual(hammingDistance('0000000000000000', '0000000000000000'), 0);
+    assert.strictEqual(hammingDistance('0000000000000000', 'f000000000000001'), 5);
+    assert.strictEqual(hammingDistance('ffffffffffffffff', '0000000000000000'), 64);
+});
+
+test('perceptualHash stays close for a resized and brightened copy and differs for another picture', async () => {
+    const picture = (brightness: number) => (x: number, y: number) => brightness + 80 * Math.sin(x * 5 + 1) * Math.cos(y * 4);
+    const slide = await drawImage('slide.jpg', 320, 180, picture(120));
+    const copy = await drawImage('copy.jpg', 640, 360, picture(140));
+    const other = await drawImage('other.jpg', 320, 180, (x, y) => 128 + 60 * Math.cos(y * 9 + 2) - 50 * Math.sin(x * 4));
+
+    const [slideHash, copyHash, otherHash] = await Promise.all([slide, copy, other].map(perceptualHash));
+    assert.match(slideHash, /^[0-9a-f]{16}$/);
+    assert.ok(hammingDistance(slideHash, copyHash) <= 4, `copy: ${hammingDistance(slideHash, copyHash)}`);
+    assert.ok(hammingDistance(slideHash, otherHash) > 16, `other: ${hammingDistance(slideHash, otherHash)}`);
+});
+
+test('selectKeyframes drops near-duplicates, including a slide shown again later', () => {
+    const { kept, dropped } = selectKeyframes([
+        frame(0, '0000000000000000'),
+        frame(10, '0000000000000003'),
+        frame(20, 'ffffffff00000000'),
+        frame(30, '0000000000000100'),
+        frame(40, 'ffffffffffffffff')
+    ], { duplicateDistance: 4 });
+    assert.deepStrictEqual(kept.map(item => item.timestamp), [0, 20, 40]);
+    assert.deepStrictEqual(dropped.map(item => item.timestamp), [10, 30]);
+});
+
+test('selectKeyframes above maxFrames drops the frames closest to the one before them', () => {
+    const { kept, dropped } = selectKeyframes([
+        frame(0, '0000000000000000'),
+        frame(10, 'ffff000000000000'),
+        frame(20, 'ffffff0000000000'),
+        frame(30, '00000000ffffffff'),
+        frame(40, 'ffffffffffffffff')
+    ], { duplicateDistance: 0, maxFrames: 3 });
+    // 20 is 8 bits from 10; then 10 is 16 bits from 0, while 30 and 40 are further from their neighbours
+    assert.deepStrictEqual(kept.map(item => item.timestamp), [0, 30, 40]);
+    assert.deepStrictEqual(dropped.map(item => item.timestamp), [20, 10]);
+
+    // The first frame stays even with a limit of zero
+    assert.deepStrictEqual(selectKeyframes([frame(0, '0000000000000000'), frame(5, 'ffffffffffffffff')], { maxFrames: 0 }).kept.map(item => item.timestamp), [0]);
+});
+
+test('loadKeyframes reads frames.json with paths inside the frames directory', async () => {
+    const framesDir = path.join(rootDir, 'frames');
+    assert.strictEqual(await loadKeyframes(framesDir), null);
+    fs.mkdirSync(framesDir);
+    fs.writeFileSync(path.join(framesDir, KEYFRAME_MANIFEST), JSON.stringify([frame(12.5, 'abcdef0123456789')]));
+    assert.deepStrictEqual(await loadKeyframes(framesDir), [{ path: path.join(framesDir, 'frame-12.5.jpg'), timestamp: 12.5, hash: 'abcdef0123456789' }]);
+});
@@ -0,0 +1,109 @@
+import { after, test } from 'node:test';
+import * as assert from 'node:assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AIService } from '../src/aiService';
+import { AnalysisManager, AnalysisProvider, AnalysisRequest, ModelAnswer, RepairTurn } from '../src/analysis';
+import { Lesson, extractJson, parseLesson, validateLesson } from '../src/lesson';
+import { VideoProcessor } from '../src/videoProcessor';
+
+const rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lesson-test-'));
+after(() => fs.rmSync(rootDir, { recursive: true, force: true }));
+
+const lesson: Lesson = {
+    lessonInfo: { title: 'Photosynthesis', description: 'How plants turn light into sugar' },
+    memoryCards: [
+        { title: 'Chlorophyll', description: 'The green pigment that absorbs the light used by photosynthesis.' },
+        { title: 'Glucose', description: 'The sugar a plant builds from carbon dioxide and water in the light.' }
+    ],
+    quizCards: [{ question: 'What do plants release?', options: ['Oxygen', 'Nitrogen'], correctOptionIndex: 0 }],
+    openEndedCards: [{ question: 'Why are leaves green?', expectedAnswer: 'Chlorophyll reflects green light' }]
+};
+
+const timestamps = [{ start: 0, end: 5, text: 'Plants use light to make sugar.' }];
+
+// Answers with the given texts in turn and keeps what each request carried
+function registerProvider(name: string, answers: ModelAnswer[]) {
+    const requests: Array<{ request: AnalysisRequest; repairs: RepairTurn[] }> = [];
+    const provider: AnalysisProvider = {
+        name,
+        model: 'test-model',
+        async generate(request, repairs) {
+            requests.push({ request, repairs: [...repairs] });
+            return answers[requests.length - 1];
+        }
+    };
+    AnalysisManager.register(provider);
+    return requests;
+}
+
+test('extractJson finds the object in fences and prose', () => {
+    assert.deepStrictEqual(extractJson('```json\n{"a": 1}\n```'), { a: 1 });
+    assert.deepStrictEqual(extractJson('Here is the lesson: {"a": "}"} Hope it helps'), { a: '}' });
+    assert.throws(() => extractJson('{"a": 1'), /not closed/);
+    assert.throws(() => extractJson('no lesson today'), /No JSON object/);
+});
+
+test('validateLesson reports every violation with its path', () => {
+    assert.deepStrictEqual(validateLesson(lesson), { lesson, errors: [] });
+    const { lesson: rejected, errors } = validateLesson({
+        ...lesson,
+        lessonInfo: { title: '', description: 'Fine' },
+        memoryCards: [{ title: 'Short', description: 'Too short' }],
+        quizCards: [{ question: 'Which?', options: ['A', 'B'], correctOptionIndex: 2 }]
+    });
+    assert.strictEqual(rejected, null);
+    assert.deepStrictEqual(errors, [
+        'lessonInfo.title must be a non-empty string',
+        'memoryCards must contain 2-7 items (got 1)',
+        'memoryCards[0].description must be 40-150 characters long (got 9)',
+        'quizCards[0].correctOptionIndex must be an integer index into options'
+    ]);
+    assert.deepStrictEqual(parseLesson('[]').errors, ['The answer must be a JSON object']);
+});
+
+test('analyze sends the violations back and accepts the repaired answer', async () => {
+    const invalid = JSON.stringify({ ...lesson, openEndedCards: [] });
+    const requests = registerProvider('repairing', [{ raw: invalid }, { raw: JSON.stringify(lesson) }]);
+    const result = await new AIService().analyze('repairing', timestamps, [], false);
+
+    assert.deepStrictEqual(result.lesson, lesson);
+    assert.deepStrictEqual(result.attempts.map(attempt => attempt.errors), [['openEndedCards must contain exactly 1 items (got 0)'], []]);
+    assert.strictEqual(requests[0].repairs.length, 0);
+    assert.strictEqual(requests[1].repairs[0].raw, invalid);
+    assert.match(requests[1].repairs[0].feedback, /openEndedCards must contain exactly 1 items/);
+});
+
+test('analyze repeats a cut off answer with a larger output limit and gives up after the attempts', async () => {
+    const requests = registerProvider('truncating', [
+        { raw: '{"lessonInfo": {', truncated: true },
+        { raw: 'Sorry, no lesson' },
+        { raw: JSON.stringify(lesson) }
+    ]);
+    const result = await new AIService({ maxLessonAttempts: 2 }).analyze('truncating', timestamps, [], false);
+
+    assert.strictEqual(result.lesson, null);
+    assert.strictEqual(result.attempts.length, 2);
+    assert.deepStrictEqual(requests.map(({ request }) => request.maxOutputTokens), [2048, 4096]);
+    // The cut off answer is asked again, not repaired
+    assert.strictEqual(requests[1].repairs.length, 0);
+});
+
+test('saveAnalysis keeps the rejected attempts until a later run succeeds without them', async () => {
+    const videoPath = path.join(rootDir, 'lecture.mp3');
+    fs.writeFileSync(videoPath, 'not really audio');
+    const videoProcessor = new VideoProcessor({ videoPath, includeImages: false, outputDir: rootDir, copyVideo: false });
+    const failuresPath = path.join(rootDir, 'lecture', 'analysis_test_failures.json');
+
+    await assert.rejects(videoProcessor.saveAnalysis({
+        provider: 'test',
+        lesson: null,
+        attempts: [{ attempt: 1, raw: 'Sorry', errors: ['No JSON object found in the response'] }]
+    }, 'test'), /No valid lesson/);
+    assert.strictEqual(JSON.parse(fs.readFileSync(failuresPath, 'utf-8')).succeeded, false);
+
+    const saved = await videoProcessor.saveAnalysis({ provider: 'test', lesson, attempts: [{ attempt: 1, raw: '', errors: [] }] }, 'test');
+    assert.deepStrictEqual(JSON.parse(fs.readFileSync(saved, 'utf-8')), lesson);
+    assert.strictEqual(fs.existsSync(failuresPath), false);
+});
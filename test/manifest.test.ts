@@ -0,0 +1,75 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import { RunManifest, StepEntry, VideoManifest, diffManifests, formatManifestDiff } from '../src/manifest';
+
+const HASH_A = 'a'.repeat(64);
+const HASH_B = 'b'.repeat(64);
+
+function step(entry: Partial<StepEntry> & { step: string }): StepEntry {
+    return { status: 'completed', runId: 'run-1', retries: 0, artifacts: [], ...entry };
+}
+
+function videoManifest(video: string, steps: StepEntry[], runId = 'run-1'): VideoManifest {
+    return {
+        version: 1,
+        kind: 'video',
+        runId,
+        command: 'run',
+        tool: { name: 'ai-test', version: '1.0.0', commit: 'abc', node: 'v20.0.0' },
+        settings: { transcribers: ['openai'], consensus: false },
+        video,
+        videoHash: HASH_A,
+        updatedAt: '2026-01-01T00:00:00.000Z',
+        steps
+    };
+}
+
+function runManifest(videos: VideoManifest[]): RunManifest {
+    const { runId, command, tool, settings } = videos[0];
+    return { version: 1, kind: 'run', runId, command, tool, settings, startedAt: '', finishedAt: '', videos };
+}
+
+const transcription = step({
+    step: 'transcription:openai',
+    provider: 'openai',
+    model: 'whisper-1',
+    inputs: { audio: HASH_A },
+    artifacts: [{ path: 'transcription_openai.json', sha256: HASH_A, bytes: 10 }]
+});
+
+test('diffManifests ignores the run and the timings of otherwise equal manifests', () => {
+    const before = videoManifest('lecture.mp4', [transcription]);
+    const after = videoManifest('lecture.mp4', [{ ...transcription, runId: 'run-2', durationMs: 1000 }], 'run-2');
+    assert.deepStrictEqual(diffManifests(before, after), []);
+});
+
+test('diffManifests names the setting, input and artifact that changed', () => {
+    const before = videoManifest('lecture.mp4', [transcription]);
+    const after: VideoManifest = {
+        ...videoManifest('lecture.mp4', [{
+            ...transcription,
+            model: 'whisper-2',
+            artifacts: [{ path: 'transcription_openai.json', sha256: HASH_B, bytes: 12 }]
+        }]),
+        settings: { transcribers: ['openai'], consensus: true }
+    };
+    const differences = diffManifests(before, after);
+    assert.deepStrictEqual(differences.map(difference => [difference.step, difference.field]), [
+        [null, 'settings.consensus'],
+        ['transcription:openai', 'model'],
+        ['transcription:openai', 'artifacts.transcription_openai.json']
+    ]);
+    assert.strictEqual(formatManifestDiff(differences.slice(2)),
+        `[lecture.mp4] transcription:openai artifacts.transcription_openai.json: ${HASH_A.slice(0, 12)} -> ${HASH_B.slice(0, 12)}`);
+});
+
+test('diffManifests reports steps and videos present on one side only', () => {
+    const analysis = step({ step: 'analysis:anthropic:openai', provider: 'anthropic' });
+    const before = runManifest([videoManifest('a.mp4', [transcription]), videoManifest('b.mp4', [])]);
+    const after = runManifest([videoManifest('a.mp4', [transcription, analysis]), videoManifest('c.mp4', [])]);
+    assert.deepStrictEqual(diffManifests(before, after), [
+        { video: 'a.mp4', step: 'analysis:anthropic:openai', field: 'step', before: undefined, after: 'completed' },
+        { video: 'b.mp4', step: null, field: 'video', before: 'processed', after: undefined },
+        { video: 'c.mp4', step: null, field: 'video', before: undefined, after: 'processed' }
+    ]);
+});
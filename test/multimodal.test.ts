@@ -0,0 +1,98 @@
+import { after, before, test } from 'node:test';
+import * as assert from 'node:assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import sharp from 'sharp';
+import {
+    PromptBudget,
+    PromptPart,
+    anthropicImageTokens,
+    buildMultimodalPrompt,
+    estimateTextTokens,
+    geminiImageTokens,
+    getTextOnlyContent,
+    openAIImageTokens,
+    rankFrames
+} from '../src/analysis';
+import { Keyframe } from '../src/frames';
+
+const rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'multimodal-test-'));
+after(() => fs.rmSync(rootDir, { recursive: true, force: true }));
+
+// One-word segments of ten seconds each
+const timestamps = ['one', 'two', 'three', 'four'].map((text, i) => ({ start: i * 10, end: i * 10 + 10, text }));
+
+const frameAt = (timestamp: number): Keyframe => ({ path: path.join(rootDir, `frame-${timestamp}.jpg`), timestamp, hash: '0'.repeat(16) });
+const times = (frames: Keyframe[]) => frames.map(frame => frame.timestamp);
+
+const frames = [0, 15, 30].map(frameAt);
+before(async () => {
+    for (const frame of frames) {
+        await sharp({ create: { width: 200, height: 100, channels: 3, background: { r: frame.timestamp * 8, g: 100, b: 50 } } }).jpeg().toFile(frame.path);
+    }
+});
+
+function budget(overrides: Partial<PromptBudget>, sizes: number[][] = []): PromptBudget {
+    return {
+        maxImages: 10,
+        maxImageBytes: 1024 * 1024,
+        maxTokens: 100000,
+        maxDimension: 50,
+        jpegQuality: 80,
+        imageTokens: (width, height) => {
+            sizes.push([width, height]);
+            return 100;
+        },
+        ...overrides
+    };
+}
+
+const shape = (parts: PromptPart[]) => parts.map(part => part.type === 'image' ? `image ${part.timestamp}` : 'text');
+
+test('the image token estimates follow each provider', () => {
+    // Fits 2048, then the shortest side goes down to 768: 768x768 is four 512px tiles, 1536x768 six
+    assert.strictEqual(openAIImageTokens(1024, 1024), 85 + 170 * 4);
+    assert.strictEqual(openAIImageTokens(4096, 2048), 85 + 170 * 6);
+    assert.strictEqual(anthropicImageTokens(1092, 1092), Math.ceil(1092 * 1092 / 750));
+    assert.strictEqual(anthropicImageTokens(3136, 1568), Math.ceil(1568 * 784 / 750));
+    assert.strictEqual(geminiImageTokens(384, 200), 258);
+    assert.strictEqual(geminiImageTokens(1280, 720), 258 * 2);
+    assert.strictEqual(estimateTextTokens('12345678'), 2);
+});
+
+test('rankFrames takes the frame on screen longest in each part of the transcript', () => {
+    const candidates = [0, 12, 25, 38].map(frameAt);
+    // 0-20: the frame at 0 is shown for 12 seconds; 20-40: the frame at 25 for 13
+    assert.deepStrictEqual(times(rankFrames(timestamps, candidates, 2)), [25, 0]);
+    assert.deepStrictEqual(times(rankFrames(timestamps, candidates, 3)), [0, 25, 12]);
+    // One frame covers all the speech, so the other slot goes to a frame shown after it
+    assert.deepStrictEqual(times(rankFrames(timestamps, [0, 100].map(frameAt), 2)), [0, 100]);
+    // Without a transcript the frames are spread over the video
+    assert.deepStrictEqual(times(rankFrames([], [0, 10, 20, 30, 40].map(frameAt), 2)), [0, 20]);
+    assert.deepStrictEqual(rankFrames(timestamps, candidates, 0), []);
+});
+
+test('buildMultimodalPrompt places the downscaled frames in the transcript within the image count', async () => {
+    const sizes: number[][] = [];
+    const parts = await buildMultimodalPrompt(timestamps, frames, budget({ maxImages: 2 }, sizes));
+    // Each frame goes before the first segment whose middle is not before it
+    assert.deepStrictEqual(shape(parts), ['text', 'text', 'image 0', 'text', 'text', 'image 15', 'text']);
+    assert.deepStrictEqual(parts[1], { type: 'text', text: '[Frame at 0.0s]' });
+    assert.deepStrictEqual(parts[3], { type: 'text', text: JSON.stringify(timestamps.slice(0, 1)) });
+    assert.deepStrictEqual(parts[6], { type: 'text', text: JSON.stringify(timestamps.slice(1)) });
+    assert.deepStrictEqual(sizes, [[50, 25], [50, 25]]);
+    assert.strictEqual(getTextOnlyContent(parts), null);
+});
+
+test('buildMultimodalPrompt leaves out the frames over the byte or token budget but never the transcript', async () => {
+    const noRoom = await buildMultimodalPrompt(timestamps, frames, budget({ maxImageBytes: 10 }));
+    assert.deepStrictEqual(shape(noRoom), ['text', 'text']);
+    assert.strictEqual((noRoom[1] as { text: string }).text, JSON.stringify(timestamps));
+
+    const text = await buildMultimodalPrompt(timestamps, [], budget({}));
+    const textTokens = estimateTextTokens((text[0] as { text: string }).text) + estimateTextTokens(JSON.stringify(timestamps));
+    // Room for one frame and its label, not two
+    const one = await buildMultimodalPrompt(timestamps, frames, budget({ maxTokens: textTokens + 110 }));
+    assert.strictEqual(shape(one).filter(part => part.startsWith('image')).length, 1);
+});
@@ -0,0 +1,50 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import { AnalysisManager, AnalysisProvider, DEFAULT_PROMPT_BUDGET, OPENAI_PROMPT_BUDGET, OpenAIAnalysisProvider, OpenAICompatibleProvider } from '../src/analysis';
+import { MediaRecord, parseJobSpec } from '../src/server';
+
+const media: MediaRecord = { id: 'media', name: 'lecture.mp4', path: '/data/lecture.mp4', source: 'path', bytes: 1, createdAt: '' };
+
+function provider(name: string, model: string): AnalysisProvider {
+    return { name, model, generate: async () => ({ raw: '{}' }) };
+}
+
+test('the built-in providers are registered under their names', () => {
+    assert.deepStrictEqual(AnalysisManager.getProviderNames().slice(0, 3), ['openai', 'anthropic', 'gemini']);
+    assert.ok(AnalysisManager.getProvider('openai') instanceof OpenAIAnalysisProvider);
+    assert.strictEqual(AnalysisManager.getProvider('openai').promptBudget, OPENAI_PROMPT_BUDGET);
+    assert.throws(() => AnalysisManager.getProvider('unknown'), /Unknown analysis provider "unknown"\. Available: openai, anthropic, gemini/);
+});
+
+test('a registered provider can be selected by name and replaces one with the same name', () => {
+    AnalysisManager.register(provider('custom', 'model-1'));
+    AnalysisManager.register(provider('custom', 'model-2'));
+    assert.strictEqual(AnalysisManager.getProvider('custom').model, 'model-2');
+    assert.strictEqual(AnalysisManager.getProviderNames().filter(name => name === 'custom').length, 1);
+    // Jobs accept it like a built-in one; a custom provider needs no API key of the server
+    process.env.LOCAL_WHISPER_MODEL = 'model.bin';
+    assert.deepStrictEqual(parseJobSpec({ transcribers: ['local-whisper'], analyzers: ['custom'] }, media).analyzers, ['custom']);
+});
+
+test('the OpenAI-compatible provider is configured from the environment', () => {
+    const names = ['OPENAI_COMPATIBLE_BASE_URL', 'OPENAI_COMPATIBLE_MODEL', 'OPENAI_COMPATIBLE_NAME', 'OPENAI_COMPATIBLE_MAX_IMAGES'];
+    const saved = names.map(name => process.env[name]);
+    try {
+        names.forEach(name => delete process.env[name]);
+        assert.strictEqual(OpenAICompatibleProvider.fromEnv(), null);
+
+        process.env.OPENAI_COMPATIBLE_BASE_URL = 'http://localhost:8080/v1';
+        process.env.OPENAI_COMPATIBLE_MODEL = 'llava';
+        assert.strictEqual(OpenAICompatibleProvider.fromEnv()!.name, 'openai-compatible');
+        assert.strictEqual(OpenAICompatibleProvider.fromEnv()!.promptBudget, DEFAULT_PROMPT_BUDGET);
+
+        process.env.OPENAI_COMPATIBLE_NAME = 'local';
+        process.env.OPENAI_COMPATIBLE_MAX_IMAGES = '1';
+        const local = OpenAICompatibleProvider.fromEnv()!;
+        assert.strictEqual(local.name, 'local');
+        assert.strictEqual(local.model, 'llava');
+        assert.strictEqual(local.promptBudget.maxImages, 1);
+    } finally {
+        names.forEach((name, i) => saved[i] === undefined ? delete process.env[name] : process.env[name] = saved[i]);
+    }
+});
@@ -0,0 +1,79 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import { TranscriptSegment, repairTranscript } from '../src/transcription';
+
+const spans = (segments: TranscriptSegment[]) => segments.map(segment => [segment.start, segment.end, segment.text]);
+
+test('repairTranscript drops unusable segments, sorts them and keeps them inside the media', () => {
+    const { transcript, report } = repairTranscript({
+        segments: [
+            { start: 5, end: 6, text: 'Second.' },
+            { start: -1, end: 2, text: ' First. ' },
+            { start: NaN, end: 3, text: 'Lost.' },
+            { start: 3, end: 3.5, text: '' },
+            { start: 8, end: 12, text: 'Third.' },
+            { start: 20, end: 21, text: 'After the end.' }
+        ]
+    }, { mediaDuration: 10 });
+
+    assert.deepStrictEqual(spans(transcript.segments), [[0, 2, 'First.'], [5, 6, 'Second.'], [8, 10, 'Third.']]);
+    assert.deepStrictEqual(report.issues.map(issue => [issue.type, issue.action]), [
+        ['invalid-time', 'clamped'],
+        ['invalid-time', 'dropped'],
+        ['empty-text', 'dropped'],
+        ['out-of-order', 'sorted'],
+        ['past-duration', 'clamped'],
+        ['past-duration', 'dropped']
+    ]);
+    assert.strictEqual(report.segmentsBefore, 6);
+    assert.strictEqual(report.segmentsAfter, 3);
+    assert.strictEqual(report.coverage, 0.5);
+});
+
+test('repairTranscript removes hallucinated loops and keeps real repetition', () => {
+    const line = (start: number, text: string): TranscriptSegment => ({ start, end: start + 1, text });
+    const { transcript, report } = repairTranscript({
+        segments: [
+            line(0, 'Thanks for watching.'), line(1, 'thanks for watching'), line(2, 'Thanks for watching!'),
+            line(3, 'Subscribe.'), line(4, 'Like.'), line(5, 'Subscribe.'), line(6, 'Like.'), line(7, 'Subscribe.'), line(8, 'Like.'),
+            line(9, 'No, no, no, that is wrong.'),
+            line(10, 'I think I think I think I think so.'),
+            line(11, 'go go go go go go go go go')
+        ]
+    });
+
+    assert.deepStrictEqual(transcript.segments.map(segment => segment.text), [
+        'Thanks for watching.', 'Subscribe.', 'Like.', 'No, no, no, that is wrong.', 'I think so.', 'go'
+    ]);
+    assert.deepStrictEqual(report.issues.map(issue => [issue.action, issue.start, issue.end]), [
+        ['dropped', 1, 3], ['dropped', 5, 9], ['collapsed', 10, 11], ['collapsed', 11, 12]
+    ]);
+    assert.strictEqual(report.issueCounts['repeated-loop'], 4);
+});
+
+test('repairTranscript resolves overlaps, stretches zero-length segments and reports silence', () => {
+    const { transcript, report } = repairTranscript({
+        segments: [
+            { start: 0, end: 4, text: 'Welcome.' },
+            { start: 1, end: 4, text: 'welcome' },
+            { start: 3.5, end: 8, text: 'Today we talk about cells.' },
+            { start: 7.5, end: 8.5, text: 'Cells are small.', words: [{ start: 7.5, end: 8.5, text: 'Cells' }] },
+            { start: 40, end: 40, text: 'Any questions?' }
+        ]
+    }, { mediaDuration: 41 });
+
+    assert.deepStrictEqual(spans(transcript.segments), [
+        [0, 3.5, 'Welcome.'],
+        [3.5, 8.5, 'Today we talk about cells. Cells are small.'],
+        // Two words are given 0.4 seconds each
+        [40, 40.8, 'Any questions?']
+    ]);
+    assert.deepStrictEqual(report.issues.map(issue => [issue.type, issue.action]), [
+        ['overlap', 'dropped'],
+        ['overlap', 'trimmed'],
+        ['overlap', 'merged'],
+        ['zero-length', 'extended'],
+        ['silence-gap', 'flagged']
+    ]);
+    assert.deepStrictEqual([report.issues[4].start, report.issues[4].end], [8.5, 40]);
+});
@@ -0,0 +1,72 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import { FatalError, HttpError, backoffDelay, classifyError, parseRetryAfter, retry } from '../src/retry';
+
+test('classifyError sorts errors by status, name, code and message', () => {
+    assert.deepStrictEqual(classifyError(new HttpError('busy', 429, { 'retry-after': '7' })), { kind: 'rate-limited', retryAfterMs: 7000 });
+    assert.strictEqual(classifyError(new HttpError('overloaded', 529)).kind, 'transient');
+    assert.strictEqual(classifyError(new HttpError('bad request', 400)).kind, 'fatal');
+    assert.strictEqual(classifyError(Object.assign(new Error('timeout'), { status: 408 })).kind, 'transient');
+    assert.strictEqual(classifyError(new FatalError('no key')).kind, 'fatal');
+    assert.strictEqual(classifyError(Object.assign(new Error('slow down'), { name: 'ThrottlingException' })).kind, 'rate-limited');
+    assert.strictEqual(classifyError(Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' })).kind, 'transient');
+    assert.strictEqual(classifyError(Object.assign(new Error('aborted'), { name: 'AbortError' })).kind, 'fatal');
+    assert.strictEqual(classifyError(new Error('Failed: HTTP Error: 401 Unauthorized')).kind, 'fatal');
+    assert.strictEqual(classifyError(new Error('something odd')).kind, 'transient');
+});
+
+test('classifyError looks through wrapped errors and reads the wait each SDK reports', () => {
+    const wrapped = Object.assign(new Error('step failed'), { cause: new HttpError('quota', 429) });
+    assert.strictEqual(classifyError(wrapped).kind, 'rate-limited');
+
+    const openAI = Object.assign(new Error('rate limited'), { status: 429, headers: { 'retry-after-ms': '1500' } });
+    assert.strictEqual(classifyError(openAI).retryAfterMs, 1500);
+    const gemini = Object.assign(new Error('quota'), { status: 429, errorDetails: [{ '@type': 'RetryInfo', retryDelay: '31s' }] });
+    assert.strictEqual(classifyError(gemini).retryAfterMs, 31000);
+});
+
+test('parseRetryAfter reads seconds and HTTP dates', () => {
+    const now = Date.parse('2026-01-01T00:00:00Z');
+    assert.strictEqual(parseRetryAfter('3', now), 3000);
+    assert.strictEqual(parseRetryAfter('Thu, 01 Jan 2026 00:00:10 GMT', now), 10000);
+    assert.strictEqual(parseRetryAfter('soon', now), undefined);
+    assert.strictEqual(parseRetryAfter(undefined, now), undefined);
+});
+
+test('backoffDelay doubles per attempt, keeps half of it fixed and stays under the maximum', () => {
+    for (let attempt = 1; attempt <= 10; attempt++) {
+        const full = Math.min(5000, 100 * Math.pow(2, attempt - 1));
+        const delay = backoffDelay(100, attempt, 5000);
+        assert.ok(delay >= full / 2 && delay <= full, `attempt ${attempt}: ${delay}`);
+    }
+});
+
+test('retry repeats transient errors and gives up on fatal ones', async () => {
+    let calls = 0;
+    const result = await retry(async () => {
+        calls++;
+        if (calls < 3) {
+            throw new HttpError('unavailable', 503);
+        }
+        return 'done';
+    }, { baseDelayMs: 1, maxDelayMs: 1 });
+    assert.strictEqual(result, 'done');
+    assert.strictEqual(calls, 3);
+
+    calls = 0;
+    await assert.rejects(retry(async () => {
+        calls++;
+        throw new HttpError('forbidden', 403);
+    }, { baseDelayMs: 1 }), /forbidden/);
+    assert.strictEqual(calls, 1);
+});
+
+test('retry stops waiting when the caller aborts', async () => {
+    const controller = new AbortController();
+    const started = Date.now();
+    setTimeout(() => controller.abort(), 20);
+    await assert.rejects(retry(async () => {
+        throw new HttpError('busy', 429, { 'retry-after': '60' });
+    }, { signal: controller.signal }));
+    assert.ok(Date.now() - started < 5000);
+});
@@ -0,0 +1,76 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import { ProgressReporter, RateLimiter, Scheduler, Semaphore } from '../src/scheduler';
+import { mapWithConcurrency } from '../src/utils';
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 5));
+
+// Runs the tasks through run() and records the most that were running at once
+async function measure(count: number, run: (task: () => Promise<number>) => Promise<number>): Promise<{ results: number[]; peak: number }> {
+    let active = 0;
+    let peak = 0;
+    const results = await Promise.all(Array.from({ length: count }, (_, i) => run(async () => {
+        active++;
+        peak = Math.max(peak, active);
+        await tick();
+        active--;
+        return i;
+    })));
+    return { results, peak };
+}
+
+test('Semaphore lets the limit through and starts the others in arrival order', async () => {
+    const semaphore = new Semaphore(2);
+    assert.strictEqual((await measure(6, task => semaphore.run(task))).peak, 2);
+
+    const started: number[] = [];
+    await Promise.all([0, 1, 2, 3, 4, 5].map(i => semaphore.run(async () => {
+        started.push(i);
+        await new Promise(resolve => setTimeout(resolve, (6 - i) * 2));
+    })));
+    assert.deepStrictEqual(started, [0, 1, 2, 3, 4, 5]);
+
+    assert.strictEqual((await measure(5, task => new Semaphore(0).run(task))).peak, 5);
+});
+
+test('Scheduler runs at most --concurrency steps and reports them', async () => {
+    const progress = new ProgressReporter(1, () => undefined);
+    const scheduler = new Scheduler(3, progress);
+    const { results, peak } = await measure(8, task => scheduler.run('lecture.mp4', `step:${Math.random()}`, task));
+    assert.strictEqual(peak, 3);
+    assert.deepStrictEqual(results, [0, 1, 2, 3, 4, 5, 6, 7]);
+    assert.ok(Object.values(progress.getSteps('lecture.mp4')).every(status => status === 'done'));
+});
+
+test('Scheduler fails steps still waiting for a slot once the signal aborts', async () => {
+    const controller = new AbortController();
+    const scheduler = new Scheduler(1, new ProgressReporter(1, () => undefined), controller.signal);
+    const first = scheduler.run('lecture.mp4', 'audio', async () => {
+        controller.abort();
+        return 'audio';
+    });
+    const second = scheduler.run('lecture.mp4', 'frames', async () => 'frames');
+    assert.strictEqual(await first, 'audio');
+    await assert.rejects(second);
+});
+
+test('RateLimiter keeps requests in flight under the provider limit', async () => {
+    const limiter = new RateLimiter({ requestsPerMinute: 0, maxInFlight: 2 });
+    assert.strictEqual((await measure(6, task => limiter.run(task))).peak, 2);
+});
+
+test('mapWithConcurrency keeps the order of the results', async () => {
+    const { results, peak } = await measure(7, task => task());
+    assert.strictEqual(peak, 7);
+    let active = 0;
+    let limited = 0;
+    const mapped = await mapWithConcurrency(results, 2, async item => {
+        active++;
+        limited = Math.max(limited, active);
+        await tick();
+        active--;
+        return item * 10;
+    });
+    assert.strictEqual(limited, 2);
+    assert.deepStrictEqual(mapped, [0, 10, 20, 30, 40, 50, 60]);
+});
@@ -0,0 +1,71 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import { SchemaType } from '@google/generative-ai';
+import { JsonSchema, LESSON_JSON_SCHEMA, LESSON_LIMITS, SECTION_CARDS_JSON_SCHEMA, toAnthropicSchema, toGeminiSchema, toOpenAISchema } from '../src/lesson';
+
+// What the three conversions have in common
+interface SchemaNode {
+    type: string;
+    properties?: { [name: string]: SchemaNode };
+    items?: SchemaNode;
+    [key: string]: unknown;
+}
+
+const asNode = (schema: object) => schema as SchemaNode;
+
+// Every object of the schema with its path
+function objects(schema: SchemaNode, at = '$'): Array<[string, SchemaNode]> {
+    const found: Array<[string, SchemaNode]> = schema.properties ? [[at, schema]] : [];
+    for (const [name, child] of Object.entries(schema.properties || {})) {
+        found.push(...objects(child, `${at}.${name}`));
+    }
+    return schema.items ? [...found, ...objects(schema.items, `${at}[]`)] : found;
+}
+
+test('the lesson schema carries the limits the validator enforces', () => {
+    const memoryCards = LESSON_JSON_SCHEMA.properties!.memoryCards;
+    assert.strictEqual(memoryCards.minItems, LESSON_LIMITS.memoryCards.min);
+    assert.strictEqual(memoryCards.maxItems, LESSON_LIMITS.memoryCards.max);
+    assert.strictEqual(memoryCards.items!.properties!.description.maxLength, LESSON_LIMITS.memoryCardDescription.max);
+    assert.deepStrictEqual(Object.keys(SECTION_CARDS_JSON_SCHEMA.properties!), ['summary', 'memoryCards', 'quizCards', 'openEndedCards']);
+});
+
+test('toOpenAISchema keeps strict mode rules and drops the length keywords it rejects', () => {
+    const schema = asNode(toOpenAISchema());
+    for (const [at, object] of objects(schema)) {
+        assert.strictEqual(object.type, 'object', at);
+        assert.deepStrictEqual(object.required, Object.keys(object.properties!), at);
+        assert.strictEqual(object.additionalProperties, false, at);
+    }
+    assert.ok(!JSON.stringify(schema).includes('minLength'));
+    assert.ok(!JSON.stringify(schema).includes('maxLength'));
+    const quizCards = schema.properties!.quizCards;
+    assert.deepStrictEqual(quizCards.items!.properties!.correctOptionIndex, {
+        type: 'integer', description: 'Zero-based index of the correct option', minimum: 0
+    });
+    assert.strictEqual(quizCards.maxItems, LESSON_LIMITS.quizCards.max);
+});
+
+test('toAnthropicSchema is a copy of the plain schema', () => {
+    const schema = toAnthropicSchema();
+    // Unset descriptions are left out
+    assert.deepStrictEqual(schema, JSON.parse(JSON.stringify(LESSON_JSON_SCHEMA)));
+    assert.strictEqual(schema.type, 'object');
+    (schema.properties as { [name: string]: JsonSchema }).lessonInfo.description = 'changed';
+    assert.notStrictEqual(LESSON_JSON_SCHEMA.properties!.lessonInfo.description, 'changed');
+});
+
+test('toGeminiSchema maps the types and keeps the required fields and item counts', () => {
+    const schema = asNode(toGeminiSchema(SECTION_CARDS_JSON_SCHEMA));
+    for (const [at, object] of objects(schema)) {
+        assert.strictEqual(object.type, SchemaType.OBJECT, at);
+        assert.deepStrictEqual(object.required, Object.keys(object.properties!), at);
+        assert.strictEqual(object.additionalProperties, undefined, at);
+    }
+    const { summary, quizCards } = schema.properties!;
+    assert.deepStrictEqual(summary, { type: SchemaType.STRING, description: 'What this section covers, in one or two sentences' });
+    assert.strictEqual(quizCards.type, SchemaType.ARRAY);
+    assert.strictEqual(quizCards.maxItems, 2);
+    assert.strictEqual(quizCards.items!.properties!.correctOptionIndex.type, SchemaType.INTEGER);
+    assert.strictEqual(quizCards.items!.properties!.options.items!.type, SchemaType.STRING);
+});
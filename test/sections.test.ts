@@ -0,0 +1,125 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import { AIService } from '../src/aiService';
+import { AnalysisManager, AnalysisProvider, AnalysisRequest, RepairTurn, SECTION_SYSTEM_PROMPT, estimateTextTokens, formatTranscript, splitTopicalSections } from '../src/analysis';
+import { Lesson } from '../src/lesson';
+import { Timestamp } from '../src/utils';
+
+const PLANTS = ['photosynthesis', 'chlorophyll', 'leaves', 'sunlight', 'glucose', 'carbon', 'oxygen', 'plants', 'stomata', 'water'];
+const VOLCANOES = ['volcano', 'magma', 'eruption', 'lava', 'crater', 'tectonic', 'plates', 'mantle', 'pressure', 'basalt'];
+
+// Ten-second segments of eight words each, rotating through the words of a topic
+function lecture(topics: Array<[string[], number]>, pauseBefore: { [index: number]: number } = {}): Timestamp[] {
+    const timestamps: Timestamp[] = [];
+    let time = 0;
+    for (const [words, count] of topics) {
+        for (let i = 0; i < count; i++) {
+            time += pauseBefore[timestamps.length] ?? 0;
+            const text = Array.from({ length: 8 }, (_, j) => words[(i + j) % words.length]).join(' ');
+            timestamps.push({ start: time, end: time + 10, text });
+            time += 10;
+        }
+    }
+    return timestamps;
+}
+
+const tokensOf = (segments: Timestamp[]) => segments.reduce((sum, segment) => sum + estimateTextTokens(formatTranscript([segment])), 0);
+const sizes = (sections: Timestamp[][]) => sections.map(section => section.length);
+
+test('splitTopicalSections keeps a transcript that fits in one section', () => {
+    const timestamps = lecture([[PLANTS, 5]]);
+    assert.deepStrictEqual(splitTopicalSections(timestamps, tokensOf(timestamps)), [timestamps]);
+    assert.deepStrictEqual(splitTopicalSections([], 100), []);
+});
+
+test('splitTopicalSections cuts where the vocabulary changes, within the size limit', () => {
+    const timestamps = lecture([[PLANTS, 24], [VOLCANOES, 16]]);
+    const maxTokens = Math.ceil(tokensOf(timestamps) * 0.65);
+    const sections = splitTopicalSections(timestamps, maxTokens);
+
+    // Even sizes would cut at 20; the topic changes at 24, still within the range a section may end in
+    assert.deepStrictEqual(sizes(sections), [24, 16]);
+    assert.ok(sections.every(section => tokensOf(section) <= maxTokens));
+    assert.deepStrictEqual(sections.flat(), timestamps);
+});
+
+test('splitTopicalSections prefers a pause when the topic stays the same', () => {
+    const timestamps = lecture([[PLANTS, 30]], { 13: 3 });
+    const sections = splitTopicalSections(timestamps, Math.ceil(tokensOf(timestamps) * 0.6));
+    assert.deepStrictEqual(sizes(sections), [13, 17]);
+});
+
+test('splitTopicalSections gives a segment over the limit a section of its own', () => {
+    const long = { start: 10, end: 20, text: PLANTS.join(' ').repeat(20) };
+    const timestamps = [{ start: 0, end: 10, text: 'Welcome.' }, long, { start: 20, end: 30, text: 'Goodbye.' }];
+    const sections = splitTopicalSections(timestamps, 100);
+
+    assert.ok(sections.some(section => section.length === 1 && section[0] === long));
+    assert.ok(sections.every(section => section.length > 0));
+    assert.deepStrictEqual(sections.flat(), timestamps);
+});
+
+const lesson: Lesson = {
+    lessonInfo: { title: 'Plants and volcanoes', description: 'How plants make sugar and how volcanoes erupt' },
+    memoryCards: [
+        { title: 'Chlorophyll', description: 'The green pigment that absorbs the light used by photosynthesis.' },
+        { title: 'Magma', description: 'Molten rock below the surface that becomes lava when a volcano erupts.' }
+    ],
+    quizCards: [{ question: 'What do plants release?', options: ['Oxygen', 'Nitrogen'], correctOptionIndex: 0 }],
+    openEndedCards: [{ question: 'Why do volcanoes erupt?', expectedAnswer: 'Pressure of the magma below' }]
+};
+
+function sectionCards(summary: string, card: { title: string; description: string }) {
+    return { summary, memoryCards: [card], quizCards: [], openEndedCards: [] };
+}
+
+test('analyze builds a long lesson from the cards of each section and repairs a section on its own', async () => {
+    const requests: Array<{ request: AnalysisRequest; repairs: RepairTurn[] }> = [];
+    const provider: AnalysisProvider = {
+        name: 'sectioned',
+        model: 'test-model',
+        async generate(request, repairs) {
+            requests.push({ request, repairs: [...repairs] });
+            const text = request.content.map(part => part.type === 'text' ? part.text : '').join('\n');
+            if (request.systemPrompt !== SECTION_SYSTEM_PROMPT) {
+                return { raw: JSON.stringify(lesson) };
+            }
+            if (/section 1 of 2/.test(text)) {
+                // The first answer for the first section has no summary
+                const cards = sectionCards('Photosynthesis in leaves.', lesson.memoryCards[0]);
+                return { raw: JSON.stringify(repairs.length === 0 ? { ...cards, summary: '' } : cards) };
+            }
+            return { raw: JSON.stringify(sectionCards('Volcanic eruptions.', lesson.memoryCards[1])) };
+        }
+    };
+    AnalysisManager.register(provider);
+
+    // About 1500 tokens, over the smallest section size of 1000
+    const timestamps = lecture([[PLANTS, 36], [VOLCANOES, 24]]);
+    const result = await new AIService({ sectionTokens: 1000 }).analyze('sectioned', timestamps, [], false);
+
+    assert.deepStrictEqual(result.lesson, lesson);
+    assert.deepStrictEqual(result.sections!.map(section => [section.start, section.end, section.cards?.summary]), [
+        [0, 360, 'Photosynthesis in leaves.'],
+        [360, 600, 'Volcanic eruptions.']
+    ]);
+    assert.deepStrictEqual(result.attempts.map(attempt => [attempt.stage, attempt.attempt, attempt.errors.length > 0]), [
+        ['section 1/2', 1, true],
+        ['section 1/2', 2, false],
+        ['section 2/2', 1, false],
+        ['reduce', 1, false]
+    ]);
+
+    // The section is repaired with the section prompt and only its own part of the transcript
+    const repaired = requests.find(item => item.repairs.length > 0)!;
+    assert.match(repaired.repairs[0].feedback, /not a valid set of cards for this section/);
+    assert.match(repaired.repairs[0].feedback, /summary/);
+    assert.deepStrictEqual(repaired.request.timestamps, timestamps.slice(0, 36));
+
+    // The reduce pass gets the cards of both sections instead of the transcript
+    const reduce = requests[requests.length - 1].request;
+    const reduceText = (reduce.content[0] as { text: string }).text;
+    assert.match(reduceText, /Photosynthesis in leaves\./);
+    assert.match(reduceText, /Volcanic eruptions\./);
+    assert.ok(!reduceText.includes(timestamps[0].text));
+});
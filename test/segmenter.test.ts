@@ -0,0 +1,83 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import { DEFAULT_SEGMENTER_OPTIONS, TranscriptWord, parseSegmentationSpec, segmentTranscript, segmentWords } from '../src/transcription';
+
+// Words of 0.4 seconds with 0.1 seconds between them, unless a start is given
+function words(...items: Array<string | [string, Partial<TranscriptWord>]>): TranscriptWord[] {
+    let time = 0;
+    return items.map(item => {
+        const [text, extra] = typeof item === 'string' ? [item, {}] : item;
+        const start = extra.start ?? time;
+        time = start + 0.5;
+        return { text, start, end: start + 0.4, ...extra };
+    });
+}
+
+const texts = (segments: { text: string }[]) => segments.map(segment => segment.text);
+
+test('parseSegmentationSpec replaces the strategies and keeps the defaults of values not given', () => {
+    assert.deepStrictEqual(parseSegmentationSpec('sentence, max-duration=8,pause=0.7'), {
+        ...DEFAULT_SEGMENTER_OPTIONS,
+        strategies: ['sentence', 'max-duration', 'pause'],
+        maxDuration: 8,
+        pauseGap: 0.7
+    });
+    assert.throws(() => parseSegmentationSpec('sentence,paragraph'), /Unknown segmentation strategy "paragraph"/);
+    assert.throws(() => parseSegmentationSpec('pause=-1'), /Invalid value/);
+    assert.throws(() => parseSegmentationSpec('sentence=2'), /Invalid value/);
+    assert.throws(() => parseSegmentationSpec(' , '), /lists no strategy/);
+});
+
+test('each strategy ends a segment at its own boundary', () => {
+    const sentence = words('Hello', 'there.', 'How', 'are', 'you?', 'Fine');
+    assert.deepStrictEqual(texts(segmentWords(sentence, { strategies: ['sentence'] })), ['Hello there.', 'How are you?', 'Fine']);
+    // Closing quotes after the full stop still end the sentence
+    assert.deepStrictEqual(texts(segmentWords(words('He', 'said', '"stop."', 'Then'), { strategies: ['sentence'] })), ['He said "stop."', 'Then']);
+
+    const speakers = words(['Hi', { speaker: 'A' }], ['Bob', { speaker: 'A' }], ['Hey', { speaker: 'B' }]);
+    const bySpeaker = segmentWords(speakers, { strategies: ['speaker'] });
+    assert.deepStrictEqual(bySpeaker.map(segment => [segment.text, segment.speaker]), [['Hi Bob', 'A'], ['Hey', 'B']]);
+
+    const pause = words('one', 'two', ['three', { start: 2.5 }], 'four');
+    assert.deepStrictEqual(texts(segmentWords(pause, { strategies: ['pause'], pauseGap: 1 })), ['one two', 'three four']);
+
+    const long = words('a', 'b', 'c', 'd', 'e');
+    // The third word would end at 1.4 seconds
+    assert.deepStrictEqual(texts(segmentWords(long, { strategies: ['max-duration'], maxDuration: 1.2 })), ['a b', 'c d', 'e']);
+    assert.deepStrictEqual(texts(segmentWords(words('abc', 'def', 'ghi'), { strategies: ['max-characters'], maxCharacters: 7 })), ['abc def', 'ghi']);
+});
+
+test('segmentWords gives each segment the time, words and confidence of its words', () => {
+    const [segment] = segmentWords(words(['Good', { confidence: 0.9 }], ['morning.', { confidence: 0.7 }]));
+    assert.strictEqual(segment.start, 0);
+    assert.strictEqual(segment.end, 0.9);
+    assert.strictEqual(segment.words!.length, 2);
+    assert.ok(Math.abs(segment.confidence! - 0.8) < 1e-9);
+});
+
+test('segmentTranscript re-cuts service segments by the same rules', () => {
+    const transcript = segmentTranscript({
+        language: 'en',
+        segments: [
+            // Whisper: words without punctuation, confidence on the segment
+            {
+                start: 0, end: 2, text: 'Hello there. How are', confidence: 0.9, noSpeechProbability: 0.1,
+                words: words('Hello', 'there', 'How', 'are')
+            },
+            // Gemini: no words at all
+            { start: 2, end: 3, text: 'you? Fine.', noSpeechProbability: 0.3 }
+        ]
+    }, { strategies: ['sentence'] });
+
+    assert.strictEqual(transcript.language, 'en');
+    assert.deepStrictEqual(texts(transcript.segments), ['Hello there.', 'How are you?', 'Fine.']);
+    // The reported words are kept with the punctuation of the text
+    assert.deepStrictEqual(transcript.segments[0].words!.map(word => word.text), ['Hello', 'there.']);
+    assert.strictEqual(transcript.segments[0].confidence, 0.9);
+    // Segments with estimated words keep their times but not the words
+    assert.strictEqual(transcript.segments[1].words, undefined);
+    assert.strictEqual(transcript.segments[1].start, 1);
+    assert.strictEqual(transcript.segments[1].noSpeechProbability, 0.3);
+    // Estimated words share the segment's second by their length: "you?" has 4 of the 9 characters
+    assert.deepStrictEqual([transcript.segments[2].start, transcript.segments[2].end], [2.444, 3]);
+});
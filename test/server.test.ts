@@ -0,0 +1,179 @@
+import { after, test } from 'node:test';
+import * as assert from 'node:assert';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import { Readable } from 'stream';
+import { AIService } from '../src/aiService';
+import { DEFAULT_PRICE_TABLE } from '../src/usage';
+import { ApiError, JobRecord, JobRunner, JobStore, MediaRecord, createApiServer, parseJobSpec, resolveArtifact } from '../src/server';
+
+const rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'server-test-'));
+after(() => fs.rmSync(rootDir, { recursive: true, force: true }));
+
+const media: MediaRecord = { id: 'media', name: 'lecture.mp4', path: '/data/lecture.mp4', source: 'path', bytes: 1, createdAt: '' };
+
+// Runs a callback after the records are read and before the caller gets them.
+// The first listing is start() looking for interrupted jobs, the second the runner's first look at the queue.
+class HookedStore extends JobStore {
+    private listings = 0;
+
+    constructor(rootDir: string, private onList: (listing: number) => Promise<void>) {
+        super(rootDir);
+    }
+
+    async listJobs(): Promise<JobRecord[]> {
+        const jobs = await super.listJobs();
+        await this.onList(++this.listings);
+        return jobs;
+    }
+}
+
+function createRunner(store: JobStore): JobRunner {
+    return new JobRunner(store, {
+        aiService: new AIService(),
+        concurrency: 1,
+        prices: DEFAULT_PRICE_TABLE,
+        tool: { name: 'test', version: '0', commit: null, node: process.version }
+    });
+}
+
+async function waitFor(condition: () => boolean | Promise<boolean>): Promise<void> {
+    for (let i = 0; i < 200; i++) {
+        if (await condition()) {
+            return;
+        }
+        await new Promise(resolve => setTimeout(resolve, 10));
+    }
+    assert.fail('Timed out');
+}
+
+function request(server: http.Server, method: string, url: string, body: string): Promise<{ status: number; body: any }> {
+    const { port } = server.address() as AddressInfo;
+    return new Promise((resolve, reject) => {
+        const req = http.request({ port, method, path: url, headers: { 'Content-Type': 'application/octet-stream' } }, res => {
+            let data = '';
+            res.on('data', chunk => data += chunk);
+            res.on('end', () => resolve({ status: res.statusCode!, body: JSON.parse(data) }));
+        });
+        req.on('error', reject);
+        // Sent in parts without a Content-Length, so only the store's count can reject it
+        req.write(body.slice(0, 10));
+        req.end(body.slice(10));
+    });
+}
+
+test('parseJobSpec applies the run defaults and rejects unknown services', () => {
+    process.env.LOCAL_WHISPER_MODEL = 'model.bin';
+    const spec = parseJobSpec({ transcribers: ['local-whisper'], analyzers: [], speakers: 2 }, media);
+    assert.strictEqual(spec.media, 'media');
+    assert.deepStrictEqual(spec.analyzers, []);
+    assert.strictEqual(spec.diarize, true);
+    assert.strictEqual(spec.includeImages, false);
+
+    assert.throws(() => parseJobSpec({ transcribers: ['nope'] }, media), (error: any) => error instanceof ApiError && error.status === 400);
+    assert.throws(() => parseJobSpec({ transcribers: ['local-whisper'], analyzers: [], maxFrames: 0 }, media), /maxFrames/);
+    assert.throws(() => parseJobSpec({ transcribers: [] }, media), /at least one transcriber/);
+});
+
+test('resolveArtifact stays inside the video output directory', () => {
+    const videoDir = path.join(rootDir, 'artifacts', 'lecture');
+    fs.mkdirSync(path.join(videoDir, 'frames'), { recursive: true });
+    fs.writeFileSync(path.join(videoDir, 'transcription_openai.json'), '{}');
+    fs.writeFileSync(path.join(rootDir, 'artifacts', 'secret.json'), '{}');
+
+    assert.strictEqual(resolveArtifact(videoDir, 'transcription_openai.json'), path.join(videoDir, 'transcription_openai.json'));
+    assert.strictEqual(resolveArtifact(videoDir, '../secret.json'), null);
+    assert.strictEqual(resolveArtifact(videoDir, path.join(rootDir, 'artifacts', 'secret.json')), null);
+    assert.strictEqual(resolveArtifact(videoDir, 'frames'), null);
+    assert.strictEqual(resolveArtifact(videoDir, 'missing.json'), null);
+});
+
+test('a job queued while the runner lists the jobs is not missed', async () => {
+    let job: JobRecord | undefined;
+    const store: JobStore = new HookedStore(path.join(rootDir, 'wakeup'), async listing => {
+        if (listing === 2) {
+            job = await store.createJob(parseJobSpec({ transcribers: ['local-whisper'], analyzers: [] }, media), media);
+            runner.notify();
+        }
+    });
+    const runner = createRunner(store);
+    await runner.start();
+    await waitFor(() => job !== undefined);
+    // The media does not exist, so the job fails once the runner takes it
+    await waitFor(async () => (await store.getJob(job!.id))?.status === 'failed');
+    await runner.stop();
+});
+
+test('a queued job cancelled while the runner lists the jobs does not run', async () => {
+    let cancelled: JobRecord | null = null;
+    const store: JobStore = new HookedStore(path.join(rootDir, 'cancel'), async listing => {
+        if (listing === 2) {
+            cancelled = await runner.cancel(job.id);
+        }
+    });
+    const runner = createRunner(store);
+    const job = await store.createJob(parseJobSpec({ transcribers: ['local-whisper'], analyzers: [] }, media), media);
+    await runner.start();
+    await waitFor(() => cancelled !== null);
+    // Gives the runner the time to take the job it listed
+    await new Promise(resolve => setTimeout(resolve, 100));
+    await runner.stop();
+    assert.strictEqual(cancelled!.status, 'cancelled');
+    const saved = await store.getJob(job.id);
+    assert.strictEqual(saved?.status, 'cancelled');
+    assert.strictEqual(saved?.startedAt, undefined);
+});
+
+test('the server answers 503 for new jobs once the store failed', async () => {
+    const store = new HookedStore(path.join(rootDir, 'failing'), async listing => {
+        if (listing === 2) {
+            throw new Error('disk full');
+        }
+    });
+    const runner = createRunner(store);
+    await runner.start();
+    await waitFor(() => runner.isStopped());
+
+    const server = createApiServer(store, runner);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    try {
+        const response = await request(server, 'POST', '/jobs', '{}');
+        assert.strictEqual(response.status, 503);
+    } finally {
+        server.close();
+    }
+});
+
+test('uploads above the limit are rejected with 413 and leave nothing behind', async () => {
+    const store = new JobStore(path.join(rootDir, 'uploads'));
+    const server = createApiServer(store, createRunner(store), { maxUploadBytes: 16 });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    try {
+        const rejected = await request(server, 'POST', '/media?name=lecture.mp3', 'x'.repeat(64));
+        assert.strictEqual(rejected.status, 413);
+        assert.deepStrictEqual(fs.readdirSync(path.join(rootDir, 'uploads', 'media')), []);
+
+        const accepted = await request(server, 'POST', '/media?name=lecture.mp3', 'x'.repeat(16));
+        assert.strictEqual(accepted.status, 201);
+        assert.strictEqual(accepted.body.bytes, 16);
+    } finally {
+        server.closeAllConnections();
+        server.close();
+    }
+});
+
+test('jobs process the stored upload without copying it into the job directory', async () => {
+    const store = new JobStore(path.join(rootDir, 'copies'));
+    const upload = await store.saveUpload('lecture.mp3', Readable.from([Buffer.from('not really audio')]));
+    const job = await store.createJob(parseJobSpec({ transcribers: ['local-whisper'], analyzers: [] }, upload), upload);
+    const runner = createRunner(store);
+    await runner.start();
+    // Local whisper without a model fails once the runner takes the job
+    await waitFor(async () => (await store.getJob(job.id))?.status === 'failed');
+    await runner.stop();
+    assert.ok(fs.existsSync(store.getVideoDirectory(job)));
+    assert.deepStrictEqual(fs.readdirSync(store.getVideoDirectory(job)).filter(name => name === 'lecture.mp3'), []);
+});
@@ -0,0 +1,77 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import { buildCues, normalizeSegments, renderSubtitles, toSrt, toTtml, toVtt, wrapText } from '../src/subtitles';
+
+test('wrapText fills lines greedily and keeps long words whole', () => {
+    assert.deepStrictEqual(wrapText('the quick brown fox jumps', 10), ['the quick', 'brown fox', 'jumps']);
+    assert.deepStrictEqual(wrapText('a supercalifragilistic word', 10), ['a', 'supercalifragilistic', 'word']);
+});
+
+test('normalizeSegments sorts the segments, drops empty ones and removes overlaps', () => {
+    assert.deepStrictEqual(normalizeSegments([
+        { start: 5, end: 8, text: 'second' },
+        { start: 0, end: 6, text: ' first ' },
+        { start: 6, end: 7, text: '  ' },
+        { start: 5, end: 9, text: 'third' }
+    ]), [
+        { start: 0, end: 5, text: 'first' },
+        { start: 5, end: 8, text: 'second' },
+        { start: 8, end: 9, text: 'third' }
+    ]);
+});
+
+test('buildCues splits long segments within the line and duration limits', () => {
+    const text = 'one two three four five six seven eight nine ten eleven twelve';
+    const cues = buildCues([{ start: 0, end: 6, text }], { maxLineLength: 15, maxLines: 2 });
+    assert.ok(cues.length > 1);
+    assert.ok(cues.every(cue => cue.lines.length <= 2 && cue.lines.every(line => line.length <= 15)));
+    assert.strictEqual(cues.map(cue => cue.lines.join(' ')).join(' '), text);
+    // The pieces share the time of the segment without gaps
+    assert.strictEqual(cues[0].start, 0);
+    assert.ok(Math.abs(cues[cues.length - 1].end - 6) < 1e-9);
+    cues.slice(1).forEach((cue, i) => assert.strictEqual(cue.start, cues[i].end));
+
+    // A single word cannot be split, however long it is spoken
+    const long = buildCues([{ start: 0, end: 20, text: 'Slowly.' }]);
+    assert.strictEqual(long.length, 1);
+    // Three pieces would fit the 7 second limit on average, but one would hold two of the four words
+    const spread = buildCues([{ start: 0, end: 20, text: 'alpha bravo delta gamma' }]);
+    assert.deepStrictEqual(spread.map(cue => [cue.start, cue.end]), [[0, 5], [5, 10], [10, 15], [15, 20]]);
+});
+
+test('buildCues keeps short cues on screen without running into the next one', () => {
+    const cues = buildCues([
+        { start: 0, end: 0.2, text: 'Hi.' },
+        { start: 0.5, end: 0.6, text: 'Yes.' },
+        { start: 5, end: 5.1, text: 'Bye.' }
+    ]);
+    assert.deepStrictEqual(cues.map(cue => [cue.start, cue.end]), [[0, 0.5], [0.5, 1.5], [5, 6]]);
+});
+
+test('the writers render the cues in each format', () => {
+    const cues = [
+        { start: 1.5, end: 3.25, lines: ['Fish & chips', 'are <great>'] },
+        { start: 3661.001, end: 3662, lines: ['An hour later'] }
+    ];
+    assert.strictEqual(toSrt(cues), [
+        '1', '00:00:01,500 --> 00:00:03,250', 'Fish & chips', 'are <great>', '',
+        '2', '01:01:01,001 --> 01:01:02,000', 'An hour later', ''
+    ].join('\n'));
+    assert.strictEqual(toVtt(cues), [
+        'WEBVTT', '',
+        '00:00:01.500 --> 00:00:03.250', 'Fish &amp; chips', 'are &lt;great&gt;', '',
+        '01:01:01.001 --> 01:01:02.000', 'An hour later', ''
+    ].join('\n'));
+    assert.ok(toTtml(cues).includes('<p begin="00:00:01.500" end="00:00:03.250">Fish &amp; chips<br/>are &lt;great&gt;</p>'));
+});
+
+test('renderSubtitles writes the language of the transcript into TTML', () => {
+    const segments = [{ start: 0, end: 2, text: 'Hello there.' }];
+    const language = (transcript: { language?: string }) =>
+        renderSubtitles({ ...transcript, segments }, 'ttml').match(/xml:lang="([^"]*)"/)![1];
+    assert.strictEqual(language({ language: 'pt-BR' }), 'pt-BR');
+    assert.strictEqual(language({ language: 'russian' }), 'ru');
+    assert.strictEqual(language({ language: 'klingon' }), 'en');
+    assert.strictEqual(language({}), 'en');
+    assert.strictEqual(renderSubtitles({ segments }, 'srt'), '1\n00:00:00,000 --> 00:00:02,000\nHello there.\n');
+});
@@ -0,0 +1,51 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { HttpError } from '../src/retry';
+import { RateLimitManager } from '../src/scheduler';
+import { Transcript, TranscriptionManager, TranscriptionServiceType } from '../src/transcription';
+
+test('every retried attempt waits for the rate limit and checks the budget again', async () => {
+    const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'transcription-test-'));
+    const audioPath = path.join(dir, 'lecture.mp3');
+    await fs.promises.writeFile(audioPath, 'not really audio');
+
+    // The request itself fails once with a transient error, then answers
+    const service = TranscriptionManager.getService(TranscriptionServiceType.OPENAI_WHISPER) as unknown as {
+        transcribeWithOpenAI: () => Promise<Transcript>;
+    };
+    const original = service.transcribeWithOpenAI;
+    let requests = 0;
+    service.transcribeWithOpenAI = async () => {
+        requests++;
+        if (requests === 1) {
+            throw new HttpError('unavailable', 503);
+        }
+        return { segments: [{ start: 0, end: 1, text: 'Hello.' }] };
+    };
+
+    const run = RateLimitManager.run;
+    const acquired: string[] = [];
+    RateLimitManager.run = (provider, task) => {
+        acquired.push(provider);
+        return run(provider, task);
+    };
+
+    let budgetChecks = 0;
+    try {
+        const transcript = await TranscriptionManager.transcribe(audioPath, TranscriptionServiceType.OPENAI_WHISPER, {
+            useCache: false,
+            usage: { record: () => undefined, checkBudget: () => { budgetChecks++; } }
+        });
+        assert.strictEqual(transcript.segments[0].text, 'Hello.');
+    } finally {
+        service.transcribeWithOpenAI = original;
+        RateLimitManager.run = run;
+        await fs.promises.rm(dir, { recursive: true, force: true });
+    }
+    assert.strictEqual(requests, 2);
+    assert.deepStrictEqual(acquired, [TranscriptionServiceType.OPENAI_WHISPER, TranscriptionServiceType.OPENAI_WHISPER]);
+    assert.strictEqual(budgetChecks, 2);
+});
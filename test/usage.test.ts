@@ -0,0 +1,60 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import { BudgetExceededError, PriceTable, UsageLedger, computeCost, estimateVideo } from '../src/usage';
+
+const prices: PriceTable = {
+    models: {
+        'text-model': { input: 2, output: 10 },
+        'audio-model': { input: 1, output: 4, audioInput: 8 }
+    },
+    transcription: { whisper: 0.006 }
+};
+
+test('computeCost prices tokens per million and audio per minute', () => {
+    assert.strictEqual(computeCost({ provider: 'openai', model: 'text-model', inputTokens: 1e6, outputTokens: 5e5 }, prices), 7);
+    assert.strictEqual(computeCost({ provider: 'whisper', audioSeconds: 600 }, prices), 0.06);
+    // Audio tokens are priced apart from the rest of the input
+    assert.strictEqual(computeCost({ provider: 'gemini', model: 'audio-model', inputTokens: 3e6, audioInputTokens: 1e6, outputTokens: 1e6 }, prices), 14);
+});
+
+test('computeCost is null without a price', () => {
+    assert.strictEqual(computeCost({ provider: 'openai', model: 'unknown', inputTokens: 10 }, prices), null);
+    assert.strictEqual(computeCost({ provider: 'amazon', audioSeconds: 60 }, prices), null);
+    assert.strictEqual(computeCost({ provider: 'openai', inputTokens: 10 }, prices), null);
+});
+
+test('estimateVideo has a line per transcriber and per analysis of each transcription', () => {
+    const lines = estimateVideo({
+        duration: 600,
+        isVideo: false,
+        transcribers: [{ service: 'whisper' }, { service: 'gemini', model: 'audio-model' }],
+        transcriptions: ['whisper', 'gemini'],
+        analyzers: [{ provider: 'anthropic', model: 'text-model', sectionTokens: 8000, imageTokens: 0 }]
+    }, prices);
+    assert.deepStrictEqual(lines.map(line => line.step), [
+        'transcription:whisper', 'transcription:gemini', 'analysis:anthropic:whisper', 'analysis:anthropic:gemini'
+    ]);
+    assert.strictEqual(lines[0].cost, 0.06);
+    // Gemini without a price per minute is estimated by its tokens: 32 per second of audio
+    assert.strictEqual(lines[1].usage.audioInputTokens, 600 * 32);
+    assert.ok(lines.every(line => line.cost !== null && line.cost > 0));
+});
+
+test('estimateVideo plans sections for long transcripts', () => {
+    const analyzer = { provider: 'anthropic', model: 'text-model', sectionTokens: 8000, imageTokens: 0 };
+    const plan = { isVideo: false, transcribers: [], transcriptions: ['whisper'], analyzers: [analyzer] };
+    const [short] = estimateVideo({ ...plan, duration: 10 * 60 }, prices);
+    const [long] = estimateVideo({ ...plan, duration: 3 * 60 * 60 }, prices);
+    // The sections and the reduce pass answer more than the single lesson request
+    assert.ok(long.usage.outputTokens! > short.usage.outputTokens!);
+});
+
+test('UsageLedger stops new paid calls once --max-cost is spent', () => {
+    const ledger = new UsageLedger(prices, 0.05);
+    const recorder = ledger.forStep('lecture.mp4', 'transcription:whisper');
+    recorder.checkBudget();
+    recorder.record({ provider: 'whisper', audioSeconds: 600 });
+    assert.strictEqual(ledger.isOverBudget(), true);
+    assert.throws(() => recorder.checkBudget(), BudgetExceededError);
+    assert.strictEqual(ledger.summarize('lecture.mp4').cost, 0.06);
+});